@@ -10,4 +10,8 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  // Function extensions test with vitest, so jest is never installed
+  settings: {
+    jest: { version: 29 },
+  },
 };
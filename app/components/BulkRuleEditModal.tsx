@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Modal, TextField, BlockStack, Text, List } from "@shopify/polaris";
+import {
+  parseBulkRuleEdit,
+  planBulkRuleEdit,
+  type BulkEditableRule,
+  type BulkRuleOperation,
+} from "../services/pricing-rule-bulk";
+
+export interface BulkRuleEditRequest {
+  operation: BulkRuleOperation;
+  // Preset for status changes, typed in the modal otherwise
+  value: string;
+}
+
+interface BulkRuleEditModalProps {
+  request: BulkRuleEditRequest | null;
+  // The selected rules, for previewing the edit
+  rules: BulkEditableRule[];
+  loading: boolean;
+  onClose: () => void;
+  onConfirm: (request: BulkRuleEditRequest) => void;
+}
+
+const COPY: Record<
+  BulkRuleOperation,
+  { title: string; action: string; label?: string; helpText?: string }
+> = {
+  setStatus: { title: "Change status", action: "Update rules" },
+  shiftPriority: {
+    title: "Shift priority",
+    action: "Shift priority",
+    label: "Shift by",
+    helpText: "Negative numbers move rules ahead of others. Priorities stop at 1 and 99.",
+  },
+  setPriority: {
+    title: "Set priority",
+    action: "Set priority",
+    label: "Priority",
+    helpText: "When several rules match a product, the lowest number wins",
+  },
+  scaleAmount: {
+    title: "Scale amounts",
+    action: "Scale amounts",
+    label: "Factor",
+    helpText: "1.1 raises amounts by 10%, 0.9 lowers them by 10%. Amounts are rounded to 2 decimals.",
+  },
+};
+
+const STATUS_TITLES: Record<string, string> = {
+  active: "Enable rules",
+  inactive: "Disable rules",
+};
+
+export function BulkRuleEditModal({
+  request,
+  rules,
+  loading,
+  onClose,
+  onConfirm,
+}: BulkRuleEditModalProps) {
+  const [value, setValue] = useState("");
+
+  useEffect(() => {
+    setValue(request?.value ?? "");
+  }, [request]);
+
+  if (!request) {
+    return null;
+  }
+
+  const copy = COPY[request.operation];
+  const edit = parseBulkRuleEdit(request.operation, value);
+  const plan = typeof edit === "string" ? null : planBulkRuleEdit(rules, edit);
+  const title =
+    request.operation === "setStatus" ? STATUS_TITLES[request.value] || copy.title : copy.title;
+
+  return (
+    <Modal
+      open
+      onClose={onClose}
+      title={title}
+      primaryAction={{
+        content: request.operation === "setStatus" ? title : copy.action,
+        onAction: () => onConfirm({ operation: request.operation, value }),
+        disabled: !plan || plan.changes.length === 0,
+        loading,
+      }}
+      secondaryActions={[
+        {
+          content: "Cancel",
+          onAction: onClose,
+          disabled: loading,
+        },
+      ]}
+    >
+      <Modal.Section>
+        <BlockStack gap="300">
+          {copy.label && (
+            <TextField
+              label={copy.label}
+              type="number"
+              autoComplete="off"
+              value={value}
+              onChange={setValue}
+              helpText={copy.helpText}
+              error={value !== "" && typeof edit === "string" ? edit : undefined}
+            />
+          )}
+
+          {plan && (
+            <Text as="p">
+              {`${plan.changes.length} of ${rules.length} selected rule(s) will change.`}
+              {plan.unchanged > 0 && ` ${plan.unchanged} already match and stay as they are.`}
+            </Text>
+          )}
+
+          {plan && plan.skipped.length > 0 && (
+            <BlockStack gap="100">
+              <Text as="p" tone="caution">
+                {`${plan.skipped.length} rule(s) will be skipped:`}
+              </Text>
+              <List>
+                {plan.skipped.map((skipped) => (
+                  <List.Item key={skipped.ruleId}>
+                    {`${skipped.name}: ${skipped.reason}`}
+                  </List.Item>
+                ))}
+              </List>
+            </BlockStack>
+          )}
+        </BlockStack>
+      </Modal.Section>
+    </Modal>
+  );
+}
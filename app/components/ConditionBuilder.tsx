@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import {
+  BlockStack,
+  InlineStack,
+  Button,
+  Select,
+  TextField,
+  Tag,
+  Text,
+  InlineError,
+} from "@shopify/polaris";
+import { DeleteIcon } from "@shopify/polaris-icons";
+import {
+  CONDITION_FIELD_OPTIONS,
+  CONDITION_OPERATOR_OPTIONS,
+  createCondition,
+  createConditionGroup,
+  type ConditionField,
+  type ConditionGroup,
+  type ConditionNode,
+  type ConditionOperator,
+  type ConditionTree,
+  type PricingCondition,
+} from "../services/pricing-conditions";
+import { getCurrencySymbol } from "../services/currency";
+
+interface ConditionBuilderProps {
+  tree: ConditionTree;
+  onChange: (tree: ConditionTree) => void;
+  collectionTitles?: Record<string, string>;
+  currencyCode?: string;
+  error?: string;
+}
+
+const MAX_DEPTH = 3;
+
+export function ConditionBuilder({ tree, onChange, collectionTitles = {}, currencyCode, error }: ConditionBuilderProps) {
+  const app = useAppBridge();
+  const currencySymbol = getCurrencySymbol(currencyCode);
+  // Titles for collections picked in this session, on top of the loaded ones
+  const [pickedTitles, setPickedTitles] = useState<Record<string, string>>({});
+  const titles = { ...collectionTitles, ...pickedTitles };
+
+  // Replace one node anywhere in the tree, keeping everything else as is
+  const updateNode = (id: string, update: (node: ConditionNode) => ConditionNode | null) => {
+    const visit = (node: ConditionNode): ConditionNode | null => {
+      if (node.id === id) return update(node);
+      if (node.type === "condition") return node;
+      return {
+        ...node,
+        children: node.children
+          .map(visit)
+          .filter((child): child is ConditionNode => child !== null),
+      };
+    };
+    onChange({ ...tree, root: visit(tree.root) as ConditionGroup });
+  };
+
+  const pickCollections = async (condition: PricingCondition) => {
+    try {
+      const selection = await app.resourcePicker({
+        type: 'collection',
+        multiple: true,
+        selectionIds: condition.values.map(id => ({ id })),
+      });
+
+      if (selection) {
+        const newTitles: Record<string, string> = {};
+        selection.forEach((collection: any) => {
+          newTitles[collection.id] = collection.title;
+        });
+        setPickedTitles(prev => ({ ...prev, ...newTitles }));
+        updateNode(condition.id, node => ({
+          ...node,
+          values: selection.map((collection: any) => collection.id),
+        }) as PricingCondition);
+      }
+    } catch (error) {
+      console.error("Collection ResourcePicker error:", error);
+    }
+  };
+
+  const renderValueInput = (condition: PricingCondition) => {
+    const setValues = (values: string[]) =>
+      updateNode(condition.id, node => ({ ...node, values }) as PricingCondition);
+
+    switch (condition.field) {
+      case "collection":
+        return (
+          <InlineStack gap="200" blockAlign="center" wrap>
+            {condition.values.map(id => (
+              <Tag
+                key={id}
+                onRemove={() => setValues(condition.values.filter(value => value !== id))}
+              >
+                {titles[id] || id.split("/").pop()}
+              </Tag>
+            ))}
+            <Button variant="plain" onClick={() => pickCollections(condition)}>
+              {condition.values.length > 0 ? "Edit collections" : "Select collections"}
+            </Button>
+          </InlineStack>
+        );
+
+      case "price":
+        return condition.operator === "between" ? (
+          <InlineStack gap="200" blockAlign="center" wrap={false}>
+            <TextField
+              label="Minimum price"
+              labelHidden
+              type="number"
+              prefix={currencySymbol}
+              autoComplete="off"
+              value={condition.values[0] || ""}
+              onChange={value => setValues([value, condition.values[1] || ""])}
+            />
+            <Text as="span" variant="bodyMd">and</Text>
+            <TextField
+              label="Maximum price"
+              labelHidden
+              type="number"
+              prefix={currencySymbol}
+              autoComplete="off"
+              value={condition.values[1] || ""}
+              onChange={value => setValues([condition.values[0] || "", value])}
+            />
+          </InlineStack>
+        ) : (
+          <TextField
+            label="Price"
+            labelHidden
+            type="number"
+            prefix={currencySymbol}
+            autoComplete="off"
+            value={condition.values[0] || ""}
+            onChange={value => setValues([value])}
+          />
+        );
+
+      default:
+        // Tags, vendors and product types are typed as a comma separated list
+        return (
+          <TextField
+            label="Values"
+            labelHidden
+            autoComplete="off"
+            placeholder={condition.field === "tag" ? "clearance, sale" : "Separate values with commas"}
+            value={condition.values.join(", ")}
+            onChange={value => setValues(value.split(",").map(item => item.trimStart()))}
+            onBlur={() => setValues(condition.values.map(item => item.trim()).filter(Boolean))}
+          />
+        );
+    }
+  };
+
+  const renderCondition = (condition: PricingCondition, canRemove: boolean) => (
+    <div
+      key={condition.id}
+      style={{
+        padding: '12px',
+        backgroundColor: '#f9fafb',
+        border: '1px solid #e1e3e5',
+        borderRadius: '8px',
+      }}
+    >
+      <BlockStack gap="200">
+        <InlineStack gap="200" blockAlign="center" wrap={false}>
+          <div style={{ flex: 1 }}>
+            <Select
+              label="Field"
+              labelHidden
+              options={CONDITION_FIELD_OPTIONS}
+              value={condition.field}
+              onChange={value => updateNode(condition.id, () => ({
+                ...createCondition(value as ConditionField),
+                id: condition.id,
+              }))}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <Select
+              label="Operator"
+              labelHidden
+              options={CONDITION_OPERATOR_OPTIONS[condition.field]}
+              value={condition.operator}
+              onChange={value => updateNode(condition.id, node => ({
+                ...node,
+                operator: value as ConditionOperator,
+                // Switching between a single price and a range starts over
+                values: condition.field === "price" ? [] : (node as PricingCondition).values,
+              }) as PricingCondition)}
+            />
+          </div>
+          <Button
+            icon={DeleteIcon}
+            variant="tertiary"
+            tone="critical"
+            accessibilityLabel="Remove condition"
+            disabled={!canRemove}
+            onClick={() => updateNode(condition.id, () => null)}
+          />
+        </InlineStack>
+        {renderValueInput(condition)}
+      </BlockStack>
+    </div>
+  );
+
+  const renderGroup = (group: ConditionGroup, depth: number, canRemove: boolean) => (
+    <div
+      key={group.id}
+      style={depth > 1 ? {
+        padding: '12px',
+        border: '1px dashed #8c9196',
+        borderRadius: '8px',
+      } : undefined}
+    >
+      <BlockStack gap="300">
+        <InlineStack align="space-between" blockAlign="center">
+          <InlineStack gap="200" blockAlign="center">
+            <Text as="span" variant="bodyMd">Products must match</Text>
+            <Select
+              label="Group operator"
+              labelHidden
+              options={[
+                { label: "all", value: "and" },
+                { label: "any", value: "or" },
+              ]}
+              value={group.operator}
+              onChange={value => updateNode(group.id, node => ({
+                ...node,
+                operator: value as "and" | "or",
+              }) as ConditionGroup)}
+            />
+            <Text as="span" variant="bodyMd">of these conditions</Text>
+          </InlineStack>
+          {depth > 1 && (
+            <Button
+              variant="plain"
+              tone="critical"
+              disabled={!canRemove}
+              onClick={() => updateNode(group.id, () => null)}
+            >
+              Remove group
+            </Button>
+          )}
+        </InlineStack>
+
+        {group.children.map(child =>
+          child.type === "group"
+            ? renderGroup(child, depth + 1, group.children.length > 1)
+            : renderCondition(child, group.children.length > 1)
+        )}
+
+        <InlineStack gap="300">
+          <Button
+            onClick={() => updateNode(group.id, node => ({
+              ...node,
+              children: [...(node as ConditionGroup).children, createCondition()],
+            }) as ConditionGroup)}
+          >
+            Add condition
+          </Button>
+          {depth < MAX_DEPTH && (
+            <Button
+              variant="plain"
+              onClick={() => updateNode(group.id, node => ({
+                ...node,
+                children: [
+                  ...(node as ConditionGroup).children,
+                  createConditionGroup(group.operator === "and" ? "or" : "and"),
+                ],
+              }) as ConditionGroup)}
+            >
+              Add group
+            </Button>
+          )}
+        </InlineStack>
+      </BlockStack>
+    </div>
+  );
+
+  return (
+    <div style={{ marginTop: '16px' }}>
+      <BlockStack gap="200">
+        {renderGroup(tree.root, 1, false)}
+        {error && <InlineError message={error} fieldID="conditions" />}
+      </BlockStack>
+    </div>
+  );
+}
+
+export default ConditionBuilder;
@@ -0,0 +1,133 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  Text,
+  BlockStack,
+  Tag,
+  LegacyStack,
+  Autocomplete,
+} from "@shopify/polaris";
+
+export interface SelectedCustomer {
+  id: string;
+  displayName: string;
+  email?: string | null;
+}
+
+interface CustomerPickerProps {
+  selectedCustomers: SelectedCustomer[];
+  onCustomersChange: (customers: SelectedCustomer[]) => void;
+  error?: string;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Searches customers by name or email; the resource picker has no customer type
+export function CustomerPicker({ selectedCustomers, onCustomersChange, error }: CustomerPickerProps) {
+  const [inputValue, setInputValue] = useState("");
+  const [results, setResults] = useState<SelectedCustomer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const searchCustomers = useCallback(async (search: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/customers?search=${encodeURIComponent(search)}`);
+      const data = await response.json();
+
+      if (data.success && Array.isArray(data.customers)) {
+        setResults(data.customers);
+      } else {
+        console.error("Error searching customers:", data.error);
+        setResults([]);
+      }
+    } catch (error) {
+      console.error("Failed to search customers:", error);
+      setResults([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    searchCustomers("");
+    return () => clearTimeout(searchTimer.current);
+  }, [searchCustomers]);
+
+  const updateText = useCallback((value: string) => {
+    setInputValue(value);
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => searchCustomers(value), SEARCH_DELAY_MS);
+  }, [searchCustomers]);
+
+  // Selected customers stay known even when they drop out of the results
+  const handleSelection = useCallback((selectedIds: string[]) => {
+    const known = [...selectedCustomers, ...results];
+    onCustomersChange(
+      selectedIds
+        .map(id => known.find(customer => customer.id === id))
+        .filter((customer): customer is SelectedCustomer => Boolean(customer))
+    );
+  }, [selectedCustomers, results, onCustomersChange]);
+
+  const removeCustomer = useCallback((customerId: string) => () => {
+    onCustomersChange(selectedCustomers.filter(customer => customer.id !== customerId));
+  }, [selectedCustomers, onCustomersChange]);
+
+  const options = results.map(customer => ({
+    value: customer.id,
+    label: customer.email ? `${customer.displayName} (${customer.email})` : customer.displayName,
+  }));
+
+  const verticalContentMarkup = selectedCustomers.length > 0 ? (
+    <LegacyStack spacing="extraTight" alignment="center">
+      {selectedCustomers.map((customer) => (
+        <Tag key={customer.id} onRemove={removeCustomer(customer.id)}>
+          {customer.displayName}
+        </Tag>
+      ))}
+    </LegacyStack>
+  ) : null;
+
+  return (
+    <div style={{ marginTop: '16px' }}>
+      <BlockStack gap="200">
+        <Text variant="bodyMd" as="p">
+          Customers {selectedCustomers.length > 0 && `(${selectedCustomers.length} selected)`}
+        </Text>
+
+        <Autocomplete
+          allowMultiple
+          options={options}
+          selected={selectedCustomers.map(customer => customer.id)}
+          onSelect={handleSelection}
+          loading={loading}
+          textField={
+            <Autocomplete.TextField
+              onChange={updateText}
+              label=""
+              value={inputValue}
+              placeholder="Search customers by name or email"
+              verticalContent={verticalContentMarkup}
+              autoComplete="off"
+              error={error}
+            />
+          }
+          emptyState={
+            inputValue && !loading && options.length === 0 ? (
+              <Text variant="bodyMd" tone="subdued" as="p">
+                No customers found
+              </Text>
+            ) : undefined
+          }
+          listTitle="Customers"
+        />
+
+        {selectedCustomers.length === 0 && inputValue === "" && (
+          <Text variant="bodyMd" tone="subdued" as="p">
+            No customers selected
+          </Text>
+        )}
+      </BlockStack>
+    </div>
+  );
+}
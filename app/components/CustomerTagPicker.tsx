@@ -0,0 +1,175 @@
+import { useState, useCallback, useEffect } from "react";
+import {
+  Text,
+  BlockStack,
+  Tag,
+  LegacyStack,
+  Autocomplete,
+} from "@shopify/polaris";
+
+interface CustomerTagPickerProps {
+  selectedTags: string[];
+  onTagsChange: (tags: string[]) => void;
+  label?: string;
+  error?: string;
+}
+
+const ADD_TAG_PREFIX = '➕ Add tag: "';
+
+// Same behaviour as TagPicker, but searches the shop's customer tags
+export function CustomerTagPicker({ selectedTags, onTagsChange, label = "Customer tags", error }: CustomerTagPickerProps) {
+  const [inputValue, setInputValue] = useState("");
+  const [allTags, setAllTags] = useState<{ value: string; label: string }[]>([]);
+  const [options, setOptions] = useState<{ value: string; label: string }[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [forceRenderKey, setForceRenderKey] = useState(0);
+
+  const updateOptions = useCallback((tags: { value: string; label: string }[], searchTerm: string) => {
+    if (searchTerm === '') {
+      setOptions(tags);
+      return;
+    }
+
+    // Tags starting with the search term come first
+    const searchLower = searchTerm.toLowerCase();
+
+    const startsWithTags = tags.filter((tag) =>
+      tag.label.toLowerCase().startsWith(searchLower)
+    );
+
+    const containsTags = tags.filter((tag) =>
+      tag.label.toLowerCase().includes(searchLower) &&
+      !tag.label.toLowerCase().startsWith(searchLower)
+    );
+
+    const filteredTags = [...startsWithTags, ...containsTags];
+
+    // Customers can be tagged later, so unknown tags may be added
+    const hasExactMatch = tags.some((tag) =>
+      tag.value.toLowerCase() === searchLower
+    );
+
+    if (!hasExactMatch && searchTerm.trim() && !selectedTags.includes(searchTerm.trim())) {
+      filteredTags.unshift({
+        value: `${ADD_TAG_PREFIX}${searchTerm.trim()}"`,
+        label: `${ADD_TAG_PREFIX}${searchTerm.trim()}"`
+      });
+    }
+
+    setOptions(filteredTags);
+  }, [selectedTags]);
+
+  // Customer tags are loaded once and filtered locally
+  const fetchTags = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/customer-tags`);
+      const data = await response.json();
+
+      if (data.success && Array.isArray(data.tags)) {
+        const formattedTags = data.tags.map((tag: string) => ({
+          value: tag,
+          label: tag
+        }));
+        setAllTags(formattedTags);
+        setOptions(formattedTags);
+      } else {
+        console.error("Error fetching customer tags:", data.error);
+        setAllTags([]);
+        setOptions([]);
+      }
+    } catch (error) {
+      console.error("Failed to fetch customer tags:", error);
+      setAllTags([]);
+      setOptions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  const updateText = useCallback((value: string) => {
+    setInputValue(value);
+    updateOptions(allTags, value);
+  }, [allTags, updateOptions]);
+
+  const handleSelection = useCallback((selected: string[]) => {
+    const addNewTagOption = selected.find(tag => tag.startsWith(ADD_TAG_PREFIX) && tag.endsWith('"'));
+
+    if (addNewTagOption) {
+      const actualTag = addNewTagOption.slice(ADD_TAG_PREFIX.length, -1);
+      onTagsChange([...selectedTags.filter(t => !t.startsWith(ADD_TAG_PREFIX)), actualTag]);
+
+      const newAllTags = [...allTags, { value: actualTag, label: actualTag }];
+      setAllTags(newAllTags);
+      setInputValue("");
+      updateOptions(newAllTags, "");
+      setForceRenderKey(prev => prev + 1);
+    } else {
+      onTagsChange(selected);
+      setInputValue("");
+      updateOptions(allTags, "");
+    }
+  }, [selectedTags, onTagsChange, allTags, updateOptions]);
+
+  const removeTag = useCallback((tag: string) => () => {
+    onTagsChange(selectedTags.filter(t => t !== tag));
+  }, [selectedTags, onTagsChange]);
+
+  const verticalContentMarkup = selectedTags.length > 0 ? (
+    <LegacyStack spacing="extraTight" alignment="center">
+      {selectedTags.map((tag) => (
+        <Tag key={`customer-tag-${tag}`} onRemove={removeTag(tag)}>
+          {tag}
+        </Tag>
+      ))}
+    </LegacyStack>
+  ) : null;
+
+  return (
+    <div style={{ marginTop: '16px' }}>
+      <BlockStack gap="200">
+        <Text variant="bodyMd" as="p">
+          {label} {selectedTags.length > 0 && `(${selectedTags.length} selected)`}
+        </Text>
+
+        <Autocomplete
+          key={forceRenderKey}
+          allowMultiple
+          options={options}
+          selected={selectedTags}
+          onSelect={handleSelection}
+          loading={loading}
+          textField={
+            <Autocomplete.TextField
+              onChange={updateText}
+              label=""
+              value={inputValue}
+              placeholder={loading ? "Loading customer tags..." : "Search or add customer tags"}
+              verticalContent={verticalContentMarkup}
+              autoComplete="off"
+              error={error}
+            />
+          }
+          emptyState={
+            inputValue && !loading && options.length === 0 ? (
+              <Text variant="bodyMd" tone="subdued" as="p">
+                No customer tags found
+              </Text>
+            ) : undefined
+          }
+          listTitle="Customer tags"
+        />
+
+        {selectedTags.length === 0 && inputValue === "" && (
+          <Text variant="bodyMd" tone="subdued" as="p">
+            No customer tags selected
+          </Text>
+        )}
+      </BlockStack>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  BlockStack,
+  InlineStack,
+  Text,
+  ProgressBar,
+  Button,
+} from "@shopify/polaris";
+
+export interface JobSnapshot {
+  id: string;
+  type: string;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  progress: number;
+  total: number;
+  error: string | null;
+  cancelRequested: boolean;
+  result: any;
+}
+
+interface JobProgressProps {
+  jobId: string;
+  label: string;
+  onFinish: (job: JobSnapshot) => void;
+}
+
+const POLL_INTERVAL_MS = 1500;
+const FINISHED_STATUSES = ["completed", "failed", "cancelled"];
+
+// Polls a background job and shows its progress until it finishes
+export function JobProgress({ jobId, label, onFinish }: JobProgressProps) {
+  const [job, setJob] = useState<JobSnapshot | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+
+  useEffect(() => {
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        const data = await response.json();
+        if (stopped) return;
+
+        if (data.success && data.job) {
+          setJob(data.job);
+          if (FINISHED_STATUSES.includes(data.job.status)) {
+            stopped = true;
+            clearInterval(timer);
+            onFinishRef.current(data.job);
+          }
+        } else {
+          console.error("Error fetching job:", data.error);
+        }
+      } catch (error) {
+        console.error("Error fetching job:", error);
+      }
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [jobId]);
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      const formData = new FormData();
+      formData.append("intent", "cancel");
+      const response = await fetch(`/api/jobs/${jobId}`, {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (data.success && data.job) {
+        setJob(data.job);
+      }
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      setCancelling(false);
+    }
+  };
+
+  const progress = job?.progress ?? 0;
+  const total = job?.total ?? 0;
+  const percent = total > 0 ? Math.min(100, Math.round((progress / total) * 100)) : 0;
+
+  const getStatusText = () => {
+    if (!job || job.status === "queued") return "Waiting to start...";
+    if (job.cancelRequested) return "Cancelling...";
+    if (total > 0) return `${progress} of ${total} (${percent}%)`;
+    return progress > 0 ? `${progress} processed` : "Starting...";
+  };
+
+  return (
+    <BlockStack gap="200">
+      <InlineStack align="space-between" blockAlign="center">
+        <Text as="span" variant="bodyMd">
+          {label}
+        </Text>
+        <InlineStack gap="300" blockAlign="center">
+          <Text as="span" variant="bodySm" tone="subdued">
+            {getStatusText()}
+          </Text>
+          <Button
+            size="slim"
+            onClick={handleCancel}
+            loading={cancelling && !job?.cancelRequested}
+            disabled={job?.cancelRequested || FINISHED_STATUSES.includes(job?.status || "")}
+          >
+            Cancel
+          </Button>
+        </InlineStack>
+      </InlineStack>
+      <ProgressBar progress={percent} size="small" />
+    </BlockStack>
+  );
+}
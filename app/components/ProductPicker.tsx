@@ -1,262 +1,263 @@
-// import { useCallback, useState } from "react";
-// import { Button, TextField, BlockStack, Modal, Text, EmptyState, Checkbox } from "@shopify/polaris";
-// import { useAppBridge } from "@shopify/app-bridge-react";
+import { useState } from "react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import {
+  Button,
+  Text,
+  BlockStack,
+  TextField,
+} from "@shopify/polaris";
 
-// interface Product {
-//   id: string;
-//   title: string;
-//   handle: string;
-//   featuredImage?: {
-//     url: string;
-//     altText?: string;
-//   };
-//   variants?: Variant[];
-// }
+interface Variant {
+  id: string;
+  title: string;
+  price?: string;
+  sku?: string;
+}
 
-// interface Variant {
-//   id: string;
-//   title: string;
-//   price: string;
-//   sku?: string;
-// }
+interface Product {
+  id: string;
+  title: string;
+  handle: string;
+  featuredImage?: {
+    url: string;
+    altText?: string;
+  } | null;
+  variants?: Variant[];
+}
 
-// interface ProductPickerProps {
-//   selectedProducts: Product[];
-//   onProductsChange: (products: Product[]) => void;
-//   open: boolean;
-//   onClose: () => void;
-//   allowVariants?: boolean; // New prop to enable variant selection
-// }
+interface ProductPickerProps {
+  selectedProducts: Product[];
+  onProductsChange: (products: Product[]) => void;
+  allowVariants?: boolean; // Select individual variants instead of whole products
+}
 
-// export function ProductPicker({ selectedProducts, onProductsChange, open, onClose, allowVariants = false }: ProductPickerProps) {
-//   const app = useAppBridge();
-//   const [isLoading, setIsLoading] = useState(false);
+export function ProductPicker({ selectedProducts, onProductsChange, allowVariants = false }: ProductPickerProps) {
+  const [searchValue, setSearchValue] = useState("");
+  const app = useAppBridge();
 
-//   const openResourcePicker = async () => {
-//     setIsLoading(true);
-    
-//     try {
-//       // Use variant picker if allowVariants is true, otherwise use product picker
-//       const selection = await app.resourcePicker({
-//         type: allowVariants ? 'variant' : 'product',
-//         multiple: true,
-//         selectionIds: allowVariants 
-//           ? selectedProducts.flatMap(p => p.variants?.map(v => ({ id: v.id })) || [])
-//           : selectedProducts.map(p => ({ id: p.id })),
-//       });
+  const itemLabel = allowVariants ? "variants" : "products";
+  const selectedCount = allowVariants
+    ? selectedProducts.reduce((count, product) => count + (product.variants?.length || 0), 0)
+    : selectedProducts.length;
 
-//       if (selection) {
-//         if (allowVariants) {
-//           // For variant selection, group variants by product
-//           const variantMap = new Map<string, any>();
-          
-//           selection.forEach((variant: any) => {
-//             const productId = variant.product.id;
-//             if (!variantMap.has(productId)) {
-//               variantMap.set(productId, {
-//                 id: productId,
-//                 title: variant.product.title,
-//                 handle: variant.product.handle,
-//                 featuredImage: variant.product.featuredImage,
-//                 variants: []
-//               });
-//             }
-            
-//             variantMap.get(productId)!.variants.push({
-//               id: variant.id,
-//               title: variant.title,
-//               price: variant.price,
-//               sku: variant.sku,
-//             });
-//           });
-          
-//           const selectedProductsData = Array.from(variantMap.values());
-//           onProductsChange(selectedProductsData);
-//           console.log("Selected variants grouped by products:", selectedProductsData);
-//         } else {
-//           // For product selection (existing logic)
-//           const selectedProductsData = selection.map((product: any) => ({
-//             id: product.id,
-//             title: product.title,
-//             handle: product.handle,
-//             featuredImage: product.featuredImage,
-//           }));
-          
-//           onProductsChange(selectedProductsData);
-//           console.log("Selected products:", selectedProductsData);
-//         }
-//       }
-      
-//       // Close modal after selection
-//       onClose();
-//     } catch (error) {
-//       console.error("ResourcePicker error:", error);
-//     } finally {
-//       setIsLoading(false);
-//     }
-//   };
+  const openResourcePicker = async () => {
+    try {
+      const selection = await app.resourcePicker({
+        type: 'product',
+        multiple: true,
+        filter: { variants: allowVariants },
+        selectionIds: allowVariants
+          ? selectedProducts.map(p => ({
+              id: p.id,
+              variants: (p.variants || []).map(v => ({ id: v.id })),
+            }))
+          : selectedProducts.map(p => ({ id: p.id })),
+      });
 
-//   const handleCancel = useCallback(() => {
-//     onClose();
-//   }, [onClose]);
+      if (selection) {
+        const selectedProductsData = selection
+          .map((product: any) => {
+            const imageUrl = product.images && product.images.length > 0
+              ? product.images[0].originalSrc
+              : null;
 
-//   return (
-//     <Modal
-//       open={open}
-//       onClose={handleCancel}
-//       title={allowVariants ? "Select product variants from your store" : "Select products from your store"}
-//       primaryAction={{
-//         content: allowVariants ? 'Select Variants' : 'Select Products',
-//         onAction: openResourcePicker,
-//         loading: isLoading,
-//       }}
-//       secondaryActions={[
-//         {
-//           content: 'Cancel',
-//           onAction: handleCancel,
-//         },
-//       ]}
-//       size="small"
-//     >
-//       <Modal.Section>
-//         <EmptyState
-//           heading={allowVariants ? "Choose product variants from your store" : "Choose products from your store"}
-//           action={{
-//             content: allowVariants ? 'Open Variant Picker' : 'Open Product Picker',
-//             onAction: openResourcePicker,
-//             loading: isLoading,
-//           }}
-//           image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
-//         >
-//           <p>{allowVariants 
-//             ? "Select specific product variants from your Shopify store using the resource picker."
-//             : "Select products from your Shopify store using the resource picker."
-//           }</p>
-//         </EmptyState>
-//       </Modal.Section>
-//     </Modal>
-//   );
-// }
+            return {
+              id: product.id,
+              title: product.title,
+              handle: product.handle,
+              featuredImage: imageUrl ? { url: imageUrl } : null,
+              // The picker only returns the variants that were ticked
+              variants: allowVariants
+                ? (product.variants || []).map((variant: any) => ({
+                    id: variant.id,
+                    title: variant.title,
+                    price: variant.price,
+                    sku: variant.sku,
+                  }))
+                : undefined,
+            };
+          })
+          .filter((product: Product) => !allowVariants || (product.variants?.length || 0) > 0);
 
-// interface ProductSelectionProps {
-//   selectedProducts: Product[];
-//   onProductsChange: (products: Product[]) => void;
-// }
+        onProductsChange(selectedProductsData);
+      }
+    } catch (error) {
+      console.error("ResourcePicker error:", error);
+    }
+  };
 
-// export function ProductSelection({ selectedProducts, onProductsChange }: ProductSelectionProps) {
-//   const app = useAppBridge();
-//   const [isLoading, setIsLoading] = useState(false);
+  const removeProduct = (productId: string) => {
+    onProductsChange(selectedProducts.filter(p => p.id !== productId));
+  };
 
-//   const openResourcePicker = async () => {
-//     setIsLoading(true);
-    
-//     try {
-//       // Sử dụng App Bridge ResourcePicker API trực tiếp
-//       const selection = await app.resourcePicker({
-//         type: 'product',
-//         multiple: true,
-//         selectionIds: selectedProducts.map(p => ({ id: p.id })),
-//       });
+  const removeVariant = (productId: string, variantId: string) => {
+    onProductsChange(
+      selectedProducts
+        .map(p => p.id === productId
+          ? { ...p, variants: (p.variants || []).filter(v => v.id !== variantId) }
+          : p)
+        .filter(p => (p.variants?.length || 0) > 0)
+    );
+  };
 
-//       if (selection) {
-//         const selectedProductsData = selection.map((product: any) => ({
-//           id: product.id,
-//           title: product.title,
-//           handle: product.handle,
-//           featuredImage: product.featuredImage,
-//         }));
-        
-//         onProductsChange(selectedProductsData);
-//         console.log("Selected products:", selectedProductsData);
-//       }
-//     } catch (error) {
-//       console.error("ResourcePicker error:", error);
-//     } finally {
-//       setIsLoading(false);
-//     }
-//   };
+  // Filter products based on search; variant titles match too
+  const searchLower = searchValue.toLowerCase();
+  const filteredProducts = selectedProducts.filter(product =>
+    product.title.toLowerCase().includes(searchLower) ||
+    (allowVariants && (product.variants || []).some(v => v.title.toLowerCase().includes(searchLower)))
+  );
 
-//   const removeProduct = useCallback((productId: string) => {
-//     onProductsChange(selectedProducts.filter(p => p.id !== productId));
-//   }, [selectedProducts, onProductsChange]);
+  return (
+    <div style={{ marginTop: '16px' }}>
+      {selectedProducts.length > 0 ? (
+        <BlockStack gap="200">
+          <Text variant="bodyMd" as="p">Selected {itemLabel} ({selectedCount})</Text>
 
-//   return (
-//     <BlockStack gap="300">
-//       <TextField
-//         label=""
-//         placeholder="Search products"
-//         value=""
-//         onChange={() => {}}
-//         autoComplete="off"
-//         connectedRight={
-//           <Button onClick={openResourcePicker} loading={isLoading}>
-//             Browse
-//           </Button>
-//         }
-//       />
-      
-//       {selectedProducts.length > 0 && (
-//         <BlockStack gap="200">
-//           {selectedProducts.map((product) => (
-//             <div
-//               key={product.id}
-//               style={{
-//                 display: 'flex',
-//                 alignItems: 'center',
-//                 padding: '12px 16px',
-//                 backgroundColor: '#f9fafb',
-//                 border: '1px solid #e1e3e5',
-//                 borderRadius: '8px',
-//                 gap: '12px'
-//               }}
-//             >
-//               <Checkbox
-//                 label=""
-//                 checked={true}
-//                 onChange={() => removeProduct(product.id)}
-//               />
-//               {product.featuredImage?.url && (
-//                 <img
-//                   src={product.featuredImage.url}
-//                   alt={product.featuredImage.altText || product.title}
-//                   style={{ 
-//                     width: '32px', 
-//                     height: '32px', 
-//                     objectFit: 'cover', 
-//                     borderRadius: '4px',
-//                     flexShrink: 0
-//                   }}
-//                 />
-//               )}
-//               <div style={{ flex: 1, minWidth: 0 }}>
-//                 <Text variant="bodyMd" fontWeight="medium" as="p" truncate>
-//                   {product.title}
-//                 </Text>
-//               </div>
-//               <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexShrink: 0 }}>
-//                 <Button
-//                   variant="plain"
-//                   tone="critical"
-//                   onClick={() => removeProduct(product.id)}
-//                   accessibilityLabel={`Remove ${product.title}`}
-//                   size="micro"
-//                 >
-//                   ✕
-//                 </Button>
-//                 <Button
-//                   variant="plain"
-//                   tone="success"
-//                   onClick={openResourcePicker}
-//                   loading={isLoading}
-//                   size="micro"
-//                 >
-//                   Edit
-//                 </Button>
-//               </div>
-//             </div>
-//           ))}
-//         </BlockStack>
-//       )}
-//     </BlockStack>
-//   );
-// }
\ No newline at end of file
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px' }}>
+            <div style={{ flex: 1 }}>
+              <TextField
+                label=""
+                placeholder={allowVariants ? "Search product or variant" : "Search product"}
+                value={searchValue}
+                onChange={(value) => setSearchValue(value)}
+                autoComplete="off"
+              />
+            </div>
+            <Button
+              variant="plain"
+              onClick={openResourcePicker}
+              size="slim"
+            >
+              Edit selection
+            </Button>
+          </div>
+
+          {filteredProducts.map((product) => (
+            <div
+              key={product.id}
+              style={{
+                padding: '12px 16px',
+                backgroundColor: '#f9fafb',
+                border: '1px solid #e1e3e5',
+                borderRadius: '8px',
+              }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                <div style={{
+                  width: '32px',
+                  height: '32px',
+                  borderRadius: '4px',
+                  flexShrink: 0,
+                  backgroundColor: '#e1e3e5',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center'
+                }}>
+                  {product.featuredImage?.url ? (
+                    <img
+                      src={product.featuredImage.url}
+                      alt={product.featuredImage.altText || product.title}
+                      style={{
+                        width: '100%',
+                        height: '100%',
+                        objectFit: 'cover',
+                        borderRadius: '4px'
+                      }}
+                      onError={(e) => {
+                        e.currentTarget.style.display = 'none';
+                      }}
+                    />
+                  ) : (
+                    <div style={{
+                      width: '16px',
+                      height: '16px',
+                      backgroundColor: '#8c9196',
+                      borderRadius: '2px'
+                    }} />
+                  )}
+                </div>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <Text variant="bodyMd" fontWeight="medium" as="p" truncate>
+                    {product.title}
+                  </Text>
+                </div>
+                <Button
+                  variant="plain"
+                  tone="critical"
+                  onClick={() => removeProduct(product.id)}
+                  accessibilityLabel={`Remove ${product.title}`}
+                  size="micro"
+                >
+                  ✕
+                </Button>
+              </div>
+
+              {allowVariants && (product.variants || []).length > 0 && (
+                <div style={{ marginTop: '8px', paddingLeft: '44px' }}>
+                  <BlockStack gap="100">
+                    {(product.variants || []).map((variant) => (
+                      <div
+                        key={variant.id}
+                        style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}
+                      >
+                        <Text variant="bodySm" as="span" tone="subdued" truncate>
+                          {variant.title}{variant.sku ? ` · ${variant.sku}` : ""}
+                        </Text>
+                        <Button
+                          variant="plain"
+                          tone="critical"
+                          onClick={() => removeVariant(product.id, variant.id)}
+                          accessibilityLabel={`Remove ${product.title} - ${variant.title}`}
+                          size="micro"
+                        >
+                          ✕
+                        </Button>
+                      </div>
+                    ))}
+                  </BlockStack>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {filteredProducts.length === 0 && searchValue && (
+            <div style={{
+              padding: '16px',
+              textAlign: 'center',
+              backgroundColor: '#f9fafb',
+              border: '1px solid #e1e3e5',
+              borderRadius: '8px'
+            }}>
+              <Text variant="bodyMd" tone="subdued" as="p">
+                No {itemLabel} found matching "{searchValue}"
+              </Text>
+            </div>
+          )}
+        </BlockStack>
+      ) : (
+        <div style={{
+          padding: '20px',
+          textAlign: 'center',
+          backgroundColor: '#f9fafb',
+          border: '1px solid #e1e3e5',
+          borderRadius: '8px'
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '12px' }}>
+            <Text variant="bodyMd" tone="subdued" as="span">
+              No {itemLabel} selected.
+            </Text>
+            <Button
+              variant="plain"
+              onClick={openResourcePicker}
+              size="slim"
+            >
+              Browse
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ProductPicker;
@@ -11,6 +11,17 @@ import {
   Spinner,
   Pagination,
 } from "@shopify/polaris";
+import type { ConditionTree } from "../services/pricing-conditions";
+import {
+  DEFAULT_CURRENCY_CODE,
+  formatMoney,
+  getCurrencyDecimals,
+  type MarketCurrency,
+  type MarketPrice,
+} from "../services/currency";
+import { describeCustomerEligibility } from "../services/customer-eligibility";
+import { formatTierRange, type QuantityTier } from "../services/pricing-tiers";
+import { JobProgress, type JobSnapshot } from "./JobProgress";
 
 interface Product {
   id: string;
@@ -29,17 +40,60 @@ interface ProductVariant {
   price: string;
   compareAtPrice?: string;
   sku?: string;
+  pricing?: VariantPricing;
+}
+
+// Computed server-side by the shared pricing engine
+interface VariantPricing {
+  rulePrice: number;
+  // Only for quantity-tier rules: the price at each tier
+  tierPrices: (QuantityTier & { price: number })[];
+  finalPrice: number;
+  finalCompareAtPrice: number | null;
+  winningRule: { id: string; name: string; priority: number } | null;
+  isPreviewedRuleWinner: boolean;
+  reason: string;
 }
 
+const ROUNDING_LABELS: Record<string, string> = {
+  "nearest-0.05": "nearest 0.05",
+  "nearest-0.10": "nearest 0.10",
+  "nearest-1.00": "nearest 1.00",
+  "down-1.00": "down to a whole amount",
+  "charm-0.99": "ending in .99",
+  "charm-0.95": "ending in .95",
+  "charm-0.00": "ending in .00",
+};
+
 interface ProductPricingDetailsProps {
   open: boolean;
   onClose: () => void;
-  applyTo: "all-products" | "specific-products" | "product-collections" | "product-tags";
+  applyTo: "all-products" | "specific-products" | "product-collections" | "product-tags" | "conditions";
   selectedProductIds?: string[];
+  selectedVariantIds?: string[];
   selectedCollectionIds?: string[];
   selectedTags?: string[];
-  priceType: "apply-price" | "decrease-fixed" | "decrease-percentage";
+  conditions?: ConditionTree | null;
+  excludedProductIds?: string[];
+  excludedCollectionIds?: string[];
+  excludedTags?: string[];
+  priceType: "apply-price" | "decrease-fixed" | "decrease-percentage" | "quantity-tiers";
   amount: string;
+  tiers?: QuantityTier[];
+  compareAtMode?: "original" | "unchanged" | "clear" | "fixed";
+  compareAtAmount?: string;
+  roundingMode?: string;
+  minPrice?: string;
+  maxDiscountPercent?: string;
+  marketPrices?: MarketPrice[];
+  markets?: MarketCurrency[];
+  currencyCode?: string;
+  customerEligibility?: string;
+  customerTags?: string[];
+  customerIds?: string[];
+  ruleId?: string;
+  ruleName?: string;
+  priority?: string;
 }
 
 export function ProductPricingDetails({
@@ -47,14 +101,37 @@ export function ProductPricingDetails({
   onClose,
   applyTo,
   selectedProductIds = [],
+  selectedVariantIds = [],
   selectedCollectionIds = [],
   selectedTags = [],
+  conditions = null,
+  excludedProductIds = [],
+  excludedCollectionIds = [],
+  excludedTags = [],
   priceType,
   amount,
+  tiers = [],
+  compareAtMode = "unchanged",
+  compareAtAmount = "",
+  roundingMode = "none",
+  minPrice = "",
+  maxDiscountPercent = "",
+  marketPrices = [],
+  markets = [],
+  currencyCode = DEFAULT_CURRENCY_CODE,
+  customerEligibility = "all",
+  customerTags = [],
+  customerIds = [],
+  ruleId,
+  ruleName,
+  priority,
 }: ProductPricingDetailsProps) {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [previewJobId, setPreviewJobId] = useState<string | null>(null);
+  // The server prices in the shop's currency and reports which one it used
+  const [previewCurrencyCode, setPreviewCurrencyCode] = useState(currencyCode);
   
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -63,14 +140,74 @@ export function ProductPricingDetails({
   const fetchProductsWithPricing = useCallback(async () => {
     setLoading(true);
     setError(null);
+    setPreviewJobId(null);
 
     try {
+      // The whole catalog is priced in a background job and polled for progress
+      if (applyTo === "all-products" || applyTo === "conditions") {
+        const response = await fetch("/api/product-pricing", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            background: true,
+            applyTo,
+            conditions: applyTo === "conditions" ? conditions : undefined,
+            priceType,
+            amount,
+            tiers,
+            compareAtMode,
+            compareAtAmount,
+            roundingMode,
+            minPrice,
+            maxDiscountPercent,
+            marketPrices,
+            customerEligibility,
+            customerTags,
+            customerIds,
+            excludedProductIds,
+            excludedCollectionIds,
+            excludedTags,
+            priority: priority || "1",
+            name: ruleName || "This rule",
+            ruleId,
+          }),
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          setProducts([]);
+          setPreviewJobId(data.jobId);
+        } else {
+          setError(data.error || "Failed to start the preview");
+        }
+        return;
+      }
+
       const params = new URLSearchParams({
         applyTo,
+        priceType,
+        amount,
+        compareAtMode,
+        compareAtAmount,
+        roundingMode,
+        minPrice,
+        maxDiscountPercent,
+        marketPrices: JSON.stringify(marketPrices),
+        tiers: JSON.stringify(tiers),
+        customerEligibility,
+        customerTags: customerTags.join(","),
+        customerIds: customerIds.join(","),
+        priority: priority || "1",
+        name: ruleName || "This rule",
       });
+      if (ruleId) {
+        params.append("ruleId", ruleId);
+      }
 
       // Add relevant IDs/tags based on applyTo type
-      if (applyTo === "specific-products" && selectedProductIds.length > 0) {
+      if (applyTo === "specific-products" && selectedVariantIds.length > 0) {
+        params.append("variantIds", selectedVariantIds.join(","));
+      } else if (applyTo === "specific-products" && selectedProductIds.length > 0) {
         params.append("productIds", selectedProductIds.join(","));
       } else if (applyTo === "product-collections" && selectedCollectionIds.length > 0) {
         params.append("collectionIds", selectedCollectionIds.join(","));
@@ -78,11 +215,23 @@ export function ProductPricingDetails({
         params.append("tags", selectedTags.join(","));
       }
 
+      // Exclusions narrow down whatever the rule targets
+      if (excludedProductIds.length > 0) {
+        params.append("excludedProductIds", excludedProductIds.join(","));
+      }
+      if (excludedCollectionIds.length > 0) {
+        params.append("excludedCollectionIds", excludedCollectionIds.join(","));
+      }
+      if (excludedTags.length > 0) {
+        params.append("excludedTags", excludedTags.join(","));
+      }
+
       const response = await fetch(`/api/product-pricing?${params}`);
       const data = await response.json();
 
       if (data.success) {
         setProducts(data.products);
+        setPreviewCurrencyCode(data.currencyCode || currencyCode);
       } else {
         setError(data.error || "Failed to fetch products");
       }
@@ -92,7 +241,19 @@ export function ProductPricingDetails({
     } finally {
       setLoading(false);
     }
-  }, [applyTo, selectedProductIds, selectedCollectionIds, selectedTags]);
+  }, [applyTo, selectedProductIds, selectedVariantIds, selectedCollectionIds, selectedTags, conditions, excludedProductIds, excludedCollectionIds, excludedTags, priceType, amount, tiers, compareAtMode, compareAtAmount, roundingMode, minPrice, maxDiscountPercent, marketPrices, customerEligibility, customerTags, customerIds, currencyCode, priority, ruleName, ruleId]);
+
+  const handlePreviewJobFinish = (job: JobSnapshot) => {
+    setPreviewJobId(null);
+    if (job.status === "completed") {
+      setProducts(job.result?.products || []);
+      setPreviewCurrencyCode(job.result?.currencyCode || currencyCode);
+    } else if (job.status === "cancelled") {
+      setError("The preview was cancelled");
+    } else {
+      setError(job.error || "Failed to fetch products with pricing");
+    }
+  };
 
   // Fetch products when modal opens
   useEffect(() => {
@@ -101,31 +262,15 @@ export function ProductPricingDetails({
       setCurrentPage(1); // Reset to first page when modal opens
     }
   }, [open, fetchProductsWithPricing]);
-  // Calculate new price based on price type
-  const calculateNewPrice = (originalPrice: string, type: string, value: string): number => {
-    const original = parseFloat(originalPrice) || 0;
-    const amountValue = parseFloat(value) || 0;
-
-    switch (type) {
-      case "apply-price":
-        return amountValue;
-      case "decrease-fixed":
-        return Math.max(0, original - amountValue);
-      case "decrease-percentage":
-        return Math.max(0, original - (original * amountValue / 100));
-      default:
-        return original;
-    }
-  };
 
   // Format currency
   const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+    return formatMoney(amount, previewCurrencyCode);
   };
 
+  // Differences smaller than half the currency's smallest unit are noise
+  const minimumDifference = Math.pow(10, -getCurrencyDecimals(previewCurrencyCode)) / 2;
+
   // Get price type description
   const getPriceTypeDescription = () => {
     switch (priceType) {
@@ -135,59 +280,113 @@ export function ProductPricingDetails({
         return `Decrease by fixed amount: ${formatCurrency(parseFloat(amount) || 0)}`;
       case "decrease-percentage":
         return `Decrease by percentage: ${amount}%`;
+      case "quantity-tiers":
+        return `Quantity breaks: ${tiers
+          .map((tier) => `${formatTierRange(tier)} ${tier.discountPercent > 0 ? `−${tier.discountPercent}%` : "full price"}`)
+          .join(", ")}`;
       default:
         return "No pricing rule applied";
     }
   };
 
+  const getCompareAtDescription = () => {
+    switch (compareAtMode) {
+      case "original":
+        return "Compare-at price: original price (shown struck through)";
+      case "clear":
+        return "Compare-at price: cleared";
+      case "fixed":
+        return `Compare-at price: ${formatCurrency(parseFloat(compareAtAmount) || 0)}`;
+      default:
+        return "Compare-at price: unchanged";
+    }
+  };
+
+  const getLimitsDescription = () => {
+    const parts: string[] = [];
+    if (roundingMode && roundingMode !== "none") {
+      parts.push(`rounded (${ROUNDING_LABELS[roundingMode] || roundingMode})`);
+    }
+    if (minPrice !== "") {
+      parts.push(`never below ${formatCurrency(parseFloat(minPrice) || 0)}`);
+    }
+    if (maxDiscountPercent !== "") {
+      parts.push(`at most ${maxDiscountPercent}% off`);
+    }
+    return parts.length > 0 ? `Prices are ${parts.join(", ")}` : null;
+  };
+
+  const getMarketPricesDescription = () => {
+    if (marketPrices.length === 0) return null;
+    const prices = marketPrices.map((marketPrice) => {
+      const market = markets.find((candidate) => candidate.id === marketPrice.marketId);
+      return `${market?.name || marketPrice.currencyCode} ${formatMoney(marketPrice.price, marketPrice.currencyCode)}`;
+    });
+    return `Market prices: ${prices.join(", ")}`;
+  };
+
+  const isTiered = priceType === "quantity-tiers";
+
   // Prepare table data inside render to ensure state is updated
   const prepareTableData = () => {
     // First, create all table rows (variants) for counting
     const allTableRows: string[][] = [];
     
-    products.forEach((product, index) => {
+    products.forEach((product) => {
       if (product.variants && product.variants.length > 0) {
         product.variants.forEach((variant) => {
           const originalPrice = parseFloat(variant.price) || 0;
-          const newPrice = calculateNewPrice(variant.price, priceType, amount);
-          const difference = newPrice - originalPrice;
+          const rulePrice = variant.pricing?.rulePrice ?? originalPrice;
+          const finalPrice = variant.pricing?.finalPrice ?? originalPrice;
+          const finalCompareAtPrice = variant.pricing
+            ? variant.pricing.finalCompareAtPrice
+            : parseFloat(variant.compareAtPrice || "") || null;
+          const difference = finalPrice - originalPrice;
           const differencePercentage = originalPrice > 0 ? ((difference / originalPrice) * 100).toFixed(1) : "0";
 
           // Format difference: dương (+$10.00), âm (-$10.00), bằng 0 (-)
           let differenceDisplay = "-";
-          if (Math.abs(difference) > 0.01) { // Tránh lỗi floating point
+          if (Math.abs(difference) >= minimumDifference) { // Tránh lỗi floating point
             const sign = difference > 0 ? "+" : "";
             differenceDisplay = `${sign}${formatCurrency(difference)} (${sign}${differencePercentage}%)`;
           }
 
+          // The previewed rule may lose to another active rule with higher precedence
+          const winningRule = variant.pricing?.winningRule;
+          let winningRuleDisplay = "-";
+          if (winningRule) {
+            winningRuleDisplay = variant.pricing?.isPreviewedRuleWinner
+              ? "This rule"
+              : `${winningRule.name} (priority ${winningRule.priority})`;
+          }
+
           allTableRows.push([
             product.title,
             variant.title || "Default Title",
             formatCurrency(originalPrice),
-            formatCurrency(newPrice),
+            formatCurrency(rulePrice),
+            ...(isTiered
+              ? [(variant.pricing?.tierPrices || [])
+                  .map((tier) => `${formatTierRange(tier)}: ${formatCurrency(tier.price)}`)
+                  .join(" · ") || "-"]
+              : []),
+            formatCurrency(finalPrice),
+            finalCompareAtPrice !== null ? formatCurrency(finalCompareAtPrice) : "-",
             differenceDisplay,
+            winningRuleDisplay,
           ]);
         });
       } else {
-        // Fallback for products without variants (using mock price)
-        const originalPrice = 100; // Mock price for demo
-        const newPrice = calculateNewPrice(originalPrice.toString(), priceType, amount);
-        const difference = newPrice - originalPrice;
-        const differencePercentage = originalPrice > 0 ? ((difference / originalPrice) * 100).toFixed(1) : "0";
-
-        // Format difference
-        let differenceDisplay = "-";
-        if (Math.abs(difference) > 0.01) {
-          const sign = difference > 0 ? "+" : "";
-          differenceDisplay = `${sign}${formatCurrency(difference)} (${sign}${differencePercentage}%)`;
-        }
-
         allTableRows.push([
           product.title,
           "Default Title",
-          formatCurrency(originalPrice),
-          formatCurrency(newPrice),
-          differenceDisplay,
+          "-",
+          "-",
+          ...(isTiered ? ["-"] : []),
+          "-",
+          "-",
+          "-",
+          "-",
         ]);
       }
     });
@@ -214,8 +413,12 @@ export function ProductPricingDetails({
     "Product",
     "Variant", 
     "Original Price",
-    "Modified Price",
+    "Rule Price",
+    ...(isTiered ? ["Tier Prices"] : []),
+    "Final Price",
+    "Compare-at Price",
     "Difference",
+    "Winning Rule",
   ];
 
   return (
@@ -230,7 +433,17 @@ export function ProductPricingDetails({
       }}
     >
       <Modal.Section>
-        {loading ? (
+        {previewJobId ? (
+          <div style={{ padding: '24px 0' }}>
+            <JobProgress
+              jobId={previewJobId}
+              label={applyTo === "conditions"
+                ? "Checking every product against the conditions"
+                : "Calculating prices for all products"}
+              onFinish={handlePreviewJobFinish}
+            />
+          </div>
+        ) : loading ? (
           <div style={{ display: 'flex', justifyContent: 'center', padding: '40px 0' }}>
             <Spinner accessibilityLabel="Loading products" size="large" />
           </div>
@@ -253,6 +466,24 @@ export function ProductPricingDetails({
                 <Text variant="bodyMd" as="p">
                   {getPriceTypeDescription()}
                 </Text>
+                <Text variant="bodyMd" tone="subdued" as="p">
+                  {getCompareAtDescription()}
+                </Text>
+                {getLimitsDescription() && (
+                  <Text variant="bodyMd" tone="subdued" as="p">
+                    {getLimitsDescription()}
+                  </Text>
+                )}
+                <Text variant="bodyMd" tone="subdued" as="p">
+                  {customerEligibility === "all"
+                    ? "Eligible customers: everyone"
+                    : `Eligible customers: ${describeCustomerEligibility({ customerEligibility, customerTags, customerIds })} (prices shown are what they pay)`}
+                </Text>
+                {getMarketPricesDescription() && (
+                  <Text variant="bodyMd" tone="subdued" as="p">
+                    {getMarketPricesDescription()}
+                  </Text>
+                )}
                 <div style={{ display: 'flex', gap: '16px', alignItems: 'center' }}>
                   <Badge tone="info">
                     {`${totalVariants} variant${totalVariants !== 1 ? 's' : ''} affected`}
@@ -284,8 +515,12 @@ export function ProductPricingDetails({
                     'text',    // Product
                     'text',    // Variant
                     'numeric', // Original Price
-                    'numeric', // Modified Price
+                    'numeric', // Rule Price
+                    ...(isTiered ? ['text' as const] : []), // Tier Prices
+                    'numeric', // Final Price
+                    'numeric', // Compare-at Price
                     'text',    // Difference
+                    'text',    // Winning Rule
                   ]}
                   headings={tableHeaders}
                   rows={tableRows}
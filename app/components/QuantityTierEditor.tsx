@@ -0,0 +1,134 @@
+import {
+  BlockStack,
+  InlineStack,
+  Button,
+  TextField,
+  Text,
+  InlineError,
+} from "@shopify/polaris";
+import { DeleteIcon } from "@shopify/polaris-icons";
+import type { QuantityTier } from "../services/pricing-tiers";
+
+// A tier as typed; empty maximum means "and up"
+export interface TierInput {
+  minQuantity: string;
+  maxQuantity: string;
+  discountPercent: string;
+}
+
+interface QuantityTierEditorProps {
+  tiers: TierInput[];
+  onChange: (tiers: TierInput[]) => void;
+  error?: string;
+}
+
+export function toTierInputs(tiers: QuantityTier[]): TierInput[] {
+  return tiers.map((tier) => ({
+    minQuantity: tier.minQuantity.toString(),
+    maxQuantity: tier.maxQuantity === null ? "" : tier.maxQuantity.toString(),
+    discountPercent: tier.discountPercent.toString(),
+  }));
+}
+
+export function toQuantityTiers(inputs: TierInput[]): QuantityTier[] {
+  return inputs.map((input) => ({
+    minQuantity: parseFloat(input.minQuantity),
+    maxQuantity: input.maxQuantity.trim() === "" ? null : parseFloat(input.maxQuantity),
+    discountPercent: parseFloat(input.discountPercent),
+  }));
+}
+
+export function QuantityTierEditor({ tiers, onChange, error }: QuantityTierEditorProps) {
+  const updateTier = (index: number, update: Partial<TierInput>) => {
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, ...update } : tier)));
+  };
+
+  // A new tier starts right after the last one, which gets closed off if needed
+  const addTier = () => {
+    const last = tiers[tiers.length - 1];
+    if (!last) {
+      onChange([{ minQuantity: "1", maxQuantity: "", discountPercent: "0" }]);
+      return;
+    }
+
+    const lastMin = parseInt(last.minQuantity) || 1;
+    const lastMax = last.maxQuantity.trim() === "" ? lastMin + 9 : parseInt(last.maxQuantity) || lastMin;
+    onChange([
+      ...tiers.slice(0, -1),
+      { ...last, maxQuantity: lastMax.toString() },
+      { minQuantity: (lastMax + 1).toString(), maxQuantity: "", discountPercent: "" },
+    ]);
+  };
+
+  return (
+    <BlockStack gap="200">
+      <InlineStack gap="200" wrap={false}>
+        <div style={{ flex: 1 }}>
+          <Text as="span" variant="bodySm" tone="subdued">From quantity</Text>
+        </div>
+        <div style={{ flex: 1 }}>
+          <Text as="span" variant="bodySm" tone="subdued">To quantity</Text>
+        </div>
+        <div style={{ flex: 1 }}>
+          <Text as="span" variant="bodySm" tone="subdued">Discount</Text>
+        </div>
+        <div style={{ width: '36px' }} />
+      </InlineStack>
+
+      {tiers.map((tier, index) => (
+        <InlineStack key={index} gap="200" blockAlign="center" wrap={false}>
+          <div style={{ flex: 1 }}>
+            <TextField
+              label={`Tier ${index + 1} minimum quantity`}
+              labelHidden
+              type="number"
+              min={1}
+              autoComplete="off"
+              value={tier.minQuantity}
+              onChange={(value) => updateTier(index, { minQuantity: value })}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <TextField
+              label={`Tier ${index + 1} maximum quantity`}
+              labelHidden
+              type="number"
+              min={1}
+              autoComplete="off"
+              placeholder={index === tiers.length - 1 ? "and up" : ""}
+              value={tier.maxQuantity}
+              onChange={(value) => updateTier(index, { maxQuantity: value })}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <TextField
+              label={`Tier ${index + 1} discount`}
+              labelHidden
+              type="number"
+              suffix="%"
+              autoComplete="off"
+              value={tier.discountPercent}
+              onChange={(value) => updateTier(index, { discountPercent: value })}
+            />
+          </div>
+          <Button
+            icon={DeleteIcon}
+            variant="tertiary"
+            tone="critical"
+            accessibilityLabel={`Remove tier ${index + 1}`}
+            disabled={tiers.length === 1}
+            onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+          />
+        </InlineStack>
+      ))}
+
+      <InlineStack>
+        <Button onClick={addTier}>Add tier</Button>
+      </InlineStack>
+
+      {error && <InlineError message={error} fieldID="tiers" />}
+    </BlockStack>
+  );
+}
+
+export default QuantityTierEditor;
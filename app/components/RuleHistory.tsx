@@ -0,0 +1,154 @@
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Badge,
+  Box,
+  Divider,
+} from "@shopify/polaris";
+
+export interface RuleHistoryEvent {
+  id: string;
+  action: string;
+  staffName: string | null;
+  staffEmail: string | null;
+  changes: unknown;
+  createdAt: string;
+}
+
+interface RuleHistoryProps {
+  events: RuleHistoryEvent[];
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Moved to the trash",
+  duplicate: "Created as a copy",
+  "bulk-delete": "Moved to the trash in bulk",
+  "bulk-duplicate": "Created as a copy in bulk",
+  "bulk-update": "Updated in bulk",
+  reorder: "Reordered",
+  campaign: "Updated by its campaign",
+  undelete: "Restored from the trash",
+  purge: "Deleted permanently",
+  restore: "Restored a version",
+};
+
+export const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  priority: "Priority",
+  status: "Status",
+  applyTo: "Applies to",
+  productIds: "Products",
+  variantIds: "Variants",
+  collectionIds: "Collections",
+  tagIds: "Tags",
+  conditions: "Conditions",
+  excludedProductIds: "Excluded products",
+  excludedCollectionIds: "Excluded collections",
+  excludedTags: "Excluded tags",
+  priceType: "Price type",
+  amount: "Amount",
+  tiers: "Quantity tiers",
+  compareAtMode: "Compare-at price",
+  compareAtAmount: "Compare-at amount",
+  roundingMode: "Rounding",
+  minPrice: "Minimum price",
+  maxDiscountPercent: "Maximum discount",
+  marketPrices: "Market prices",
+  customerEligibility: "Customers",
+  customerTags: "Customer tags",
+  customerIds: "Specific customers",
+  startsAt: "Starts",
+  endsAt: "Ends",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+// Lists of IDs and nested settings are summarised; their contents are
+// rarely readable on their own
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "none";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "none";
+    return value.every((item) => typeof item === "string" && !item.startsWith("gid://"))
+      ? value.join(", ")
+      : `${value.length} item${value.length !== 1 ? "s" : ""}`;
+  }
+  if (typeof value === "object") return "custom settings";
+  if (typeof value === "string" && ISO_DATE.test(value)) {
+    return new Date(value).toLocaleString();
+  }
+  return String(value);
+}
+
+function ChangeList({ changes }: { changes: unknown }) {
+  if (!changes || typeof changes !== "object") return null;
+
+  const entries = Object.entries(changes as Record<string, { from: unknown; to: unknown }>);
+  if (entries.length === 0) return null;
+
+  return (
+    <BlockStack gap="100">
+      {entries.map(([field, change]) => (
+        <Text key={field} variant="bodySm" as="p">
+          <Text as="span" fontWeight="semibold">
+            {FIELD_LABELS[field] || field}:
+          </Text>{" "}
+          {formatValue(change.from)} → {formatValue(change.to)}
+        </Text>
+      ))}
+    </BlockStack>
+  );
+}
+
+// Newest first, as loaded
+export function RuleHistory({ events }: RuleHistoryProps) {
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <Text variant="headingMd" as="h2">
+          History
+        </Text>
+
+        {events.length === 0 ? (
+          <Text variant="bodyMd" tone="subdued" as="p">
+            No changes recorded yet
+          </Text>
+        ) : (
+          events.map((event, index) => (
+            <BlockStack key={event.id} gap="200">
+              {index > 0 && <Divider />}
+              <InlineStack align="space-between" blockAlign="center" gap="200">
+                <InlineStack gap="200" blockAlign="center">
+                  <Badge tone={event.action.includes("delete") ? "critical" : undefined}>
+                    {ACTION_LABELS[event.action] || event.action}
+                  </Badge>
+                  <Text variant="bodyMd" as="span">
+                    {event.staffName || event.staffEmail || "Unknown staff member"}
+                    {event.staffName && event.staffEmail && (
+                      <Text as="span" tone="subdued">{` (${event.staffEmail})`}</Text>
+                    )}
+                  </Text>
+                </InlineStack>
+                <Text variant="bodySm" tone="subdued" as="span">
+                  {new Date(event.createdAt).toLocaleString()}
+                </Text>
+              </InlineStack>
+              {/* A new rule lists every field it was created with */}
+              {["update", "bulk-update", "reorder", "campaign", "undelete", "restore"].includes(event.action) && (
+                <Box paddingInlineStart="200">
+                  <ChangeList changes={event.changes} />
+                </Box>
+              )}
+            </BlockStack>
+          ))
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
+
+export default RuleHistory;
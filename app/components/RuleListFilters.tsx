@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from "react";
+import { useFetcher, useNavigation, useSearchParams } from "@remix-run/react";
+import {
+  IndexFilters,
+  IndexFiltersMode,
+  ChoiceList,
+  useSetIndexFiltersMode,
+} from "@shopify/polaris";
+import type { IndexFiltersProps, TabProps } from "@shopify/polaris";
+import {
+  APPLY_TO_FILTERS,
+  PRICE_TYPE_FILTERS,
+  STATUS_FILTERS,
+  parseRuleListQuery,
+  toRuleListSearch,
+  type RuleListQuery,
+} from "../services/pricing-rule-list";
+
+export interface RuleListView {
+  id: string;
+  name: string;
+  search: string;
+}
+
+interface RuleListFiltersProps {
+  listQuery: RuleListQuery;
+  views: RuleListView[];
+  onToast: (message: string, isError?: boolean) => void;
+}
+
+type ListFilterKey = "status" | "applyTo" | "priceType";
+
+const FILTERS: { key: ListFilterKey; label: string; choices: { label: string; value: string }[] }[] = [
+  { key: "status", label: "Status", choices: STATUS_FILTERS },
+  { key: "applyTo", label: "Applies to", choices: APPLY_TO_FILTERS },
+  { key: "priceType", label: "Price type", choices: PRICE_TYPE_FILTERS },
+];
+
+const SORT_OPTIONS: IndexFiltersProps["sortOptions"] = [
+  { label: "Priority", value: "priority asc", directionLabel: "1 to 99" },
+  { label: "Priority", value: "priority desc", directionLabel: "99 to 1" },
+  { label: "Amount", value: "amount asc", directionLabel: "Lowest first" },
+  { label: "Amount", value: "amount desc", directionLabel: "Highest first" },
+  { label: "Name", value: "name asc", directionLabel: "A-Z" },
+  { label: "Name", value: "name desc", directionLabel: "Z-A" },
+  { label: "Date created", value: "created asc", directionLabel: "Oldest first" },
+  { label: "Date created", value: "created desc", directionLabel: "Newest first" },
+];
+
+// Search box, filters, sort and saved views of the pricing rule list. The
+// list query lives in the URL; the selected view is kept there as ?view=.
+export function RuleListFilters({ listQuery, views, onToast }: RuleListFiltersProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigation = useNavigation();
+  const fetcher = useFetcher<{ success: boolean; message: string; view?: RuleListView }>();
+  const { mode, setMode } = useSetIndexFiltersMode(IndexFiltersMode.Default);
+  const [queryValue, setQueryValue] = useState(listQuery.query);
+
+  const viewId = searchParams.get("view");
+  const selectedView = views.find((view) => view.id === viewId) || null;
+  const currentSearch = toRuleListSearch(listQuery);
+  const hasChanges = currentSearch !== (selectedView?.search ?? "");
+
+  // Changing the list starts again at the first page
+  const showList = (search: string, view: string | null) => {
+    const params = new URLSearchParams(search);
+    if (view) params.set("view", view);
+    setSearchParams(params, { replace: true, preventScrollReset: true });
+  };
+
+  const applyQuery = (changes: Partial<RuleListQuery>) =>
+    showList(toRuleListSearch({ ...listQuery, ...changes }), selectedView?.id ?? null);
+
+  // The effects below run for typing and fetcher results only, reading the
+  // latest handlers through refs
+  const applyQueryRef = useRef(applyQuery);
+  applyQueryRef.current = applyQuery;
+  const showListRef = useRef(showList);
+  showListRef.current = showList;
+  const onToastRef = useRef(onToast);
+  onToastRef.current = onToast;
+
+  // Keep the search box in step when a view or the back button changes the URL
+  useEffect(() => {
+    setQueryValue(listQuery.query);
+  }, [listQuery.query]);
+
+  useEffect(() => {
+    if (queryValue.trim() === listQuery.query) return;
+    const timeout = setTimeout(
+      () => applyQueryRef.current({ query: queryValue.trim() }),
+      300,
+    );
+    return () => clearTimeout(timeout);
+  }, [queryValue, listQuery.query]);
+
+  useEffect(() => {
+    const data = fetcher.data;
+    if (!data || fetcher.state !== "idle") return;
+    if (!data.success) {
+      onToastRef.current(data.message, true);
+      return;
+    }
+    onToastRef.current(data.message);
+    if (data.view) showListRef.current(data.view.search, data.view.id);
+  }, [fetcher.data, fetcher.state]);
+
+  const submitView = (fields: Record<string, string>) => {
+    fetcher.submit(fields, { method: "post" });
+    return Promise.resolve(true);
+  };
+
+  const createView = (name: string, search = currentSearch) =>
+    submitView({ actionType: "createView", name, search });
+
+  const tabs: TabProps[] = [
+    { id: "all", content: "All", isLocked: true },
+    ...views.map((view): TabProps => ({
+      id: view.id,
+      content: view.name,
+      actions: [
+        {
+          type: "rename",
+          onPrimaryAction: (name: string) =>
+            submitView({ actionType: "updateView", viewId: view.id, name }),
+        },
+        {
+          type: "duplicate",
+          onPrimaryAction: (name: string) => createView(name, view.search),
+        },
+        { type: "edit" },
+        {
+          type: "delete",
+          onPrimaryAction: () => {
+            if (view.id === selectedView?.id) showList("", null);
+            return submitView({ actionType: "deleteView", viewId: view.id });
+          },
+        },
+      ],
+    })),
+  ];
+
+  const selectTab = (index: number) => {
+    const view = index === 0 ? null : views[index - 1];
+    showList(view?.search ?? "", view?.id ?? null);
+  };
+
+  const filters = FILTERS.map(({ key, label, choices }) => ({
+    key,
+    label,
+    shortcut: key === "status",
+    filter: (
+      <ChoiceList
+        title={label}
+        titleHidden
+        choices={choices}
+        selected={listQuery[key]}
+        onChange={(selected) => applyQuery({ [key]: selected })}
+        allowMultiple
+      />
+    ),
+  }));
+
+  const appliedFilters = FILTERS.filter(({ key }) => listQuery[key].length > 0).map(
+    ({ key, label, choices }) => ({
+      key,
+      label: `${label}: ${listQuery[key]
+        .map((value) => choices.find((choice) => choice.value === value)?.label || value)
+        .join(", ")}`,
+      onRemove: () => applyQuery({ [key]: [] }),
+    }),
+  );
+
+  const isLoading =
+    navigation.state === "loading" &&
+    navigation.location.pathname === "/app/pricing_rule";
+
+  return (
+    <IndexFilters
+      sortOptions={SORT_OPTIONS}
+      sortSelected={[listQuery.sort]}
+      onSort={([sort]) =>
+        applyQuery({ sort: parseRuleListQuery(new URLSearchParams({ sort })).sort })
+      }
+      queryValue={queryValue}
+      queryPlaceholder="Search rules by name"
+      onQueryChange={setQueryValue}
+      onQueryClear={() => setQueryValue("")}
+      primaryAction={
+        selectedView
+          ? {
+              type: "save",
+              onAction: () =>
+                submitView({ actionType: "updateView", viewId: selectedView.id, search: currentSearch }),
+              disabled: !hasChanges || fetcher.state !== "idle",
+              loading: fetcher.state !== "idle",
+            }
+          : {
+              type: "save-as",
+              onAction: (name: string) => createView(name),
+              disabled: !hasChanges || fetcher.state !== "idle",
+              loading: fetcher.state !== "idle",
+            }
+      }
+      cancelAction={{
+        onAction: () => showList(selectedView?.search ?? "", selectedView?.id ?? null),
+      }}
+      tabs={tabs}
+      selected={selectedView ? views.indexOf(selectedView) + 1 : 0}
+      onSelect={selectTab}
+      canCreateNewView
+      onCreateNewView={(name: string) => createView(name)}
+      filters={filters}
+      appliedFilters={appliedFilters}
+      onClearAll={() => applyQuery({ status: [], applyTo: [], priceType: [] })}
+      mode={mode}
+      setMode={setMode}
+      loading={isLoading}
+    />
+  );
+}
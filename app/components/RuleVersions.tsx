@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Badge,
+  Button,
+  Divider,
+  Modal,
+  DataTable,
+} from "@shopify/polaris";
+import { FIELD_LABELS, formatValue } from "./RuleHistory";
+
+export interface RuleVersion {
+  id: string;
+  version: number;
+  snapshot: unknown;
+  staffName: string | null;
+  staffEmail: string | null;
+  createdAt: string;
+}
+
+interface RuleVersionsProps {
+  versions: RuleVersion[];
+  // Snapshot of the rule as currently saved
+  current: Record<string, unknown>;
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function differingFields(
+  snapshot: Record<string, unknown>,
+  current: Record<string, unknown>,
+) {
+  return Object.keys(FIELD_LABELS).filter(
+    (field) => !sameValue(snapshot[field], current[field]),
+  );
+}
+
+// Newest first, as loaded
+export function RuleVersions({ versions, current }: RuleVersionsProps) {
+  const submit = useSubmit();
+  const navigation = useNavigation();
+  const [comparing, setComparing] = useState<RuleVersion | null>(null);
+
+  const restoringId =
+    navigation.state !== "idle" &&
+    navigation.formData?.get("actionType") === "restoreVersion"
+      ? (navigation.formData.get("versionId") as string)
+      : null;
+
+  const restore = (version: RuleVersion) => {
+    submit(
+      { actionType: "restoreVersion", versionId: version.id },
+      { method: "post" },
+    );
+    setComparing(null);
+  };
+
+  const comparedSnapshot = (comparing?.snapshot || {}) as Record<string, unknown>;
+  const comparedFields = comparing ? differingFields(comparedSnapshot, current) : [];
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <Text variant="headingMd" as="h2">
+          Versions
+        </Text>
+
+        {versions.length === 0 ? (
+          <Text variant="bodyMd" tone="subdued" as="p">
+            No versions saved yet
+          </Text>
+        ) : (
+          versions.map((version, index) => {
+            const isCurrent =
+              differingFields(
+                (version.snapshot || {}) as Record<string, unknown>,
+                current,
+              ).length === 0;
+
+            return (
+              <BlockStack key={version.id} gap="200">
+                {index > 0 && <Divider />}
+                <InlineStack align="space-between" blockAlign="center" gap="200">
+                  <InlineStack gap="200" blockAlign="center">
+                    <Text variant="bodyMd" fontWeight="semibold" as="span">
+                      Version {version.version}
+                    </Text>
+                    {isCurrent && <Badge tone="success">Current</Badge>}
+                    <Text variant="bodySm" tone="subdued" as="span">
+                      {version.staffName || version.staffEmail || "Unknown staff member"}
+                      {" · "}
+                      {new Date(version.createdAt).toLocaleString()}
+                    </Text>
+                  </InlineStack>
+                  {!isCurrent && (
+                    <InlineStack gap="200">
+                      <Button size="slim" onClick={() => setComparing(version)}>
+                        Compare
+                      </Button>
+                      <Button
+                        size="slim"
+                        onClick={() => restore(version)}
+                        loading={restoringId === version.id}
+                        disabled={restoringId !== null}
+                      >
+                        Restore
+                      </Button>
+                    </InlineStack>
+                  )}
+                </InlineStack>
+              </BlockStack>
+            );
+          })
+        )}
+      </BlockStack>
+
+      <Modal
+        open={comparing !== null}
+        onClose={() => setComparing(null)}
+        title={comparing ? `Version ${comparing.version} compared to current` : ""}
+        primaryAction={{
+          content: "Restore this version",
+          onAction: () => comparing && restore(comparing),
+          loading: restoringId !== null,
+        }}
+        secondaryActions={[
+          { content: "Close", onAction: () => setComparing(null) },
+        ]}
+      >
+        <Modal.Section>
+          {comparedFields.length === 0 ? (
+            <Text variant="bodyMd" as="p">
+              This version matches the current rule.
+            </Text>
+          ) : (
+            <DataTable
+              columnContentTypes={["text", "text", "text"]}
+              headings={[
+                "Field",
+                comparing ? `Version ${comparing.version}` : "Version",
+                "Current",
+              ]}
+              rows={comparedFields.map((field) => [
+                FIELD_LABELS[field],
+                formatValue(comparedSnapshot[field]),
+                formatValue(current[field]),
+              ])}
+            />
+          )}
+        </Modal.Section>
+      </Modal>
+    </Card>
+  );
+}
+
+export default RuleVersions;
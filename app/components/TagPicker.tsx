@@ -10,9 +10,10 @@ import {
 interface TagPickerProps {
   selectedTags: string[];
   onTagsChange: (tags: string[]) => void;
+  label?: string;
 }
 
-export function TagPicker({ selectedTags, onTagsChange }: TagPickerProps) {
+export function TagPicker({ selectedTags, onTagsChange, label = "Tags" }: TagPickerProps) {
   const [inputValue, setInputValue] = useState("");
   const [allTags, setAllTags] = useState<{ value: string; label: string }[]>([]);
   const [options, setOptions] = useState<{ value: string; label: string }[]>([]);
@@ -162,7 +163,7 @@ export function TagPicker({ selectedTags, onTagsChange }: TagPickerProps) {
     <div style={{ marginTop: '16px' }}>
       <BlockStack gap="200">
         <Text variant="bodyMd" as="p">
-          Tags {selectedTags.length > 0 && `(${selectedTags.length} selected)`}
+          {label} {selectedTags.length > 0 && `(${selectedTags.length} selected)`}
         </Text>
 
         <Autocomplete
@@ -7,6 +7,8 @@ import {
 } from "@remix-run/node";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+// Registers background job handlers and starts the job worker
+import "./services/job-handlers.server";
 
 
 export const streamTimeout = 5000;
@@ -0,0 +1,34 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { searchCustomers } from "../services/api.graphql";
+import prisma from "../db.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  try {
+    const { session } = await authenticate.admin(request);
+
+    if (!session.shop) {
+      return json({ success: false, error: "No shop in session" }, { status: 400 });
+    }
+
+    const url = new URL(request.url);
+    const search = url.searchParams.get("search") || "";
+
+    const dbShop = await prisma.shop.findUnique({
+      where: { shop: session.shop }
+    });
+
+    if (!dbShop) {
+      return json({ success: false, error: "Shop not authorized" }, { status: 401 });
+    }
+
+    const customers = await searchCustomers(session.shop, dbShop.accessToken, search);
+
+    return json({ success: true, customers });
+  } catch (err) {
+    console.error("❌ Search customers failed:", err);
+
+    return json({ success: false, error: "Failed to search customers" }, { status: 500 });
+  }
+};
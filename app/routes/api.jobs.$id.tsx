@@ -0,0 +1,48 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import type { Job } from "@prisma/client";
+import { authenticate } from "../shopify.server";
+import { cancelJob, getJob } from "../services/jobs.server";
+
+// Polled by the admin UI to show job progress
+const serializeJob = (job: Job) => ({
+  id: job.id,
+  type: job.type,
+  status: job.status,
+  progress: job.progress,
+  total: job.total,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  error: job.error,
+  cancelRequested: job.cancelRequested,
+  result: job.status === "completed" ? job.result : null,
+  createdAt: job.createdAt,
+  finishedAt: job.finishedAt,
+});
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const job = await getJob(session.shop, params.id as string);
+  if (!job) {
+    return json({ success: false, error: "Job not found" }, { status: 404 });
+  }
+
+  return json({ success: true, job: serializeJob(job) });
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  if (formData.get("intent") !== "cancel") {
+    return json({ success: false, error: "Invalid intent" }, { status: 400 });
+  }
+
+  const job = await cancelJob(session.shop, params.id as string);
+  if (!job) {
+    return json({ success: false, error: "Job not found" }, { status: 404 });
+  }
+
+  return json({ success: true, job: serializeJob(job) });
+};
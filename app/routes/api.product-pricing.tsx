@@ -3,11 +3,20 @@ import { json } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import prisma from "../db.server"; // giả sử prisma instance
 import {
-  getAllProductsWithPricing,
-  getProductsByIdsWithPricing,
-  getProductsByCollectionIdsWithPricing,
-  getProductsByTagsWithPricing,
-} from "../services/api.graphql";
+  buildDraftRule,
+  getProductsForRule,
+  priceProductsForPreview,
+} from "../services/pricing.server";
+import { getShopCurrencySettings, type CatalogProduct } from "../services/api.graphql";
+import { enqueueJob } from "../services/jobs.server";
+
+const APPLY_TO_VALUES = [
+  "all-products",
+  "specific-products",
+  "product-collections",
+  "product-tags",
+  "conditions",
+];
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -20,46 +29,65 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const accessToken = dbShop.accessToken;
   const body = await request.json();
-  const { applyTo, productIds, collectionIds, tags } = body;
+
+  const draft = body.ruleId && !body.applyTo
+    ? await findShopRule(shop, body.ruleId)
+    : buildDraftRule({
+        id: body.ruleId,
+        applyTo: body.applyTo,
+        productIds: body.productIds,
+        variantIds: body.variantIds,
+        collectionIds: body.collectionIds,
+        tagIds: body.tags,
+        conditions: body.conditions,
+        excludedProductIds: body.excludedProductIds,
+        excludedCollectionIds: body.excludedCollectionIds,
+        excludedTags: body.excludedTags,
+        priceType: body.priceType,
+        amount: body.amount,
+        tiers: body.tiers,
+        compareAtMode: body.compareAtMode,
+        compareAtAmount: body.compareAtAmount,
+        roundingMode: body.roundingMode,
+        minPrice: body.minPrice,
+        maxDiscountPercent: body.maxDiscountPercent,
+        marketPrices: body.marketPrices,
+        customerEligibility: body.customerEligibility,
+        customerTags: body.customerTags,
+        customerIds: body.customerIds,
+        priority: body.priority,
+        name: body.name,
+      });
+
+  if (!draft) {
+    return json({ success: false, error: "Pricing rule not found" }, { status: 404 });
+  }
+
+  if (!APPLY_TO_VALUES.includes(draft.applyTo)) {
+    return json({
+      success: false,
+      error: "Invalid applyTo parameter"
+    }, { status: 400 });
+  }
+
+  // Whole-catalog previews can take minutes, so they run as a background job
+  if (body.background) {
+    const job = await enqueueJob(shop, "preview-prices", {
+      rule: JSON.parse(JSON.stringify(draft)),
+    });
+    return json({ success: true, jobId: job.id });
+  }
 
   try {
-    let products = [];
-
-    switch (applyTo) {
-      case "all-products":
-        products = await getAllProductsWithPricing(shop, accessToken, 100);
-        break;
-
-      case "specific-products":
-        if (productIds && Array.isArray(productIds) && productIds.length > 0) {
-          products = await getProductsByIdsWithPricing(shop, accessToken, productIds);
-        }
-        break;
-
-      case "product-collections":
-        if (collectionIds && Array.isArray(collectionIds) && collectionIds.length > 0) {
-          products = await getProductsByCollectionIdsWithPricing(shop, accessToken, collectionIds);
-        }
-        break;
-
-      case "product-tags":
-        if (tags && Array.isArray(tags) && tags.length > 0) {
-          products = await getProductsByTagsWithPricing(shop, accessToken, tags);
-        }
-        break;
-
-      default:
-        return json({ 
-          success: false, 
-          error: "Invalid applyTo parameter" 
-        }, { status: 400 });
-    }
+    const products = await getProductsForRule(shop, accessToken, draft);
+    const { currencyCode } = await getShopCurrencySettings(shop, accessToken);
 
     return json({
       success: true,
-      products,
+      products: await priceProductsForPreview(shop, products, draft, currencyCode),
+      currencyCode,
       count: products.length,
-      applyTo,
+      applyTo: draft.applyTo,
     });
 
   } catch (error) {
@@ -82,61 +110,65 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   const accessToken = dbShop.accessToken;
   const url = new URL(request.url);
-  const applyTo = url.searchParams.get("applyTo");
-  const productIds = url.searchParams.get("productIds");
-  const collectionIds = url.searchParams.get("collectionIds");
-  const tags = url.searchParams.get("tags");
+  const ruleId = url.searchParams.get("ruleId");
+  const splitParam = (key: string) =>
+    (url.searchParams.get(key) || "").split(",").filter((value) => value.trim());
+
+  // A saved rule can be previewed by ID, but only within the shop that owns it.
+  // Otherwise the editor sends its unsaved form values as a draft rule.
+  const draft = ruleId && !url.searchParams.has("applyTo")
+    ? await findShopRule(shop, ruleId)
+    : buildDraftRule({
+        id: ruleId || undefined,
+        applyTo: url.searchParams.get("applyTo") || "",
+        productIds: splitParam("productIds"),
+        variantIds: splitParam("variantIds"),
+        collectionIds: splitParam("collectionIds"),
+        tagIds: splitParam("tags"),
+        conditions: url.searchParams.get("conditions"),
+        excludedProductIds: splitParam("excludedProductIds"),
+        excludedCollectionIds: splitParam("excludedCollectionIds"),
+        excludedTags: splitParam("excludedTags"),
+        priceType: url.searchParams.get("priceType"),
+        amount: url.searchParams.get("amount"),
+        tiers: url.searchParams.get("tiers"),
+        compareAtMode: url.searchParams.get("compareAtMode"),
+        compareAtAmount: url.searchParams.get("compareAtAmount"),
+        roundingMode: url.searchParams.get("roundingMode"),
+        minPrice: url.searchParams.get("minPrice"),
+        maxDiscountPercent: url.searchParams.get("maxDiscountPercent"),
+        marketPrices: url.searchParams.get("marketPrices"),
+        customerEligibility: url.searchParams.get("customerEligibility"),
+        customerTags: splitParam("customerTags"),
+        customerIds: splitParam("customerIds"),
+        priority: url.searchParams.get("priority"),
+        name: url.searchParams.get("name"),
+      });
+
+  if (!draft) {
+    return json({ success: false, error: "Pricing rule not found" }, { status: 404 });
+  }
+
+  if (!APPLY_TO_VALUES.includes(draft.applyTo)) {
+    return json({
+      success: false,
+      error: `Invalid applyTo parameter. Must be one of: ${APPLY_TO_VALUES.join(", ")}`
+    }, { status: 400 });
+  }
 
   try {
-    let products = [];
-
-    switch (applyTo) {
-      case "all-products":
-        products = await getAllProductsWithPricing(shop, accessToken, 100);
-        if (products.length === 0) {
-          products = getMockProducts();
-        }
-        break;
-
-      case "specific-products":
-        if (productIds) {
-          const ids = productIds.split(",").filter(id => id.trim());
-          if (ids.length > 0) {
-            products = await getProductsByIdsWithPricing(shop, accessToken, ids);
-          }
-        }
-        break;
-
-      case "product-collections":
-        if (collectionIds) {
-          const ids = collectionIds.split(",").filter(id => id.trim());
-          if (ids.length > 0) {
-            products = await getProductsByCollectionIdsWithPricing(shop, accessToken, ids);
-          }
-        }
-        break;
-
-      case "product-tags":
-        if (tags) {
-          const tagList = tags.split(",").filter(tag => tag.trim());
-          if (tagList.length > 0) {
-            products = await getProductsByTagsWithPricing(shop, accessToken, tagList);
-          }
-        }
-        break;
-
-      default:
-        return json({
-          success: false,
-          error: "Invalid applyTo parameter. Must be one of: all-products, specific-products, product-collections, product-tags"
-        }, { status: 400 });
+    let products = await getProductsForRule(shop, accessToken, draft);
+    if (draft.applyTo === "all-products" && products.length === 0) {
+      products = getMockProducts();
     }
+    const { currencyCode } = await getShopCurrencySettings(shop, accessToken);
 
     return json({
       success: true,
-      products,
+      products: await priceProductsForPreview(shop, products, draft, currencyCode),
+      currencyCode,
       count: products.length,
-      applyTo,
+      applyTo: draft.applyTo,
     });
 
   } catch (error) {
@@ -148,26 +180,38 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   }
 };
 
+async function findShopRule(shop: string, ruleId: string) {
+  return prisma.pricingRule.findFirst({ where: { id: ruleId, shop, deletedAt: null } });
+}
+
 // Helper mock
-function getMockProducts() {
+function getMockProducts(): CatalogProduct[] {
   return [
     {
       id: "gid://shopify/Product/mock1",
       title: "Mock Product 1",
       handle: "mock-product-1",
+      tags: [],
+      vendor: "",
+      productType: "",
+      collectionIds: [],
       featuredImage: null,
       variants: [
-        { id: "gid://shopify/ProductVariant/mock1", title: "Default Title", price: "29.99", sku: "MOCK-001" }
+        { id: "gid://shopify/ProductVariant/mock1", title: "Default Title", price: "29.99", compareAtPrice: null, sku: "MOCK-001" }
       ]
     },
     {
       id: "gid://shopify/Product/mock2",
       title: "Mock Product 2",
       handle: "mock-product-2",
+      tags: [],
+      vendor: "",
+      productType: "",
+      collectionIds: [],
       featuredImage: null,
       variants: [
-        { id: "gid://shopify/ProductVariant/mock2", title: "Small", price: "19.99", sku: "MOCK-002-S" },
-        { id: "gid://shopify/ProductVariant/mock3", title: "Large", price: "24.99", sku: "MOCK-002-L" }
+        { id: "gid://shopify/ProductVariant/mock2", title: "Small", price: "19.99", compareAtPrice: null, sku: "MOCK-002-S" },
+        { id: "gid://shopify/ProductVariant/mock3", title: "Large", price: "24.99", compareAtPrice: null, sku: "MOCK-002-L" }
       ]
     }
   ];
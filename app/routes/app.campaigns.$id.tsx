@@ -0,0 +1,352 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigate,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import { useEffect, useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  FormLayout,
+  TextField,
+  IndexTable,
+  Badge,
+  Text,
+  Banner,
+  BlockStack,
+  EmptyState,
+  useIndexResourceState,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import {
+  getCampaign,
+  getCampaignRuleData,
+  saveCampaign,
+  setCampaignStatus,
+} from "../services/campaigns.server";
+import { getRuleEffectiveStatus } from "../services/pricing.server";
+import { STATUS_BADGES } from "../services/pricing-rule-list";
+import { toDateTimeLocalValue } from "../services/schedule";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const { id } = params;
+  const isEdit = id && id !== "new";
+
+  const campaign = isEdit ? await getCampaign(session.shop, id) : null;
+  if (isEdit && !campaign) {
+    throw new Response("Campaign not found", { status: 404 });
+  }
+
+  // Every rule can join; rules in another campaign move over when saved
+  const rules = await prisma.pricingRule.findMany({
+    where: { shop: session.shop, deletedAt: null },
+    include: { campaign: { select: { name: true } } },
+    orderBy: [{ priority: "asc" }, { createdAt: "desc" }],
+  });
+  const now = new Date();
+
+  return json({
+    isEdit: Boolean(isEdit),
+    campaign: campaign && {
+      id: campaign.id,
+      name: campaign.name,
+      status: campaign.status,
+      effectiveStatus: getRuleEffectiveStatus(getCampaignRuleData(campaign), now),
+      startsAt: campaign.startsAt?.toISOString() ?? null,
+      endsAt: campaign.endsAt?.toISOString() ?? null,
+      ruleIds: campaign.rules.map((rule) => rule.id),
+    },
+    rules: rules.map((rule) => ({
+      id: rule.id,
+      name: rule.name,
+      priority: rule.priority,
+      effectiveStatus: getRuleEffectiveStatus(rule, now),
+      campaignId: rule.campaignId,
+      campaignName: rule.campaign?.name ?? null,
+    })),
+  });
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const { id } = params;
+  const campaignId = id && id !== "new" ? id : null;
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+
+  try {
+    if ((intent === "activate" || intent === "pause") && campaignId) {
+      const updated = await setCampaignStatus(
+        session,
+        campaignId,
+        intent === "activate" ? "active" : "paused",
+      );
+      if (updated === null) {
+        return json({ errors: { general: "Campaign not found" } }, { status: 404 });
+      }
+      return json({
+        success: true,
+        message: `Campaign ${intent === "activate" ? "activated" : "paused"}, ${updated} pricing rule(s) updated`,
+        campaignId,
+      });
+    }
+
+    if (intent !== "save") {
+      return json({ errors: { general: "Invalid action" } }, { status: 400 });
+    }
+
+    const startsAtValue = formData.get("startsAt") as string;
+    const endsAtValue = formData.get("endsAt") as string;
+    let ruleIds: unknown;
+    try {
+      ruleIds = JSON.parse((formData.get("ruleIds") as string) || "[]");
+    } catch {
+      ruleIds = null;
+    }
+    if (!Array.isArray(ruleIds) || !ruleIds.every((ruleId) => typeof ruleId === "string")) {
+      return json(
+        { errors: { general: "ruleIds must be a list of rule IDs" } },
+        { status: 400 },
+      );
+    }
+
+    const result = await saveCampaign(session, campaignId, {
+      name: (formData.get("name") as string) || "",
+      startsAt: startsAtValue ? new Date(startsAtValue) : null,
+      endsAt: endsAtValue ? new Date(endsAtValue) : null,
+      ruleIds,
+    });
+    if ("errors" in result) {
+      return json({ errors: result.errors }, { status: 400 });
+    }
+
+    return json({
+      success: true,
+      message: campaignId
+        ? `Campaign updated, ${result.updated} pricing rule(s) changed`
+        : "Campaign created successfully!",
+      campaignId: result.campaign.id,
+    });
+  } catch (error) {
+    console.error("Failed to save campaign:", error);
+    return json(
+      { errors: { general: "Failed to save the campaign. Please try again." } },
+      { status: 500 },
+    );
+  }
+};
+
+export default function CampaignForm() {
+  const { isEdit, campaign, rules } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [name, setName] = useState(campaign?.name ?? "");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+
+  const { selectedResources, allResourcesSelected, handleSelectionChange } =
+    useIndexResourceState(rules, { selectedResources: campaign?.ruleIds ?? [] });
+
+  // Converted after mount so the inputs show the merchant's local time
+  useEffect(() => {
+    setStartsAt(toDateTimeLocalValue(campaign?.startsAt));
+    setEndsAt(toDateTimeLocalValue(campaign?.endsAt));
+  }, [campaign?.startsAt, campaign?.endsAt]);
+
+  // A new campaign continues on its own page once created
+  useEffect(() => {
+    if (!isEdit && actionData && "campaignId" in actionData && actionData.campaignId) {
+      navigate(`/app/campaigns/${actionData.campaignId}`, { replace: true });
+    }
+  }, [isEdit, actionData, navigate]);
+
+  const busyIntent =
+    navigation.state !== "idle" ? navigation.formData?.get("intent") : null;
+  const errors: Record<string, string> =
+    actionData && "errors" in actionData ? actionData.errors : {};
+  const isActive = campaign?.status === "active";
+  const badge = campaign ? STATUS_BADGES[campaign.effectiveStatus] : null;
+
+  const save = () => {
+    submit(
+      {
+        intent: "save",
+        name,
+        // Sent as UTC so the server does not read them in its own timezone
+        startsAt: startsAt ? new Date(startsAt).toISOString() : "",
+        endsAt: endsAt ? new Date(endsAt).toISOString() : "",
+        ruleIds: JSON.stringify(
+          allResourcesSelected ? rules.map((rule) => rule.id) : selectedResources,
+        ),
+      },
+      { method: "post" },
+    );
+  };
+
+  const rowMarkup = rules.map((rule, index) => {
+    const ruleBadge = STATUS_BADGES[rule.effectiveStatus];
+    const otherCampaign = rule.campaignId && rule.campaignId !== campaign?.id;
+    return (
+      <IndexTable.Row
+        id={rule.id}
+        key={rule.id}
+        position={index}
+        selected={selectedResources.includes(rule.id)}
+      >
+        <IndexTable.Cell>
+          <Text variant="bodyMd" fontWeight="bold" as="span">
+            {rule.name}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>{rule.priority}</IndexTable.Cell>
+        <IndexTable.Cell>
+          <Badge tone={ruleBadge?.tone}>{ruleBadge?.label || rule.effectiveStatus}</Badge>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          {otherCampaign ? (
+            <Text variant="bodyMd" tone="subdued" as="span">
+              {rule.campaignName}
+            </Text>
+          ) : null}
+        </IndexTable.Cell>
+      </IndexTable.Row>
+    );
+  });
+
+  return (
+    <Page
+      title={campaign ? campaign.name : "Create campaign"}
+      titleMetadata={badge ? <Badge tone={badge.tone}>{badge.label}</Badge> : undefined}
+      backAction={{
+        content: "Back to campaigns",
+        onAction: () => navigate("/app/campaigns"),
+      }}
+      primaryAction={{
+        content: "Save",
+        onAction: save,
+        loading: busyIntent === "save",
+      }}
+      secondaryActions={
+        campaign
+          ? [
+              {
+                content: isActive ? "Pause" : "Activate",
+                onAction: () =>
+                  submit({ intent: isActive ? "pause" : "activate" }, { method: "post" }),
+                loading: busyIntent === "activate" || busyIntent === "pause",
+              },
+            ]
+          : []
+      }
+    >
+      <Layout>
+        {actionData && "success" in actionData && (
+          <Layout.Section>
+            <Banner tone="success">
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+        {errors.general && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <p>{errors.general}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <BlockStack gap="400">
+            <Card>
+              <FormLayout>
+                <TextField
+                  label="Name"
+                  value={name}
+                  onChange={setName}
+                  autoComplete="off"
+                  error={errors.name}
+                />
+                <FormLayout.Group>
+                  <TextField
+                    label="Start date"
+                    type="datetime-local"
+                    autoComplete="off"
+                    value={startsAt}
+                    onChange={setStartsAt}
+                    error={errors.startsAt}
+                    helpText="Leave empty to start as soon as the campaign is active"
+                  />
+                  <TextField
+                    label="End date"
+                    type="datetime-local"
+                    autoComplete="off"
+                    value={endsAt}
+                    onChange={setEndsAt}
+                    error={errors.endsAt}
+                    helpText="Leave empty to run until paused"
+                  />
+                </FormLayout.Group>
+              </FormLayout>
+            </Card>
+
+            <Card padding="0">
+              {rules.length > 0 ? (
+                <IndexTable
+                  resourceName={{ singular: "pricing rule", plural: "pricing rules" }}
+                  itemCount={rules.length}
+                  selectedItemsCount={allResourcesSelected ? "All" : selectedResources.length}
+                  onSelectionChange={handleSelectionChange}
+                  headings={[
+                    { title: "Rule" },
+                    { title: "Priority" },
+                    { title: "Status" },
+                    { title: "In campaign" },
+                  ]}
+                >
+                  {rowMarkup}
+                </IndexTable>
+              ) : (
+                <EmptyState
+                  heading="No pricing rules yet"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                >
+                  <p>Create pricing rules before grouping them in a campaign.</p>
+                </EmptyState>
+              )}
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="200">
+              <Text variant="headingMd" as="h2">
+                How campaigns work
+              </Text>
+              <Text variant="bodyMd" as="p">
+                Selected rules take the campaign's schedule. Activating the
+                campaign enables them and pausing it disables them.
+              </Text>
+              <Text variant="bodySm" tone="subdued" as="p">
+                Rules taken out of the campaign keep their last status and
+                schedule. A rule belongs to one campaign at a time.
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,284 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import {
+  Outlet,
+  useActionData,
+  useLoaderData,
+  useLocation,
+  useNavigate,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import { useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Badge,
+  Text,
+  Banner,
+  EmptyState,
+  Button,
+  ButtonGroup,
+  Modal,
+} from "@shopify/polaris";
+import { DeleteIcon, EditIcon, PauseCircleIcon, PlayIcon } from "@shopify/polaris-icons";
+import { authenticate } from "../shopify.server";
+import {
+  deleteCampaign,
+  getCampaignRuleData,
+  getCampaigns,
+  setCampaignStatus,
+} from "../services/campaigns.server";
+import { getRuleEffectiveStatus } from "../services/pricing.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const campaigns = await getCampaigns(session.shop);
+  const now = new Date();
+
+  return json({
+    campaigns: campaigns.map((campaign) => ({
+      id: campaign.id,
+      name: campaign.name,
+      status: campaign.status,
+      effectiveStatus: getRuleEffectiveStatus(getCampaignRuleData(campaign), now),
+      startsAt: campaign.startsAt?.toISOString() ?? null,
+      endsAt: campaign.endsAt?.toISOString() ?? null,
+      ruleCount: campaign._count.rules,
+    })),
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+  const campaignId = formData.get("campaignId") as string;
+
+  try {
+    switch (intent) {
+      case "activate":
+      case "pause": {
+        const updated = await setCampaignStatus(
+          session,
+          campaignId,
+          intent === "activate" ? "active" : "paused",
+        );
+        if (updated === null) {
+          return json({ success: false, message: "Campaign not found" }, { status: 404 });
+        }
+        return json({
+          success: true,
+          message: `Campaign ${intent === "activate" ? "activated" : "paused"}, ${updated} pricing rule(s) updated`,
+        });
+      }
+
+      case "delete": {
+        const deleted = await deleteCampaign(session.shop, campaignId);
+        if (deleted === 0) {
+          return json({ success: false, message: "Campaign not found" }, { status: 404 });
+        }
+        return json({ success: true, message: "Campaign deleted" });
+      }
+
+      default:
+        return json(
+          { success: false, message: "Invalid action" },
+          { status: 400 },
+        );
+    }
+  } catch (error) {
+    console.error("Campaign action failed:", error);
+    return json(
+      { success: false, message: "Operation failed. Please try again." },
+      { status: 500 },
+    );
+  }
+};
+
+const CAMPAIGN_STATUS_BADGES: Record<
+  string,
+  { label: string; tone?: "success" | "attention" | "critical" }
+> = {
+  running: { label: "Running", tone: "success" },
+  scheduled: { label: "Scheduled", tone: "attention" },
+  expired: { label: "Ended" },
+  inactive: { label: "Paused", tone: "critical" },
+};
+
+const formatSchedule = (startsAt: string | null, endsAt: string | null) => {
+  const format = (value: string) =>
+    new Date(value).toLocaleString(undefined, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+  if (!startsAt && !endsAt) return "No schedule";
+  if (!endsAt) return `From ${format(startsAt!)}`;
+  if (!startsAt) return `Until ${format(endsAt)}`;
+  return `${format(startsAt)} – ${format(endsAt)}`;
+};
+
+export default function Campaigns() {
+  const { campaigns } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const location = useLocation();
+  const [deleteTarget, setDeleteTarget] = useState<{ id: string; name: string } | null>(null);
+
+  // Only show the list on the main route, child routes render in the Outlet
+  const isMainRoute = location.pathname === "/app/campaigns" || location.pathname === "/app/campaigns/";
+
+  const busyId =
+    navigation.state !== "idle" ? navigation.formData?.get("campaignId") : null;
+  const busyIntent =
+    navigation.state !== "idle" ? navigation.formData?.get("intent") : null;
+
+  const send = (intent: "activate" | "pause" | "delete", campaignId: string) => {
+    submit({ intent, campaignId }, { method: "post" });
+  };
+
+  const confirmDelete = () => {
+    if (!deleteTarget) return;
+    send("delete", deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  const rowMarkup = campaigns.map((campaign, index) => {
+    const isBusy = busyId === campaign.id;
+    const isActive = campaign.status === "active";
+    const badge = CAMPAIGN_STATUS_BADGES[campaign.effectiveStatus];
+    return (
+      <IndexTable.Row id={campaign.id} key={campaign.id} position={index}>
+        <IndexTable.Cell>
+          <Text variant="bodyMd" fontWeight="bold" as="span">
+            {campaign.name}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Badge tone={badge?.tone}>{badge?.label || campaign.effectiveStatus}</Badge>
+        </IndexTable.Cell>
+        <IndexTable.Cell>{formatSchedule(campaign.startsAt, campaign.endsAt)}</IndexTable.Cell>
+        <IndexTable.Cell>{campaign.ruleCount}</IndexTable.Cell>
+        <IndexTable.Cell>
+          <ButtonGroup>
+            <Button
+              icon={isActive ? PauseCircleIcon : PlayIcon}
+              onClick={() => send(isActive ? "pause" : "activate", campaign.id)}
+              accessibilityLabel={`${isActive ? "Pause" : "Activate"} ${campaign.name}`}
+              size="slim"
+              variant="tertiary"
+              disabled={isBusy}
+              loading={isBusy && busyIntent !== "delete"}
+            />
+            <Button
+              icon={EditIcon}
+              onClick={() => navigate(`/app/campaigns/${campaign.id}`)}
+              accessibilityLabel={`Edit ${campaign.name}`}
+              size="slim"
+              variant="tertiary"
+            />
+            <Button
+              icon={DeleteIcon}
+              onClick={() => setDeleteTarget({ id: campaign.id, name: campaign.name })}
+              accessibilityLabel={`Delete ${campaign.name}`}
+              size="slim"
+              variant="tertiary"
+              tone="critical"
+              disabled={isBusy}
+              loading={isBusy && busyIntent === "delete"}
+            />
+          </ButtonGroup>
+        </IndexTable.Cell>
+      </IndexTable.Row>
+    );
+  });
+
+  return (
+    <>
+      {isMainRoute && (
+        <Page
+          title="Campaigns"
+          subtitle="Group pricing rules that run together; a campaign sets the status and schedule of its rules"
+          primaryAction={{
+            content: "Create campaign",
+            onAction: () => navigate("/app/campaigns/new"),
+          }}
+        >
+          <Layout>
+            {actionData && (
+              <Layout.Section>
+                <Banner tone={actionData.success ? "success" : "critical"}>
+                  <p>{actionData.message}</p>
+                </Banner>
+              </Layout.Section>
+            )}
+
+            <Layout.Section>
+              <Card padding="0">
+                {campaigns.length > 0 ? (
+                  <IndexTable
+                    resourceName={{ singular: "campaign", plural: "campaigns" }}
+                    itemCount={campaigns.length}
+                    selectable={false}
+                    headings={[
+                      { title: "Name" },
+                      { title: "Status" },
+                      { title: "Schedule" },
+                      { title: "Rules" },
+                      { title: "Actions" },
+                    ]}
+                  >
+                    {rowMarkup}
+                  </IndexTable>
+                ) : (
+                  <EmptyState
+                    heading="No campaigns yet"
+                    action={{
+                      content: "Create campaign",
+                      onAction: () => navigate("/app/campaigns/new"),
+                    }}
+                    image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                  >
+                    <p>Start and stop several pricing rules together, e.g. for a seasonal sale.</p>
+                  </EmptyState>
+                )}
+              </Card>
+            </Layout.Section>
+          </Layout>
+
+          <Modal
+            open={deleteTarget !== null}
+            onClose={() => setDeleteTarget(null)}
+            title="Delete campaign"
+            primaryAction={{
+              content: "Delete",
+              destructive: true,
+              onAction: confirmDelete,
+            }}
+            secondaryActions={[
+              {
+                content: "Cancel",
+                onAction: () => setDeleteTarget(null),
+              },
+            ]}
+          >
+            <Modal.Section>
+              <Text as="p">
+                {`"${deleteTarget?.name}" will be deleted. Its pricing rules are kept with their current status and schedule.`}
+              </Text>
+            </Modal.Section>
+          </Modal>
+        </Page>
+      )}
+
+      {/* Outlet for child routes (/new, /:id) */}
+      <Outlet />
+    </>
+  );
+}
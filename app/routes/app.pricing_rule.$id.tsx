@@ -1,4 +1,5 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
+import { Prisma, type PricingRule } from "@prisma/client";
 import { json } from "@remix-run/node";
 import {
   useLoaderData,
@@ -6,8 +7,7 @@ import {
   useActionData,
   useSubmit,
 } from "@remix-run/react";
-import { useState, useEffect, useCallback } from "react";
-import { useAppBridge } from "@shopify/app-bridge-react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useForm, useField } from "@shopify/react-form";
 import {
   Page,
@@ -22,23 +22,106 @@ import {
   Toast,
   Frame,
   RadioButton,
+  InlineStack,
+  Banner,
+  List,
 } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
 import prisma from "../db.server";
+import { requestPricingRuleSync } from "../services/pricing-sync.server";
+import {
+  diffRules,
+  getRuleEvents,
+  recordRuleEvents,
+  snapshotRule,
+} from "../services/pricing-audit.server";
+import {
+  getRuleVersions,
+  recordRuleVersions,
+  restoreRuleVersion,
+  toJsonColumn,
+} from "../services/pricing-versions.server";
+import { applyCampaignOwnership } from "../services/campaigns.server";
+import { RuleHistory } from "../components/RuleHistory";
+import { RuleVersions } from "../components/RuleVersions";
+import { RULE_CONFLICTS_JOB_TYPE } from "../services/pricing-conflicts.server";
+import { isRuleActive } from "../services/pricing.server";
+import { enqueueJob } from "../services/jobs.server";
+import { JobProgress, type JobSnapshot } from "../components/JobProgress";
+import { ProductPicker } from "../components/ProductPicker";
 import { CollectionPicker } from "../components/CollectionPicker";
 import { TagPicker } from "../components/TagPicker";
 import { ProductPricingDetails } from "../components/ProductPricingDetails";
+import { ConditionBuilder } from "../components/ConditionBuilder";
+import { CustomerTagPicker } from "../components/CustomerTagPicker";
+import {
+  QuantityTierEditor,
+  toQuantityTiers,
+  toTierInputs,
+  type TierInput,
+} from "../components/QuantityTierEditor";
+import {
+  CustomerPicker,
+  type SelectedCustomer,
+} from "../components/CustomerPicker";
+import {
+  createConditionTree,
+  getConditionCollectionIds,
+  parseConditionTree,
+  validateConditionTree,
+  type ConditionTree,
+} from "../services/pricing-conditions";
+import {
+  DEFAULT_CURRENCY_CODE,
+  getCurrencySymbol,
+  parseMarketPrices,
+  type MarketPrice,
+  type ShopCurrencySettings,
+} from "../services/currency";
+import { CUSTOMER_ELIGIBILITY_OPTIONS } from "../services/customer-eligibility";
+import { toDateTimeLocalValue } from "../services/schedule";
+import {
+  DEFAULT_QUANTITY_TIERS,
+  parseQuantityTiers,
+  validateQuantityTiers,
+} from "../services/pricing-tiers";
+import {
+  ROUNDING_OPTIONS,
+  validatePricingRule,
+} from "../services/pricing-rule-validation";
 
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
 
   const { id } = params;
   const isEdit = id && id !== "new";
 
+  // Amounts are entered and previewed in the shop's currency
+  let currencySettings: ShopCurrencySettings = {
+    currencyCode: DEFAULT_CURRENCY_CODE,
+    enabledPresentmentCurrencies: [DEFAULT_CURRENCY_CODE],
+    markets: [],
+  };
+  try {
+    const dbShop = await prisma.shop.findUnique({
+      where: { shop: session.shop },
+    });
+    if (dbShop) {
+      const { getShopCurrencySettings } = await import("../services/api.graphql");
+      currencySettings = await getShopCurrencySettings(
+        session.shop,
+        dbShop.accessToken,
+      );
+    }
+  } catch (error) {
+    console.error("Failed to fetch shop currencies in loader:", error);
+  }
+
   if (isEdit) {
     try {
-      const rule = await prisma.pricingRule.findUnique({
-        where: { id },
+      const rule = await prisma.pricingRule.findFirst({
+        where: { id, shop: session.shop, deletedAt: null },
+        include: { campaign: { select: { id: true, name: true } } },
       });
 
       if (!rule) {
@@ -49,19 +132,33 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
 
       if (
         rule.applyTo === "specific-products" &&
-        (rule.productIds || (rule as any).variantIds)
+        (rule.productIds || rule.variantIds)
       ) {
         try {
           // Check if we have variantIds first, then fallback to productIds
-          const variantIds = (rule as any).variantIds;
+          const variantIds = parseJsonIds(rule.variantIds);
           const productIds = Array.isArray(rule.productIds)
             ? rule.productIds
             : rule.productIds
               ? JSON.parse(rule.productIds as string)
               : [];
 
-          if (variantIds && variantIds.length > 0) {
-            // Skip variant handling for now
+          if (variantIds.length > 0) {
+            const { getProductsByVariantIdsWithPricing } = await import(
+              "../services/api.graphql"
+            );
+            const products = await getProductsByVariantIdsWithPricing(
+              request,
+              variantIds,
+            );
+            // Only the saved variants are listed under each product
+            enrichedRule.productDetails = products.map((product: any) => ({
+              id: product.id,
+              title: product.title,
+              handle: product.handle,
+              featuredImage: product.featuredImage,
+              variants: product.selectedVariants,
+            }));
           } else if (productIds && productIds.length > 0) {
             const { getProductsByIds } = await import(
               "../services/api.graphql"
@@ -104,19 +201,119 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         }
       }
 
-      return json({ rule: enrichedRule, isEdit: true });
+      if (rule.applyTo === "conditions") {
+        const conditionCollectionIds = getConditionCollectionIds(
+          parseConditionTree(rule.conditions),
+        );
+        enrichedRule.conditionCollectionTitles = {};
+        if (conditionCollectionIds.length > 0) {
+          try {
+            const { getCollectionsByIds } = await import(
+              "../services/api.graphql"
+            );
+            const collections = await getCollectionsByIds(
+              request,
+              conditionCollectionIds,
+            );
+            for (const collection of collections) {
+              enrichedRule.conditionCollectionTitles[collection.id] =
+                collection.title;
+            }
+          } catch (error) {
+            console.error("Failed to fetch condition collections in loader:", error);
+          }
+        }
+      }
+
+      const excludedProductIds = parseJsonIds(rule.excludedProductIds);
+      const excludedCollectionIds = parseJsonIds(rule.excludedCollectionIds);
+
+      if (excludedProductIds.length > 0) {
+        try {
+          const { getProductsByIds } = await import("../services/api.graphql");
+          enrichedRule.excludedProductDetails = await getProductsByIds(
+            request,
+            excludedProductIds,
+          );
+        } catch (error) {
+          console.error("Failed to fetch excluded product details in loader:", error);
+          enrichedRule.excludedProductDetails = [];
+        }
+      }
+
+      if (excludedCollectionIds.length > 0) {
+        try {
+          const { getCollectionsByIds } = await import(
+            "../services/api.graphql"
+          );
+          const collections = await getCollectionsByIds(
+            request,
+            excludedCollectionIds,
+          );
+          enrichedRule.excludedCollectionDetails = collections.map(
+            (collection: any) => ({
+              id: collection.id,
+              title: collection.title,
+              handle: collection.handle,
+              image: collection.image,
+            }),
+          );
+        } catch (error) {
+          console.error("Failed to fetch excluded collection details in loader:", error);
+          enrichedRule.excludedCollectionDetails = [];
+        }
+      }
+
+      const customerIds = parseJsonIds(rule.customerIds);
+      if (rule.customerEligibility === "specific-customers" && customerIds.length > 0) {
+        try {
+          const { getCustomersByIds } = await import("../services/api.graphql");
+          enrichedRule.customerDetails = await getCustomersByIds(
+            request,
+            customerIds,
+          );
+        } catch (error) {
+          console.error("Failed to fetch customer details in loader:", error);
+          enrichedRule.customerDetails = [];
+        }
+      }
+
+      const [events, versions] = await Promise.all([
+        getRuleEvents(session.shop, rule.id),
+        getRuleVersions(session.shop, rule.id),
+      ]);
+
+      return json({
+        rule: enrichedRule,
+        isEdit: true,
+        currencySettings,
+        events,
+        versions,
+        currentSnapshot: snapshotRule(rule),
+      });
     } catch (error) {
+      if (error instanceof Response) {
+        throw error;
+      }
       console.error("Failed to load pricing rule:", error);
       throw new Response("Failed to load pricing rule", { status: 500 });
     }
   }
 
-  return json({ rule: null, isEdit: false });
+  return json({
+    rule: null,
+    isEdit: false,
+    currencySettings,
+    events: [] as Awaited<ReturnType<typeof getRuleEvents>>,
+    versions: [] as Awaited<ReturnType<typeof getRuleVersions>>,
+    currentSnapshot: null,
+  });
 };
 
 export const action = async ({ request, params }: ActionFunctionArgs) => {
+  let session;
   try {
-    await authenticate.admin(request);
+    ({ session } = await authenticate.admin(request));
   } catch (authError) {
     console.error("Authentication failed:", authError);
     return json(
@@ -143,6 +340,37 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     );
   }
 
+  // Restoring writes a saved version back to the rule as a new version
+  if (isEdit && formData.get("actionType") === "restoreVersion") {
+    try {
+      const restored = await restoreRuleVersion(
+        session,
+        id,
+        formData.get("versionId") as string,
+      );
+      if (!restored) {
+        return json(
+          { errors: { general: "Pricing rule version not found" } },
+          { status: 404 },
+        );
+      }
+      await requestPricingRuleSync(session.shop);
+
+      return json({
+        success: true,
+        message: `Restored as version ${restored.version.version}`,
+        conflictsJobId: null,
+        restoredVersion: restored.version.version,
+      });
+    } catch (error) {
+      console.error("Error restoring rule version:", error);
+      return json(
+        { errors: { general: "Failed to restore version. Please try again." } },
+        { status: 400 },
+      );
+    }
+  }
+
   const name = formData.get("name") as string;
   const status = formData.get("status") as string;
   const priority = parseInt(formData.get("priority") as string);
@@ -151,99 +379,123 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   const variantIds = formData.get("variantIds") as string;
   const collectionIds = formData.get("collectionIds") as string;
   const tagIds = formData.get("tagIds") as string;
+  const conditions = parseConditionTree(formData.get("conditions"));
+  const excludedProductIds = formData.get("excludedProductIds") as string;
+  const excludedCollectionIds = formData.get("excludedCollectionIds") as string;
+  const excludedTags = formData.get("excludedTags") as string;
   const priceType = formData.get("priceType") as string;
   const amount = parseFloat(formData.get("amount") as string);
-
-  const errors: Record<string, string> = {};
-
-  if (!name || name.trim().length < 2) {
-    errors.name = "Name must be at least 2 characters";
-  }
-
-  if (!status) {
-    errors.status = "Status is required";
-  }
-
-  if (!priority || isNaN(priority) || priority < 1) {
-    errors.priority = "Priority must be at least 1";
-  }
-
-  if (!applyTo) {
-    errors.applyTo = "Apply to selection is required";
-  }
-
-  if (!priceType) {
-    errors.priceType = "Price type is required";
-  }
-
-  if (isNaN(amount) || amount < 0) {
-    errors.amount = "Amount must be a valid positive number";
-  }
-
-  if (
-    applyTo === "specific-products" &&
-    (!productIds || productIds === "[]") &&
-    (!variantIds || variantIds === "[]")
-  ) {
-    errors.products = "Please select at least one product or variant";
-  }
-
-  if (
-    applyTo === "product-collections" &&
-    (!collectionIds || collectionIds === "[]")
-  ) {
-    errors.collections = "Please select at least one collection";
-  }
-
-  if (applyTo === "product-tags" && (!tagIds || tagIds === "[]")) {
-    errors.tags = "Please select at least one tag";
-  }
+  const tiers =
+    priceType === "quantity-tiers"
+      ? parseQuantityTiers(formData.get("tiers"))
+      : null;
+  const compareAtMode = formData.get("compareAtMode") as string;
+  const compareAtAmountValue = formData.get("compareAtAmount") as string;
+  const compareAtAmount =
+    compareAtMode === "fixed" ? parseFloat(compareAtAmountValue) : null;
+  const roundingMode = (formData.get("roundingMode") as string) || "none";
+  const minPriceValue = formData.get("minPrice") as string;
+  const maxDiscountPercentValue = formData.get("maxDiscountPercent") as string;
+  const minPrice = minPriceValue ? parseFloat(minPriceValue) : null;
+  const maxDiscountPercent = maxDiscountPercentValue
+    ? parseFloat(maxDiscountPercentValue)
+    : null;
+  const marketPrices = parseMarketPrices(formData.get("marketPrices"));
+  const customerEligibility =
+    (formData.get("customerEligibility") as string) || "all";
+  const customerTags = parseJsonIdsOrNull(formData.get("customerTags") as string);
+  const customerIds = parseJsonIdsOrNull(formData.get("customerIds") as string);
+  const startsAtValue = formData.get("startsAt") as string;
+  const endsAtValue = formData.get("endsAt") as string;
+  const startsAt = startsAtValue ? new Date(startsAtValue) : null;
+  const endsAt = endsAtValue ? new Date(endsAtValue) : null;
+
+  const errors = validatePricingRule({
+    name,
+    status,
+    priority,
+    applyTo,
+    productIds: parseJsonIdsOrNull(productIds),
+    variantIds: parseJsonIdsOrNull(variantIds),
+    collectionIds: parseJsonIdsOrNull(collectionIds),
+    tagIds: parseJsonIdsOrNull(tagIds),
+    conditions,
+    priceType,
+    amount,
+    tiers,
+    compareAtMode,
+    compareAtAmount,
+    roundingMode,
+    minPrice,
+    maxDiscountPercent,
+    marketPrices,
+    customerEligibility,
+    customerTags,
+    customerIds,
+    startsAt,
+    endsAt,
+  });
 
   if (Object.keys(errors).length > 0) {
     return json({ errors }, { status: 400 });
   }
 
   try {
-    let parsedProductIds = null;
-    let parsedVariantIds = null;
-    let parsedCollectionIds = null;
-    let parsedTagIds = null;
-
-    if (productIds && productIds !== "[]") {
-      try {
-        parsedProductIds = JSON.parse(productIds);
-      } catch (e) {
-        console.warn("Failed to parse productIds:", productIds);
-      }
-    }
-
-    if (variantIds && variantIds !== "[]") {
-      try {
-        parsedVariantIds = JSON.parse(variantIds);
-      } catch (e) {
-        console.warn("Failed to parse variantIds:", variantIds);
-      }
-    }
+    const parsedProductIds = parseJsonIdsOrNull(productIds);
+    const parsedVariantIds = parseJsonIdsOrNull(variantIds);
+    const parsedCollectionIds = parseJsonIdsOrNull(collectionIds);
+    const parsedTagIds = parseJsonIdsOrNull(tagIds);
+
+    // Only the list the eligibility uses is kept
+    const customerData = {
+      customerEligibility,
+      customerTags: toJsonColumn(
+        customerEligibility === "customer-tags" ? customerTags : null,
+      ),
+      customerIds: toJsonColumn(
+        customerEligibility === "specific-customers" ? customerIds : null,
+      ),
+    };
 
-    if (collectionIds && collectionIds !== "[]") {
-      try {
-        parsedCollectionIds = JSON.parse(collectionIds);
-      } catch (e) {
-        console.warn("Failed to parse collectionIds:", collectionIds);
-      }
-    }
+    // Exclusions only narrow broad targeting; a hand-picked list has none
+    const handPicked = applyTo === "specific-products";
+    const exclusionData = {
+      excludedProductIds: toJsonColumn(
+        handPicked ? null : parseJsonIdsOrNull(excludedProductIds),
+      ),
+      excludedCollectionIds: toJsonColumn(
+        handPicked ? null : parseJsonIdsOrNull(excludedCollectionIds),
+      ),
+      excludedTags: toJsonColumn(
+        handPicked ? null : parseJsonIdsOrNull(excludedTags),
+      ),
+    };
 
-    if (tagIds && tagIds !== "[]") {
-      try {
-        parsedTagIds = JSON.parse(tagIds);
-      } catch (e) {
-        console.warn("Failed to parse tagIds:", tagIds);
-      }
-    }
+    const pricingData = {
+      name: name.trim(),
+      priority,
+      status,
+      applyTo,
+      priceType,
+      amount: tiers ? 0 : amount,
+      tiers: toJsonColumn(tiers),
+      compareAtMode,
+      compareAtAmount,
+      roundingMode,
+      minPrice,
+      maxDiscountPercent,
+      marketPrices: toJsonColumn(marketPrices.length > 0 ? marketPrices : null),
+      startsAt,
+      endsAt,
+      ...exclusionData,
+      ...customerData,
+    };
 
+    let savedRule;
+    let previousRule: PricingRule | null = null;
     if (isEdit) {
-      const currentRule = await prisma.pricingRule.findUnique({
-        where: { id },
+      const currentRule = await prisma.pricingRule.findFirst({
+        where: { id, shop: session.shop, deletedAt: null },
       });
 
       if (!currentRule) {
@@ -252,63 +504,87 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
           { status: 404 },
         );
       }
+      previousRule = currentRule;
 
-      const updateData: any = {
-        name: name.trim(),
-        priority,
-        status,
-        applyTo,
-        priceType,
-        amount,
-      };
+      const updateData: Prisma.PricingRuleUncheckedUpdateInput = { ...pricingData };
 
       // Handle JSON fields - keep existing if new data is empty
       if (applyTo === "specific-products") {
-        updateData.productIds = parsedProductIds || currentRule.productIds;
-        (updateData as any).variantIds =
-          parsedVariantIds || (currentRule as any).variantIds;
-        updateData.collectionIds = null;
-        updateData.tagIds = null;
+        // Switching between product and variant targeting replaces both lists
+        if (parsedProductIds || parsedVariantIds) {
+          updateData.productIds = toJsonColumn(parsedProductIds);
+          updateData.variantIds = toJsonColumn(parsedVariantIds);
+        }
+        updateData.collectionIds = Prisma.DbNull;
+        updateData.tagIds = Prisma.DbNull;
       } else if (applyTo === "product-collections") {
-        updateData.collectionIds =
-          parsedCollectionIds || currentRule.collectionIds;
-        updateData.productIds = null;
-        (updateData as any).variantIds = null;
-        updateData.tagIds = null;
+        if (parsedCollectionIds) {
+          updateData.collectionIds = toJsonColumn(parsedCollectionIds);
+        }
+        updateData.productIds = Prisma.DbNull;
+        updateData.variantIds = Prisma.DbNull;
+        updateData.tagIds = Prisma.DbNull;
       } else if (applyTo === "product-tags") {
-        updateData.tagIds = parsedTagIds || currentRule.tagIds;
-        updateData.productIds = null;
-        (updateData as any).variantIds = null;
-        updateData.collectionIds = null;
+        if (parsedTagIds) {
+          updateData.tagIds = toJsonColumn(parsedTagIds);
+        }
+        updateData.productIds = Prisma.DbNull;
+        updateData.variantIds = Prisma.DbNull;
+        updateData.collectionIds = Prisma.DbNull;
       } else {
-        updateData.productIds = null;
-        (updateData as any).variantIds = null;
-        updateData.collectionIds = null;
-        updateData.tagIds = null;
+        updateData.productIds = Prisma.DbNull;
+        updateData.variantIds = Prisma.DbNull;
+        updateData.collectionIds = Prisma.DbNull;
+        updateData.tagIds = Prisma.DbNull;
       }
+      updateData.conditions = toJsonColumn(applyTo === "conditions" ? conditions : null);
 
-      await prisma.pricingRule.update({
+      savedRule = await prisma.pricingRule.update({
         where: { id },
-        data: updateData,
+        data: await applyCampaignOwnership(prisma, currentRule, updateData),
       });
     } else {
       const ruleId = `pr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-      await prisma.pricingRule.create({
-        data: {
-          id: ruleId,
-          name: name.trim(),
-          priority,
-          status,
-          applyTo,
-          productIds: parsedProductIds,
-          variantIds: parsedVariantIds,
-          collectionIds: parsedCollectionIds,
-          tagIds: parsedTagIds,
-          priceType,
-          amount,
-        } as any,
-      });
+      const createData: Prisma.PricingRuleUncheckedCreateInput = {
+        ...pricingData,
+        id: ruleId,
+        shop: session.shop,
+        productIds: toJsonColumn(parsedProductIds),
+        variantIds: toJsonColumn(parsedVariantIds),
+        collectionIds: toJsonColumn(parsedCollectionIds),
+        tagIds: toJsonColumn(parsedTagIds),
+        conditions: toJsonColumn(applyTo === "conditions" ? conditions : null),
+      };
+
+      savedRule = await prisma.pricingRule.create({ data: createData });
+    }
+    const changes = diffRules(previousRule, savedRule);
+    if (!isEdit || Object.keys(changes).length > 0) {
+      await recordRuleEvents(session, [
+        {
+          ruleId: savedRule.id,
+          ruleName: savedRule.name,
+          action: isEdit ? "update" : "create",
+          changes,
+        },
+      ]);
+      await recordRuleVersions(session, [savedRule]);
+    }
+    await requestPricingRuleSync(session.shop);
+
+    // Overlaps are only a warning; the rule is saved either way. Checking
+    // them reads every product the rule targets, so it runs as a job.
+    let conflictsJobId: string | null = null;
+    try {
+      if (isRuleActive(savedRule)) {
+        const job = await enqueueJob(session.shop, RULE_CONFLICTS_JOB_TYPE, {
+          ruleId: savedRule.id,
+        });
+        conflictsJobId = job.id;
+      }
+    } catch (conflictError) {
+      console.error("Failed to check rule conflicts:", conflictError);
     }
 
     return json({
@@ -316,6 +592,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       message: isEdit
         ? "Pricing rule updated successfully!"
         : "Pricing rule created successfully!",
+      conflictsJobId,
     });
   } catch (error) {
     console.error(`Error ${isEdit ? "updating" : "creating"} rule:`, error);
@@ -331,20 +608,47 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 };
 
 export default function PricingRuleForm() {
-  const { rule, isEdit } = useLoaderData<typeof loader>();
+  const { rule, isEdit, currencySettings, events, versions, currentSnapshot } =
+    useLoaderData<typeof loader>();
+  const currencyCode = currencySettings.currencyCode;
+  const currencySymbol = getCurrencySymbol(currencyCode);
   const navigate = useNavigate();
   const actionData = useActionData<typeof action>();
   const remixSubmit = useSubmit();
   const [toastActive, setToastActive] = useState(false);
   const [successToastActive, setSuccessToastActive] = useState(false);
+  const [saveWarnings, setSaveWarnings] = useState<string[]>([]);
+  const [conflictsJobId, setConflictsJobId] = useState<string | null>(null);
   const [selectedProducts, setSelectedProducts] = useState<any[]>([]);
   const [selectedCollections, setSelectedCollections] = useState<any[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [searchValue, setSearchValue] = useState("");
+  const [conditionTree, setConditionTree] = useState<ConditionTree>(
+    createConditionTree,
+  );
+  const [conditionsError, setConditionsError] = useState<string | undefined>();
+  const [excludedProducts, setExcludedProducts] = useState<any[]>([]);
+  const [excludedCollections, setExcludedCollections] = useState<any[]>([]);
+  const [excludedTags, setExcludedTags] = useState<string[]>([]);
+  const [tierInputs, setTierInputs] = useState<TierInput[]>(() =>
+    toTierInputs(DEFAULT_QUANTITY_TIERS),
+  );
+  const [tiersError, setTiersError] = useState<string | undefined>();
+  const [selectedCustomerTags, setSelectedCustomerTags] = useState<string[]>([]);
+  const [selectedCustomers, setSelectedCustomers] = useState<SelectedCustomer[]>(
+    [],
+  );
+  // Fixed price per market ID, as typed
+  const [marketPriceInputs, setMarketPriceInputs] = useState<
+    Record<string, string>
+  >({});
+  const [marketPricesError, setMarketPricesError] = useState<
+    string | undefined
+  >();
+  const [productSelectionMode, setProductSelectionMode] = useState<
+    "products" | "variants"
+  >("products");
   const [showPricingDetails, setShowPricingDetails] = useState(false);
 
-  const app = useAppBridge();
-
   const [originalState, setOriginalState] = useState({
     name: "",
     priority: "1",
@@ -352,13 +656,45 @@ export default function PricingRuleForm() {
     applyTo: "all-products",
     priceType: "apply-price",
     amount: "0",
+    tiers: toTierInputs(DEFAULT_QUANTITY_TIERS),
+    compareAtMode: "original",
+    compareAtAmount: "",
+    roundingMode: "none",
+    minPrice: "",
+    maxDiscountPercent: "",
+    startsAt: "",
+    endsAt: "",
+    productSelectionMode: "products" as "products" | "variants",
     selectedProducts: [] as any[],
     selectedCollections: [] as any[],
     selectedTags: [] as string[],
+    conditionTree: null as ConditionTree | null,
+    excludedProducts: [] as any[],
+    excludedCollections: [] as any[],
+    excludedTags: [] as string[],
+    marketPrices: {} as Record<string, string>,
+    customerEligibility: "all",
+    customerTags: [] as string[],
+    customers: [] as SelectedCustomer[],
   });
 
   const {
-    fields: { name, priority, status, applyTo, priceType, amount },
+    fields: {
+      name,
+      priority,
+      status,
+      applyTo,
+      priceType,
+      amount,
+      compareAtMode,
+      compareAtAmount,
+      roundingMode,
+      minPrice,
+      maxDiscountPercent,
+      customerEligibility,
+      startsAt,
+      endsAt,
+    },
     submit,
     submitting,
     dirty,
@@ -417,6 +753,8 @@ export default function PricingRuleForm() {
       amount: useField({
         value: rule?.amount?.toString() || "0",
         validates: (value) => {
+          // Tiered rules take their discounts from the tier table
+          if (priceType.value === "quantity-tiers") return;
           const num = parseFloat(value);
           if (isNaN(num)) {
             return "Amount must be a number";
@@ -432,6 +770,67 @@ export default function PricingRuleForm() {
           }
         },
       }),
+      compareAtMode: useField({
+        value: rule?.compareAtMode || "original",
+        validates: (value) => {
+          if (!value) {
+            return "Compare-at price option is required";
+          }
+        },
+      }),
+      compareAtAmount: useField({
+        value: rule?.compareAtAmount?.toString() || "",
+        validates: (value) => {
+          if (compareAtMode.value !== "fixed") return;
+          const num = parseFloat(value);
+          if (isNaN(num) || num <= 0) {
+            return "Compare-at price must be greater than 0";
+          }
+        },
+      }),
+      roundingMode: useField(rule?.roundingMode || "none"),
+      minPrice: useField({
+        value: rule?.minPrice?.toString() || "",
+        validates: (value) => {
+          if (!value) return;
+          const num = parseFloat(value);
+          if (isNaN(num) || num < 0) {
+            return "Minimum price must be 0 or more";
+          }
+        },
+      }),
+      maxDiscountPercent: useField({
+        value: rule?.maxDiscountPercent?.toString() || "",
+        validates: (value) => {
+          if (!value) return;
+          const num = parseFloat(value);
+          if (isNaN(num) || num < 0 || num > 100) {
+            return "Maximum discount must be between 0 and 100";
+          }
+        },
+      }),
+      customerEligibility: useField(rule?.customerEligibility || "all"),
+      startsAt: useField({
+        value: "",
+        validates: (value) => {
+          if (value && isNaN(new Date(value).getTime())) {
+            return "Start date is not a valid date";
+          }
+        },
+      }),
+      endsAt: useField({
+        value: "",
+        validates: (value) => {
+          if (!value) return;
+          const end = new Date(value);
+          if (isNaN(end.getTime())) {
+            return "End date is not a valid date";
+          }
+          if (startsAt.value && end <= new Date(startsAt.value)) {
+            return "End date must be after the start date";
+          }
+        },
+      }),
     },
     onSubmit: async (fieldValues) => {
       if (
@@ -443,7 +842,10 @@ export default function PricingRuleForm() {
           errors: [
             {
               field: ["products"],
-              message: "Please select at least one product",
+              message:
+                productSelectionMode === "variants"
+                  ? "Please select at least one variant"
+                  : "Please select at least one product",
             },
           ],
         };
@@ -464,6 +866,76 @@ export default function PricingRuleForm() {
         };
       }
 
+      if (fieldValues.applyTo === "conditions") {
+        const error = validateConditionTree(conditionTree);
+        setConditionsError(error || undefined);
+        if (error) {
+          return {
+            status: "fail",
+            errors: [{ field: ["conditions"], message: error }],
+          };
+        }
+      }
+
+      if (fieldValues.priceType === "quantity-tiers") {
+        const error = validateQuantityTiers(toQuantityTiers(tierInputs));
+        setTiersError(error || undefined);
+        if (error) {
+          return {
+            status: "fail",
+            errors: [{ field: ["tiers"], message: error }],
+          };
+        }
+      }
+
+      const marketPricesInvalid = Object.values(marketPriceInputs).some(
+        (value) => value !== "" && !(parseFloat(value) > 0),
+      );
+      setMarketPricesError(
+        marketPricesInvalid ? "Market prices must be greater than 0" : undefined,
+      );
+      if (marketPricesInvalid) {
+        return {
+          status: "fail",
+          errors: [
+            {
+              field: ["marketPrices"],
+              message: "Market prices must be greater than 0",
+            },
+          ],
+        };
+      }
+
+      if (
+        fieldValues.customerEligibility === "customer-tags" &&
+        selectedCustomerTags.length === 0
+      ) {
+        return {
+          status: "fail",
+          errors: [
+            {
+              field: ["customerTags"],
+              message: "Please select at least one customer tag",
+            },
+          ],
+        };
+      }
+
+      if (
+        fieldValues.customerEligibility === "specific-customers" &&
+        selectedCustomers.length === 0
+      ) {
+        return {
+          status: "fail",
+          errors: [
+            {
+              field: ["customerIds"],
+              message: "Please select at least one customer",
+            },
+          ],
+        };
+      }
+
       if (fieldValues.applyTo === "product-tags" && selectedTags.length === 0) {
         return {
           status: "fail",
@@ -481,17 +953,70 @@ export default function PricingRuleForm() {
       formData.append("applyTo", fieldValues.applyTo);
       formData.append("priceType", fieldValues.priceType);
       formData.append("amount", fieldValues.amount);
+      formData.append(
+        "tiers",
+        fieldValues.priceType === "quantity-tiers"
+          ? JSON.stringify(toQuantityTiers(tierInputs))
+          : "",
+      );
+      formData.append("compareAtMode", fieldValues.compareAtMode);
+      formData.append(
+        "compareAtAmount",
+        fieldValues.compareAtMode === "fixed" ? fieldValues.compareAtAmount : "",
+      );
+      formData.append("roundingMode", fieldValues.roundingMode);
+      formData.append("minPrice", fieldValues.minPrice);
+      formData.append("maxDiscountPercent", fieldValues.maxDiscountPercent);
+      // datetime-local values are in the merchant's timezone; send them as UTC
+      formData.append(
+        "startsAt",
+        fieldValues.startsAt ? new Date(fieldValues.startsAt).toISOString() : "",
+      );
+      formData.append(
+        "endsAt",
+        fieldValues.endsAt ? new Date(fieldValues.endsAt).toISOString() : "",
+      );
 
+      // A rule targets either whole products or the picked variants
+      const isVariantMode = productSelectionMode === "variants";
       formData.append(
         "productIds",
-        JSON.stringify(selectedProducts.map((p) => p.id)),
+        JSON.stringify(isVariantMode ? [] : selectedProducts.map((p) => p.id)),
+      );
+      formData.append(
+        "variantIds",
+        JSON.stringify(isVariantMode ? getSelectedVariantIds(selectedProducts) : []),
       );
-      formData.append("variantIds", JSON.stringify([]));
       formData.append(
         "collectionIds",
         JSON.stringify(selectedCollections.map((c) => c.id)),
       );
       formData.append("tagIds", JSON.stringify(selectedTags));
+      formData.append(
+        "conditions",
+        fieldValues.applyTo === "conditions" ? JSON.stringify(conditionTree) : "",
+      );
+      formData.append(
+        "excludedProductIds",
+        JSON.stringify(excludedProducts.map((p) => p.id)),
+      );
+      formData.append(
+        "excludedCollectionIds",
+        JSON.stringify(excludedCollections.map((c) => c.id)),
+      );
+      formData.append("excludedTags", JSON.stringify(excludedTags));
+      formData.append("customerEligibility", fieldValues.customerEligibility);
+      formData.append("customerTags", JSON.stringify(selectedCustomerTags));
+      formData.append(
+        "customerIds",
+        JSON.stringify(selectedCustomers.map((customer) => customer.id)),
+      );
+      formData.append(
+        "marketPrices",
+        JSON.stringify(
+          toMarketPrices(marketPriceInputs, currencySettings.markets),
+        ),
+      );
 
       try {
         remixSubmit(formData, {
@@ -518,7 +1043,11 @@ export default function PricingRuleForm() {
 
   useEffect(() => {
     if (actionData) {
-      if ("success" in actionData && actionData.success) {
+      if ("restoredVersion" in actionData) {
+        // The reloaded rule resets the form
+        setSuccessToastActive(true);
+        setSaveWarnings([]);
+      } else if ("success" in actionData && actionData.success) {
         setOriginalState({
           name: name.value,
           priority: priority.value,
@@ -526,15 +1055,37 @@ export default function PricingRuleForm() {
           applyTo: applyTo.value,
           priceType: priceType.value,
           amount: amount.value,
+          tiers: [...tierInputs],
+          compareAtMode: compareAtMode.value,
+          compareAtAmount: compareAtAmount.value,
+          roundingMode: roundingMode.value,
+          minPrice: minPrice.value,
+          maxDiscountPercent: maxDiscountPercent.value,
+          startsAt: startsAt.value,
+          endsAt: endsAt.value,
+          productSelectionMode,
           selectedProducts: [...selectedProducts],
           selectedCollections: [...selectedCollections],
           selectedTags: [...selectedTags],
+          conditionTree,
+          excludedProducts: [...excludedProducts],
+          excludedCollections: [...excludedCollections],
+          excludedTags: [...excludedTags],
+          marketPrices: { ...marketPriceInputs },
+          customerEligibility: customerEligibility.value,
+          customerTags: [...selectedCustomerTags],
+          customers: [...selectedCustomers],
         });
 
         setSuccessToastActive(true);
-        setTimeout(() => {
-          navigate("/app/pricing_rule");
-        }, 2000);
+        setSaveWarnings([]);
+        // Stay on the page while overlaps are checked, see handleConflictsChecked
+        setConflictsJobId(actionData.conflictsJobId);
+        if (!actionData.conflictsJobId) {
+          setTimeout(() => {
+            navigate("/app/pricing_rule");
+          }, 2000);
+        }
       } else if ("errors" in actionData && actionData.errors) {
         setToastActive(true);
       }
@@ -548,13 +1099,67 @@ export default function PricingRuleForm() {
     applyTo.value,
     priceType.value,
     amount.value,
+    compareAtMode.value,
+    compareAtAmount.value,
+    roundingMode.value,
+    minPrice.value,
+    maxDiscountPercent.value,
+    startsAt.value,
+    endsAt.value,
+    productSelectionMode,
     selectedProducts,
     selectedCollections,
     selectedTags,
+    conditionTree,
+    excludedProducts,
+    excludedCollections,
+    excludedTags,
+    marketPriceInputs,
+    customerEligibility.value,
+    selectedCustomerTags,
+    selectedCustomers,
+    tierInputs,
   ]);
 
+  // Field objects change every render; the effect below reads them through
+  // this ref so it only re-runs when the loaded rule does
+  const ruleFields = {
+    name,
+    priority,
+    status,
+    applyTo,
+    priceType,
+    amount,
+    compareAtMode,
+    compareAtAmount,
+    roundingMode,
+    minPrice,
+    maxDiscountPercent,
+    customerEligibility,
+    startsAt,
+    endsAt,
+  };
+  const ruleFieldsRef = useRef(ruleFields);
+  ruleFieldsRef.current = ruleFields;
+
   useEffect(() => {
     if (rule && isEdit) {
+      const {
+        name,
+        priority,
+        status,
+        applyTo,
+        priceType,
+        amount,
+        compareAtMode,
+        compareAtAmount,
+        roundingMode,
+        minPrice,
+        maxDiscountPercent,
+        customerEligibility,
+        startsAt,
+        endsAt,
+      } = ruleFieldsRef.current;
       const initialProducts = rule.productDetails || [];
       const initialCollections = rule.collectionDetails || [];
       const initialTags = Array.isArray(rule.tagIds)
@@ -563,10 +1168,57 @@ export default function PricingRuleForm() {
           ? JSON.parse(rule.tagIds as string)
           : [];
 
+      const initialProductSelectionMode: "products" | "variants" =
+        getSelectedVariantIds(initialProducts).length > 0 ? "variants" : "products";
+
+      setProductSelectionMode(initialProductSelectionMode);
       setSelectedProducts(initialProducts);
       setSelectedCollections(initialCollections);
       setSelectedTags(initialTags);
 
+      const initialConditionTree = parseConditionTree(rule.conditions);
+      setConditionTree(initialConditionTree || createConditionTree());
+
+      const initialExcludedProducts = rule.excludedProductDetails || [];
+      const initialExcludedCollections = rule.excludedCollectionDetails || [];
+      const initialExcludedTags = parseJsonIds(rule.excludedTags);
+      setExcludedProducts(initialExcludedProducts);
+      setExcludedCollections(initialExcludedCollections);
+      setExcludedTags(initialExcludedTags);
+
+      const savedTiers = parseQuantityTiers(rule.tiers);
+      const initialTiers = toTierInputs(
+        savedTiers.length > 0 ? savedTiers : DEFAULT_QUANTITY_TIERS,
+      );
+      setTierInputs(initialTiers);
+
+      const initialMarketPrices = toMarketPriceInputs(rule.marketPrices);
+      setMarketPriceInputs(initialMarketPrices);
+
+      const initialCustomerTags = parseJsonIds(rule.customerTags);
+      const initialCustomers: SelectedCustomer[] = rule.customerDetails || [];
+      setSelectedCustomerTags(initialCustomerTags);
+      setSelectedCustomers(initialCustomers);
+
+      // Converted after mount so the inputs show the merchant's local time
+      const initialStartsAt = toDateTimeLocalValue(rule.startsAt);
+      const initialEndsAt = toDateTimeLocalValue(rule.endsAt);
+      startsAt.newDefaultValue(initialStartsAt);
+      endsAt.newDefaultValue(initialEndsAt);
+      // A restored version reloads the rule under the mounted form
+      name.newDefaultValue(rule.name || "");
+      priority.newDefaultValue(rule.priority?.toString() || "1");
+      status.newDefaultValue(rule.status || "inactive");
+      applyTo.newDefaultValue(rule.applyTo || "all-products");
+      priceType.newDefaultValue(rule.priceType || "apply-price");
+      amount.newDefaultValue(rule.amount?.toString() || "0");
+      compareAtMode.newDefaultValue(rule.compareAtMode || "original");
+      compareAtAmount.newDefaultValue(rule.compareAtAmount?.toString() || "");
+      roundingMode.newDefaultValue(rule.roundingMode || "none");
+      minPrice.newDefaultValue(rule.minPrice?.toString() || "");
+      maxDiscountPercent.newDefaultValue(rule.maxDiscountPercent?.toString() || "");
+      customerEligibility.newDefaultValue(rule.customerEligibility || "all");
+
       const newOriginalState = {
         name: rule.name || "",
         priority: rule.priority?.toString() || "1",
@@ -574,9 +1226,26 @@ export default function PricingRuleForm() {
         applyTo: rule.applyTo || "all-products",
         priceType: rule.priceType || "apply-price",
         amount: rule.amount?.toString() || "0",
+        tiers: initialTiers,
+        compareAtMode: rule.compareAtMode || "original",
+        compareAtAmount: rule.compareAtAmount?.toString() || "",
+        roundingMode: rule.roundingMode || "none",
+        minPrice: rule.minPrice?.toString() || "",
+        maxDiscountPercent: rule.maxDiscountPercent?.toString() || "",
+        startsAt: initialStartsAt,
+        endsAt: initialEndsAt,
+        productSelectionMode: initialProductSelectionMode,
         selectedProducts: initialProducts,
         selectedCollections: initialCollections,
         selectedTags: initialTags,
+        conditionTree: initialConditionTree,
+        excludedProducts: initialExcludedProducts,
+        excludedCollections: initialExcludedCollections,
+        excludedTags: initialExcludedTags,
+        marketPrices: initialMarketPrices,
+        customerEligibility: rule.customerEligibility || "all",
+        customerTags: initialCustomerTags,
+        customers: initialCustomers,
       };
 
       setOriginalState(newOriginalState);
@@ -588,9 +1257,26 @@ export default function PricingRuleForm() {
         applyTo: "all-products",
         priceType: "apply-price",
         amount: "0",
+        tiers: toTierInputs(DEFAULT_QUANTITY_TIERS),
+        compareAtMode: "original",
+        compareAtAmount: "",
+        roundingMode: "none",
+        minPrice: "",
+        maxDiscountPercent: "",
+        startsAt: "",
+        endsAt: "",
+        productSelectionMode: "products" as const,
         selectedProducts: [],
         selectedCollections: [],
         selectedTags: [],
+        conditionTree: null,
+        excludedProducts: [],
+        excludedCollections: [],
+        excludedTags: [],
+        marketPrices: {},
+        customerEligibility: "all",
+        customerTags: [],
+        customers: [],
       };
       setOriginalState(newOriginalState);
     }
@@ -603,11 +1289,22 @@ export default function PricingRuleForm() {
       status.value !== originalState.status ||
       applyTo.value !== originalState.applyTo ||
       priceType.value !== originalState.priceType ||
-      amount.value !== originalState.amount;
+      amount.value !== originalState.amount ||
+      compareAtMode.value !== originalState.compareAtMode ||
+      compareAtAmount.value !== originalState.compareAtAmount ||
+      roundingMode.value !== originalState.roundingMode ||
+      minPrice.value !== originalState.minPrice ||
+      maxDiscountPercent.value !== originalState.maxDiscountPercent ||
+      customerEligibility.value !== originalState.customerEligibility ||
+      startsAt.value !== originalState.startsAt ||
+      endsAt.value !== originalState.endsAt;
 
     const productIdsChanged =
+      productSelectionMode !== originalState.productSelectionMode ||
       JSON.stringify(selectedProducts.map((p) => p.id).sort()) !==
-      JSON.stringify(originalState.selectedProducts.map((p) => p.id).sort());
+        JSON.stringify(originalState.selectedProducts.map((p) => p.id).sort()) ||
+      JSON.stringify(getSelectedVariantIds(selectedProducts).sort()) !==
+        JSON.stringify(getSelectedVariantIds(originalState.selectedProducts).sort());
     const collectionIdsChanged =
       JSON.stringify(selectedCollections.map((c) => c.id).sort()) !==
       JSON.stringify(originalState.selectedCollections.map((c) => c.id).sort());
@@ -615,11 +1312,46 @@ export default function PricingRuleForm() {
       JSON.stringify(selectedTags.sort()) !==
       JSON.stringify(originalState.selectedTags.sort());
 
+    // A new, untouched tree only counts once the conditions option is chosen
+    const conditionsChanged =
+      applyTo.value === "conditions" &&
+      JSON.stringify(conditionTree) !== JSON.stringify(originalState.conditionTree);
+
+    const exclusionsChanged =
+      JSON.stringify(excludedProducts.map((p) => p.id).sort()) !==
+        JSON.stringify(originalState.excludedProducts.map((p) => p.id).sort()) ||
+      JSON.stringify(excludedCollections.map((c) => c.id).sort()) !==
+        JSON.stringify(originalState.excludedCollections.map((c) => c.id).sort()) ||
+      JSON.stringify([...excludedTags].sort()) !==
+        JSON.stringify([...originalState.excludedTags].sort());
+
+    const marketPricesChanged =
+      JSON.stringify(toMarketPrices(marketPriceInputs, currencySettings.markets)) !==
+      JSON.stringify(
+        toMarketPrices(originalState.marketPrices, currencySettings.markets),
+      );
+
+    const tiersChanged =
+      priceType.value === "quantity-tiers" &&
+      JSON.stringify(toQuantityTiers(tierInputs)) !==
+        JSON.stringify(toQuantityTiers(originalState.tiers));
+
+    const customersChanged =
+      JSON.stringify([...selectedCustomerTags].sort()) !==
+        JSON.stringify([...originalState.customerTags].sort()) ||
+      JSON.stringify(selectedCustomers.map((c) => c.id).sort()) !==
+        JSON.stringify(originalState.customers.map((c) => c.id).sort());
+
     const hasChanges =
       formFieldsChanged ||
+      marketPricesChanged ||
+      tiersChanged ||
+      customersChanged ||
       productIdsChanged ||
       collectionIdsChanged ||
-      tagsChanged;
+      tagsChanged ||
+      conditionsChanged ||
+      exclusionsChanged;
 
     return hasChanges;
   }, [
@@ -629,27 +1361,60 @@ export default function PricingRuleForm() {
     applyTo.value,
     priceType.value,
     amount.value,
+    compareAtMode.value,
+    compareAtAmount.value,
+    roundingMode.value,
+    minPrice.value,
+    maxDiscountPercent.value,
+    startsAt.value,
+    endsAt.value,
+    productSelectionMode,
     selectedProducts,
     selectedCollections,
     selectedTags,
+    conditionTree,
+    excludedProducts,
+    excludedCollections,
+    excludedTags,
+    marketPriceInputs,
+    currencySettings.markets,
+    customerEligibility.value,
+    selectedCustomerTags,
+    selectedCustomers,
+    tierInputs,
     originalState,
   ]);
 
   const getPriceInputConfig = () => {
     switch (priceType.value) {
       case "apply-price":
-        return { label: "Price", prefix: "$" };
+        return { label: "Price", prefix: currencySymbol };
       case "decrease-fixed":
-        return { label: "Amount", prefix: "$" };
+        return { label: "Amount", prefix: currencySymbol };
       case "decrease-percentage":
         return { label: "Percentage", prefix: "%" };
       default:
-        return { label: "Amount", prefix: "$" };
+        return { label: "Amount", prefix: currencySymbol };
     }
   };
 
   const priceInputConfig = getPriceInputConfig();
 
+  // Stay on the page when the saved rule overlaps others so they can be
+  // reviewed; otherwise go back to the list as after any save
+  const handleConflictsChecked = (job: JobSnapshot) => {
+    setConflictsJobId(null);
+    const warnings: string[] =
+      job.status === "completed" ? job.result?.warnings ?? [] : [];
+    if (job.status === "failed") {
+      console.error("Failed to check rule conflicts:", job.error);
+    }
+    setSaveWarnings(warnings);
+    if (warnings.length === 0) {
+      navigate("/app/pricing_rule");
+    }
+  };
+
   const handleNavigation = (path: string) => {
     if (hasUnsavedChanges()) {
       return false;
@@ -716,38 +1481,6 @@ export default function PricingRuleForm() {
     }
   }, [submit]);
 
-  const openResourcePicker = async () => {
-    try {
-      const currentSelectionIds = selectedProducts.map((p) => p.id);
-
-      const selection = await app.resourcePicker({
-        type: "product",
-        multiple: true,
-        selectionIds: currentSelectionIds,
-      });
-
-      if (selection) {
-        const selectedProductsData = selection.map((product: any) => {
-          const imageUrl =
-            product.images && product.images.length > 0
-              ? product.images[0].originalSrc
-              : null;
-
-          return {
-            id: product.id,
-            title: product.title,
-            handle: product.handle,
-            featuredImage: imageUrl ? { url: imageUrl } : null,
-          };
-        });
-
-        setSelectedProducts(selectedProductsData);
-      }
-    } catch (error) {
-      console.error("ResourcePicker error:", error);
-    }
-  };
-
   const handleAllProductsChange = () => {
     applyTo.onChange("all-products");
     setSelectedProducts([]);
@@ -766,8 +1499,10 @@ export default function PricingRuleForm() {
       rule.applyTo === "specific-products" &&
       originalState.selectedProducts.length > 0
     ) {
+      setProductSelectionMode(originalState.productSelectionMode);
       setSelectedProducts(originalState.selectedProducts);
     } else {
+      setProductSelectionMode("products");
       setSelectedProducts([]);
     }
   };
@@ -806,13 +1541,39 @@ export default function PricingRuleForm() {
     }
   };
 
-  const removeProduct = (productId: string) => {
-    setSelectedProducts(selectedProducts.filter((p) => p.id !== productId));
+  const handleConditionsChange = () => {
+    applyTo.onChange("conditions");
+    setSelectedProducts([]);
+    setSelectedCollections([]);
+    setSelectedTags([]);
   };
 
-  const filteredProducts = selectedProducts.filter((product) =>
-    product.title.toLowerCase().includes(searchValue.toLowerCase()),
-  );
+  const handleConditionTreeChange = (tree: ConditionTree) => {
+    setConditionTree(tree);
+    setConditionsError(undefined);
+  };
+
+  // Products and variants are picked differently, so switching starts over
+  const handleProductSelectionModeChange = (mode: "products" | "variants") => {
+    setProductSelectionMode(mode);
+    if (
+      isEdit &&
+      rule &&
+      rule.applyTo === "specific-products" &&
+      originalState.productSelectionMode === mode
+    ) {
+      setSelectedProducts(originalState.selectedProducts);
+    } else {
+      setSelectedProducts([]);
+    }
+  };
+
+  const compareAtOptions = [
+    { label: "Set to the original price (show a strikethrough)", value: "original" },
+    { label: "Leave unchanged", value: "unchanged" },
+    { label: "Clear compare-at price", value: "clear" },
+    { label: "Set to a fixed price", value: "fixed" },
+  ];
 
   const statusOptions = [
     { label: "Enable", value: "active" },
@@ -834,9 +1595,11 @@ export default function PricingRuleForm() {
   const successToastMarkup = successToastActive ? (
     <Toast
       content={
-        isEdit
-          ? "Pricing rule updated successfully!"
-          : "Pricing rule created successfully!"
+        actionData && "message" in actionData
+          ? actionData.message
+          : isEdit
+            ? "Pricing rule updated successfully!"
+            : "Pricing rule created successfully!"
       }
       onDismiss={() => setSuccessToastActive(false)}
     />
@@ -857,6 +1620,51 @@ export default function PricingRuleForm() {
         <Layout>
           <Layout.Section>
             <BlockStack gap="400">
+              {rule?.campaign && (
+                <Banner
+                  tone="info"
+                  title={`Part of the campaign "${rule.campaign.name}"`}
+                  action={{
+                    content: "View campaign",
+                    onAction: () => navigate(`/app/campaigns/${rule.campaign.id}`),
+                  }}
+                >
+                  <p>
+                    The campaign sets this rule's status and schedule. Change
+                    them on the campaign instead.
+                  </p>
+                </Banner>
+              )}
+              {conflictsJobId && (
+                <Card>
+                  <JobProgress
+                    jobId={conflictsJobId}
+                    label="Checking this rule's products for overlapping rules"
+                    onFinish={handleConflictsChecked}
+                  />
+                </Card>
+              )}
+              {saveWarnings.length > 0 && (
+                <Banner
+                  tone="warning"
+                  title="This rule overlaps with other running rules"
+                  action={{
+                    content: "View conflicts",
+                    onAction: () => navigate("/app/pricing_rule/conflicts"),
+                  }}
+                  secondaryAction={{
+                    content: "Back to pricing rules",
+                    onAction: () => navigate("/app/pricing_rule"),
+                  }}
+                  onDismiss={() => setSaveWarnings([])}
+                >
+                  <List>
+                    {saveWarnings.map((warning) => (
+                      <List.Item key={warning}>{warning}</List.Item>
+                    ))}
+                  </List>
+                </Banner>
+              )}
               <div style={{ display: "flex", justifyContent: "flex-end" }}>
                 <Button
                   variant="plain"
@@ -915,6 +1723,7 @@ export default function PricingRuleForm() {
                           value={priority.value}
                           onChange={priority.onChange}
                           error={priority.error}
+                          helpText="When several rules match a product, the lowest number wins"
                         />
 
                         <Select
@@ -924,7 +1733,33 @@ export default function PricingRuleForm() {
                           value={status.value}
                           onChange={status.onChange}
                           error={status.error}
+                          disabled={Boolean(rule?.campaign)}
                         />
+
+                        <FormLayout.Group>
+                          <TextField
+                            label="Start date"
+                            name="startsAt"
+                            type="datetime-local"
+                            autoComplete="off"
+                            value={startsAt.value}
+                            onChange={startsAt.onChange}
+                            error={startsAt.error}
+                            disabled={Boolean(rule?.campaign)}
+                            helpText="Leave empty to start immediately"
+                          />
+                          <TextField
+                            label="End date"
+                            name="endsAt"
+                            type="datetime-local"
+                            autoComplete="off"
+                            value={endsAt.value}
+                            onChange={endsAt.onChange}
+                            error={endsAt.error}
+                            disabled={Boolean(rule?.campaign)}
+                            helpText="Leave empty to run until disabled"
+                          />
+                        </FormLayout.Group>
                       </FormLayout>
                     </form>
                   </BlockStack>
@@ -967,170 +1802,41 @@ export default function PricingRuleForm() {
                         checked={applyTo.value === "product-tags"}
                         onChange={handleProductTagsChange}
                       />
+                      <RadioButton
+                        label="Products matching conditions"
+                        helpText="Combine collection, tag, vendor, product type and price conditions"
+                        id="conditions"
+                        name="apply-to"
+                        checked={applyTo.value === "conditions"}
+                        onChange={handleConditionsChange}
+                      />
                     </BlockStack>
 
                     {applyTo.value === "specific-products" && (
-                      <div style={{ marginTop: "16px" }}>
-                        {selectedProducts.length > 0 ? (
-                          <BlockStack gap="200">
-                            <Text variant="bodyMd" as="p">
-                              Selected products ({selectedProducts.length})
-                            </Text>
-
-                            <div
-                              style={{
-                                display: "flex",
-                                justifyContent: "space-between",
-                                alignItems: "center",
-                                gap: "12px",
-                              }}
-                            >
-                              <div style={{ flex: 1 }}>
-                                <TextField
-                                  label=""
-                                  placeholder="Search product"
-                                  value={searchValue}
-                                  onChange={(value) => setSearchValue(value)}
-                                  autoComplete="off"
-                                />
-                              </div>
-                              <Button
-                                variant="plain"
-                                onClick={openResourcePicker}
-                                size="slim"
-                              >
-                                Edit selection
-                              </Button>
-                            </div>
-                            {filteredProducts.map((product) => (
-                              <div key={product.id}>
-                                <div
-                                  style={{
-                                    display: "flex",
-                                    alignItems: "center",
-                                    padding: "12px 16px",
-                                    backgroundColor: "#f9fafb",
-                                    border: "1px solid #e1e3e5",
-                                    borderRadius: "8px",
-                                    gap: "12px",
-                                  }}
-                                >
-                                  <div
-                                    style={{
-                                      width: "32px",
-                                      height: "32px",
-                                      borderRadius: "4px",
-                                      flexShrink: 0,
-                                      backgroundColor: "#e1e3e5",
-                                      display: "flex",
-                                      alignItems: "center",
-                                      justifyContent: "center",
-                                    }}
-                                  >
-                                    {product.featuredImage?.url ||
-                                    product.featuredImage ? (
-                                      <img
-                                        src={
-                                          product.featuredImage?.url ||
-                                          product.featuredImage
-                                        }
-                                        alt={
-                                          product.featuredImage?.altText ||
-                                          product.title
-                                        }
-                                        style={{
-                                          width: "100%",
-                                          height: "100%",
-                                          objectFit: "cover",
-                                          borderRadius: "4px",
-                                        }}
-                                        onError={(e) => {
-                                          e.currentTarget.style.display =
-                                            "none";
-                                        }}
-                                      />
-                                    ) : (
-                                      <div
-                                        style={{
-                                          width: "16px",
-                                          height: "16px",
-                                          backgroundColor: "#8c9196",
-                                          borderRadius: "2px",
-                                        }}
-                                      />
-                                    )}
-                                  </div>
-                                  <div style={{ flex: 1, minWidth: 0 }}>
-                                    <Text
-                                      variant="bodyMd"
-                                      fontWeight="medium"
-                                      as="p"
-                                      truncate
-                                    >
-                                      {product.title}
-                                    </Text>
-                                  </div>
-                                  <Button
-                                    variant="plain"
-                                    tone="critical"
-                                    onClick={() => removeProduct(product.id)}
-                                    accessibilityLabel={`Remove ${product.title}`}
-                                    size="micro"
-                                  >
-                                    ✕
-                                  </Button>
-                                </div>
-                              </div>
-                            ))}
-
-                            {filteredProducts.length === 0 && searchValue && (
-                              <div
-                                style={{
-                                  padding: "16px",
-                                  textAlign: "center",
-                                  backgroundColor: "#f9fafb",
-                                  border: "1px solid #e1e3e5",
-                                  borderRadius: "8px",
-                                }}
-                              >
-                                <Text variant="bodyMd" tone="subdued" as="p">
-                                  No products found matching "{searchValue}"
-                                </Text>
-                              </div>
-                            )}
-                          </BlockStack>
-                        ) : (
-                          <div
-                            style={{
-                              padding: "20px",
-                              textAlign: "center",
-                              backgroundColor: "#f9fafb",
-                              border: "1px solid #e1e3e5",
-                              borderRadius: "8px",
-                            }}
-                          >
-                            <div
-                              style={{
-                                display: "flex",
-                                alignItems: "center",
-                                justifyContent: "center",
-                                gap: "12px",
-                              }}
-                            >
-                              <Text variant="bodyMd" tone="subdued" as="span">
-                                No products selected.
-                              </Text>
-                              <Button
-                                variant="plain"
-                                onClick={openResourcePicker}
-                                size="slim"
-                              >
-                                Browse
-                              </Button>
-                            </div>
-                          </div>
-                        )}
-                      </div>
+                      <BlockStack gap="200">
+                        <InlineStack gap="400">
+                          <RadioButton
+                            label="Whole products"
+                            id="select-products"
+                            name="product-selection-mode"
+                            checked={productSelectionMode === "products"}
+                            onChange={() => handleProductSelectionModeChange("products")}
+                          />
+                          <RadioButton
+                            label="Individual variants"
+                            id="select-variants"
+                            name="product-selection-mode"
+                            helpText="Target specific sizes, colours or other options"
+                            checked={productSelectionMode === "variants"}
+                            onChange={() => handleProductSelectionModeChange("variants")}
+                          />
+                        </InlineStack>
+                        <ProductPicker
+                          selectedProducts={selectedProducts}
+                          onProductsChange={setSelectedProducts}
+                          allowVariants={productSelectionMode === "variants"}
+                        />
+                      </BlockStack>
                     )}
 
                     {applyTo.value === "product-collections" && (
@@ -1146,6 +1852,119 @@ export default function PricingRuleForm() {
                         onTagsChange={setSelectedTags}
                       />
                     )}
+
+                    {applyTo.value === "conditions" && (
+                      <ConditionBuilder
+                        tree={conditionTree}
+                        onChange={handleConditionTreeChange}
+                        collectionTitles={rule?.conditionCollectionTitles}
+                        currencyCode={currencyCode}
+                        error={
+                          conditionsError ||
+                          (actionData && "errors" in actionData
+                            ? (actionData.errors as Record<string, string>).conditions
+                            : undefined)
+                        }
+                      />
+                    )}
+                  </BlockStack>
+                </div>
+              </Card>
+
+              {applyTo.value !== "specific-products" && (
+                <Card>
+                  <div style={{ padding: "20px" }}>
+                    <BlockStack gap="400">
+                      <BlockStack gap="100">
+                        <Text variant="headingMd" as="h2">
+                          Exclusions
+                        </Text>
+                        <Text variant="bodyMd" tone="subdued" as="p">
+                          Products matching any exclusion keep their price,
+                          such as gift cards or items that are already
+                          discounted.
+                        </Text>
+                      </BlockStack>
+
+                      <BlockStack gap="100">
+                        <Text variant="headingSm" as="h3">
+                          Excluded products
+                        </Text>
+                        <ProductPicker
+                          selectedProducts={excludedProducts}
+                          onProductsChange={setExcludedProducts}
+                        />
+                      </BlockStack>
+
+                      <BlockStack gap="100">
+                        <Text variant="headingSm" as="h3">
+                          Excluded collections
+                        </Text>
+                        <CollectionPicker
+                          selectedCollections={excludedCollections}
+                          onCollectionsChange={setExcludedCollections}
+                        />
+                      </BlockStack>
+
+                      <TagPicker
+                        label="Excluded tags"
+                        selectedTags={excludedTags}
+                        onTagsChange={setExcludedTags}
+                      />
+                    </BlockStack>
+                  </div>
+                </Card>
+              )}
+
+              <Card>
+                <div style={{ padding: "20px" }}>
+                  <BlockStack gap="400">
+                    <BlockStack gap="100">
+                      <Text variant="headingMd" as="h2">
+                        Customer eligibility
+                      </Text>
+                      <Text variant="bodyMd" tone="subdued" as="p">
+                        Rules for specific customers apply at checkout and
+                        cannot be published to catalog prices.
+                      </Text>
+                    </BlockStack>
+
+                    <BlockStack gap="200">
+                      {CUSTOMER_ELIGIBILITY_OPTIONS.map((option) => (
+                        <RadioButton
+                          key={option.value}
+                          label={option.label}
+                          id={`customer-eligibility-${option.value}`}
+                          name="customer-eligibility"
+                          checked={customerEligibility.value === option.value}
+                          onChange={() => customerEligibility.onChange(option.value)}
+                        />
+                      ))}
+                    </BlockStack>
+
+                    {customerEligibility.value === "customer-tags" && (
+                      <CustomerTagPicker
+                        selectedTags={selectedCustomerTags}
+                        onTagsChange={setSelectedCustomerTags}
+                        error={
+                          actionData && "errors" in actionData
+                            ? (actionData.errors as Record<string, string>).customerTags
+                            : undefined
+                        }
+                      />
+                    )}
+
+                    {customerEligibility.value === "specific-customers" && (
+                      <CustomerPicker
+                        selectedCustomers={selectedCustomers}
+                        onCustomersChange={setSelectedCustomers}
+                        error={
+                          actionData && "errors" in actionData
+                            ? (actionData.errors as Record<string, string>).customerIds
+                            : undefined
+                        }
+                      />
+                    )}
                   </BlockStack>
                 </div>
               </Card>
@@ -1181,22 +2000,149 @@ export default function PricingRuleForm() {
                           priceType.onChange("decrease-percentage")
                         }
                       />
+                      <RadioButton
+                        label="Discount by quantity in the cart (quantity breaks)"
+                        helpText="The storefront shows the single-item price and checkout discounts each quantity; these rules cannot be published to catalog prices"
+                        id="quantity-tiers"
+                        name="price-type"
+                        checked={priceType.value === "quantity-tiers"}
+                        onChange={() => priceType.onChange("quantity-tiers")}
+                      />
                     </BlockStack>
 
-                    <TextField
-                      label={priceInputConfig.label}
-                      name="amount"
-                      type="number"
-                      autoComplete="off"
-                      value={amount.value}
-                      onChange={amount.onChange}
-                      prefix={priceInputConfig.prefix}
-                      error={amount.error}
+                    {priceType.value === "quantity-tiers" ? (
+                      <QuantityTierEditor
+                        tiers={tierInputs}
+                        onChange={setTierInputs}
+                        error={
+                          tiersError ||
+                          (actionData && "errors" in actionData
+                            ? (actionData.errors as Record<string, string>).tiers
+                            : undefined)
+                        }
+                      />
+                    ) : (
+                      <TextField
+                        label={priceInputConfig.label}
+                        name="amount"
+                        type="number"
+                        autoComplete="off"
+                        value={amount.value}
+                        onChange={amount.onChange}
+                        prefix={priceInputConfig.prefix}
+                        error={amount.error}
+                      />
+                    )}
+
+                    <Select
+                      label="Compare-at price"
+                      name="compareAtMode"
+                      options={compareAtOptions}
+                      value={compareAtMode.value}
+                      onChange={compareAtMode.onChange}
+                      error={compareAtMode.error}
+                      helpText="What happens to the compare-at price of products this rule changes"
                     />
+
+                    {compareAtMode.value === "fixed" && (
+                      <TextField
+                        label="Compare-at price"
+                        name="compareAtAmount"
+                        type="number"
+                        autoComplete="off"
+                        value={compareAtAmount.value}
+                        onChange={compareAtAmount.onChange}
+                        prefix={currencySymbol}
+                        error={compareAtAmount.error}
+                      />
+                    )}
+
+                    <Select
+                      label="Rounding"
+                      name="roundingMode"
+                      options={ROUNDING_OPTIONS}
+                      value={roundingMode.value}
+                      onChange={roundingMode.onChange}
+                      helpText="Applied to the calculated price, e.g. 17.43 becomes 16.99 when ending in .99"
+                    />
+
+                    <FormLayout.Group>
+                      <TextField
+                        label="Minimum price"
+                        name="minPrice"
+                        type="number"
+                        autoComplete="off"
+                        value={minPrice.value}
+                        onChange={minPrice.onChange}
+                        prefix={currencySymbol}
+                        error={minPrice.error}
+                        helpText="Prices never drop below this amount"
+                      />
+                      <TextField
+                        label="Maximum discount"
+                        name="maxDiscountPercent"
+                        type="number"
+                        autoComplete="off"
+                        value={maxDiscountPercent.value}
+                        onChange={maxDiscountPercent.onChange}
+                        suffix="%"
+                        error={maxDiscountPercent.error}
+                        helpText="Caps how far below the original price a product can go"
+                      />
+                    </FormLayout.Group>
+
+                    {currencySettings.markets.length > 0 && (
+                      <BlockStack gap="200">
+                        <Text variant="headingSm" as="h3">
+                          Market prices
+                        </Text>
+                        <Text variant="bodySm" as="p" tone="subdued">
+                          Optional fixed prices for products this rule wins in other markets. Leave empty to use the market's converted price.
+                        </Text>
+                        <FormLayout>
+                          {currencySettings.markets.map((market) => (
+                            <TextField
+                              key={market.id}
+                              label={`${market.name} (${market.currencyCode})`}
+                              type="number"
+                              autoComplete="off"
+                              value={marketPriceInputs[market.id] || ""}
+                              onChange={(value) =>
+                                setMarketPriceInputs((prev) => ({
+                                  ...prev,
+                                  [market.id]: value,
+                                }))
+                              }
+                              prefix={getCurrencySymbol(market.currencyCode)}
+                              helpText={
+                                market.priceListId
+                                  ? undefined
+                                  : "This market has no price list, so the price is saved but not published"
+                              }
+                            />
+                          ))}
+                        </FormLayout>
+                        {(marketPricesError ||
+                          (actionData &&
+                            "errors" in actionData &&
+                            (actionData.errors as any)?.marketPrices)) && (
+                          <Text variant="bodySm" as="p" tone="critical">
+                            {marketPricesError ||
+                              (actionData as any).errors.marketPrices}
+                          </Text>
+                        )}
+                      </BlockStack>
+                    )}
                   </BlockStack>
                 </div>
               </Card>
 
+              {isEdit && currentSnapshot && (
+                <RuleVersions versions={versions} current={currentSnapshot} />
+              )}
+
+              {isEdit && <RuleHistory events={events} />}
+
               {/* Hidden submit button for form */}
               <div style={{ display: "none" }}>
                 <Button submit>Submit</Button>
@@ -1215,19 +2161,112 @@ export default function PricingRuleForm() {
               | "specific-products"
               | "product-collections"
               | "product-tags"
+              | "conditions"
+          }
+          selectedProductIds={
+            productSelectionMode === "products"
+              ? selectedProducts.map((p) => p.id)
+              : []
+          }
+          selectedVariantIds={
+            productSelectionMode === "variants"
+              ? getSelectedVariantIds(selectedProducts)
+              : []
           }
-          selectedProductIds={selectedProducts.map((p) => p.id)}
           selectedCollectionIds={selectedCollections.map((c) => c.id)}
           selectedTags={selectedTags}
+          conditions={applyTo.value === "conditions" ? conditionTree : null}
+          excludedProductIds={
+            applyTo.value !== "specific-products"
+              ? excludedProducts.map((p) => p.id)
+              : []
+          }
+          excludedCollectionIds={
+            applyTo.value !== "specific-products"
+              ? excludedCollections.map((c) => c.id)
+              : []
+          }
+          excludedTags={applyTo.value !== "specific-products" ? excludedTags : []}
           priceType={
             priceType.value as
               | "apply-price"
               | "decrease-fixed"
               | "decrease-percentage"
+              | "quantity-tiers"
           }
           amount={amount.value}
+          tiers={
+            priceType.value === "quantity-tiers"
+              ? toQuantityTiers(tierInputs)
+              : []
+          }
+          compareAtMode={
+            compareAtMode.value as "original" | "unchanged" | "clear" | "fixed"
+          }
+          compareAtAmount={compareAtAmount.value}
+          roundingMode={roundingMode.value}
+          minPrice={minPrice.value}
+          maxDiscountPercent={maxDiscountPercent.value}
+          marketPrices={toMarketPrices(marketPriceInputs, currencySettings.markets)}
+          markets={currencySettings.markets}
+          currencyCode={currencyCode}
+          customerEligibility={customerEligibility.value}
+          customerTags={selectedCustomerTags}
+          customerIds={selectedCustomers.map((customer) => customer.id)}
+          ruleId={isEdit ? rule?.id : undefined}
+          ruleName={name.value}
+          priority={priority.value}
         />
       </Page>
     </Frame>
   );
 }
+
+// Variant IDs picked in variant mode, grouped under their products
+function getSelectedVariantIds(products: any[]): string[] {
+  return products.flatMap((product) =>
+    (product.variants || []).map((variant: any) => variant.id),
+  );
+}
+
+// JSON ID columns may come back as an array or a serialized array
+function parseJsonIds(value: unknown): string[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+// Typed market prices as stored on the rule; empty inputs are dropped
+function toMarketPrices(
+  inputs: Record<string, string>,
+  markets: { id: string; currencyCode: string }[],
+): MarketPrice[] {
+  return markets
+    .filter((market) => (inputs[market.id] || "").trim() !== "")
+    .map((market) => ({
+      marketId: market.id,
+      currencyCode: market.currencyCode,
+      price: parseFloat(inputs[market.id]),
+    }));
+}
+
+function toMarketPriceInputs(value: unknown): Record<string, string> {
+  const inputs: Record<string, string> = {};
+  for (const marketPrice of parseMarketPrices(value)) {
+    inputs[marketPrice.marketId] = marketPrice.price.toString();
+  }
+  return inputs;
+}
+
+// Posted ID lists are stored as null when empty
+function parseJsonIdsOrNull(value: string | null): string[] | null {
+  const ids = parseJsonIds(value);
+  return ids.length > 0 ? ids : null;
+}
@@ -0,0 +1,218 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import {
+  useLoaderData,
+  useNavigate,
+  useNavigation,
+  useRevalidator,
+  useSubmit,
+} from "@remix-run/react";
+import { useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Badge,
+  Text,
+  EmptyState,
+  Tabs,
+  InlineStack,
+  BlockStack,
+  Link,
+  Banner,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { enqueueJob, getActiveJobs, getLatestJob } from "../services/jobs.server";
+import {
+  CONFLICTS_JOB_TYPE,
+  type RuleConflict,
+} from "../services/pricing-conflicts.server";
+import { JobProgress } from "../components/JobProgress";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const [activeJob] = await getActiveJobs(session.shop, [CONFLICTS_JOB_TYPE]);
+  const lastRun = await getLatestJob(session.shop, CONFLICTS_JOB_TYPE, ["completed"]);
+  const lastFinished = await getLatestJob(session.shop, CONFLICTS_JOB_TYPE, ["completed", "failed"]);
+  const result = lastRun?.result as { conflicts: RuleConflict[] } | null | undefined;
+
+  return json({
+    activeJobId: activeJob?.id ?? null,
+    analysedAt: lastRun?.finishedAt?.toISOString() ?? null,
+    conflicts: result?.conflicts ?? [],
+    error: lastFinished?.status === "failed"
+      ? "The last analysis failed. Please try again."
+      : null,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  if (formData.get("intent") !== "analyse") {
+    return json({ success: false, error: "Invalid action" }, { status: 400 });
+  }
+
+  // One analysis at a time; a running one already covers the request
+  const [activeJob] = await getActiveJobs(session.shop, [CONFLICTS_JOB_TYPE]);
+  const job = activeJob ?? (await enqueueJob(session.shop, CONFLICTS_JOB_TYPE));
+  return json({ success: true, jobId: job.id });
+};
+
+const TABS = [
+  { id: "all", content: "All overlaps" },
+  { id: "ties", content: "Equal priority" },
+];
+
+export default function PricingRuleConflicts() {
+  const { activeJobId, analysedAt, conflicts, error } = useLoaderData<typeof loader>();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const revalidator = useRevalidator();
+  const submit = useSubmit();
+  const [selectedTab, setSelectedTab] = useState(0);
+
+  const tieCount = conflicts.filter((conflict) => conflict.tie).length;
+  const visibleConflicts = selectedTab === 1
+    ? conflicts.filter((conflict) => conflict.tie)
+    : conflicts;
+
+  const analyse = () => submit({ intent: "analyse" }, { method: "post" });
+
+  const rowMarkup = visibleConflicts.map((conflict, index) => (
+    <IndexTable.Row id={conflict.productId} key={conflict.productId} position={index}>
+      <IndexTable.Cell>
+        <Text variant="bodyMd" fontWeight="bold" as="span">
+          {conflict.productTitle}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <BlockStack gap="100">
+          {conflict.rules.map((rule) => (
+            <InlineStack key={rule.id} gap="200" blockAlign="center">
+              <Link url={`/app/pricing_rule/${rule.id}`} removeUnderline>
+                {rule.name}
+              </Link>
+              <Text variant="bodySm" tone="subdued" as="span">
+                priority {rule.priority}
+              </Text>
+            </InlineStack>
+          ))}
+        </BlockStack>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text variant="bodyMd" as="span">
+          {conflict.winner.name}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        {conflict.tie ? (
+          <Badge tone="warning">Same priority</Badge>
+        ) : (
+          <Badge>Resolved by priority</Badge>
+        )}
+      </IndexTable.Cell>
+    </IndexTable.Row>
+  ));
+
+  return (
+    <Page
+      title="Rule conflicts"
+      subtitle="Products matched by more than one running rule"
+      backAction={{
+        content: "Back to pricing rules",
+        onAction: () => navigate("/app/pricing_rule"),
+      }}
+      primaryAction={{
+        content: analysedAt ? "Analyse again" : "Analyse conflicts",
+        onAction: analyse,
+        loading: navigation.state === "submitting",
+        disabled: activeJobId !== null,
+      }}
+    >
+      <Layout>
+        {activeJobId && (
+          <Layout.Section>
+            <Card>
+              <JobProgress
+                jobId={activeJobId}
+                label="Checking every product against the running rules"
+                onFinish={() => revalidator.revalidate()}
+              />
+            </Card>
+          </Layout.Section>
+        )}
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+        {analysedAt && (
+          <Layout.Section>
+            <Text variant="bodySm" tone="subdued" as="p">
+              {`Last analysed ${new Date(analysedAt).toLocaleString(undefined, {
+                dateStyle: "medium",
+                timeStyle: "short",
+              })}. Rules or products changed since then are not reflected until you analyse again.`}
+            </Text>
+          </Layout.Section>
+        )}
+        <Layout.Section>
+          <Card padding="0">
+            <Tabs
+              tabs={TABS.map((tab) => ({
+                ...tab,
+                content: tab.id === "ties"
+                  ? `${tab.content} (${tieCount})`
+                  : `${tab.content} (${conflicts.length})`,
+              }))}
+              selected={selectedTab}
+              onSelect={setSelectedTab}
+            />
+            {visibleConflicts.length > 0 ? (
+              <IndexTable
+                resourceName={{ singular: "product", plural: "products" }}
+                itemCount={visibleConflicts.length}
+                headings={[
+                  { title: "Product" },
+                  { title: "Matching rules" },
+                  { title: "Wins" },
+                  { title: "Outcome" },
+                ]}
+                selectable={false}
+              >
+                {rowMarkup}
+              </IndexTable>
+            ) : (
+              <EmptyState
+                heading={analysedAt ? "No conflicts" : "Conflicts not analysed yet"}
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <p>
+                  {!analysedAt
+                    ? "Analyse conflicts to check every product against the running rules."
+                    : selectedTab === 1
+                      ? "No product is matched by rules that share a priority."
+                      : "Every product is matched by at most one running rule."}
+                </p>
+              </EmptyState>
+            )}
+          </Card>
+        </Layout.Section>
+        {tieCount > 0 && (
+          <Layout.Section>
+            <Text variant="bodySm" tone="subdued" as="p">
+              When matching rules share a priority, the most recently created rule wins.
+              Give the rule that should win a lower priority number.
+            </Text>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
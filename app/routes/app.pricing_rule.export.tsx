@@ -0,0 +1,45 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { exportPricingRulesCsv } from "../services/pricing-csv.server";
+import { exportPricingRuleBundle } from "../services/pricing-bundle.server";
+
+// Resource route: the rule list downloads the shop's rules as CSV, or as a
+// JSON bundle for another shop (?format=bundle, optionally &ids=a,b)
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const dbShop = await prisma.shop.findUnique({
+    where: { shop: session.shop },
+  });
+  if (!dbShop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const date = new Date().toISOString().slice(0, 10);
+
+  if (url.searchParams.get("format") === "bundle") {
+    const ids = url.searchParams.get("ids");
+    const bundle = await exportPricingRuleBundle(
+      dbShop.shop,
+      dbShop.accessToken,
+      ids ? ids.split(",") : undefined,
+    );
+    return new Response(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="pricing-rules-${date}.json"`,
+      },
+    });
+  }
+
+  const csv = await exportPricingRulesCsv(dbShop.shop, dbShop.accessToken);
+
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="pricing-rules-${date}.csv"`,
+    },
+  });
+};
@@ -0,0 +1,381 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import {
+  useActionData,
+  useNavigate,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import { useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Badge,
+  Text,
+  Banner,
+  BlockStack,
+  InlineStack,
+  DropZone,
+  Button,
+  List,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { planPricingRuleImport } from "../services/pricing-csv.server";
+import {
+  isPricingRuleBundle,
+  planPricingRuleBundleImport,
+} from "../services/pricing-bundle.server";
+import {
+  IMPORT_JOB_TYPE,
+  type ImportPlan,
+  type ImportRowAction,
+} from "../services/pricing-transfer.server";
+import { enqueueJob } from "../services/jobs.server";
+import { FIELD_LABELS, formatValue } from "../components/RuleHistory";
+import { JobProgress, type JobSnapshot } from "../components/JobProgress";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await authenticate.admin(request);
+  return json({});
+};
+
+// Rule fields stay on the server; the preview only needs the outcome per row
+const toPreview = (plan: ImportPlan, format: "csv" | "bundle") => ({
+  format,
+  errors: plan.errors,
+  rows: plan.rows.map((row) => ({
+    row: row.row,
+    ruleId: row.ruleId,
+    name: row.name,
+    action: row.action,
+    errors: row.errors,
+    unresolved: row.unresolved,
+    changes: row.changes,
+  })),
+});
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const dbShop = await prisma.shop.findUnique({
+    where: { shop: session.shop },
+  });
+  if (!dbShop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+  const file = (formData.get("file") as string) || "";
+
+  try {
+    if (intent === "apply") {
+      // A retry could create the file's new rules twice, so the job runs once
+      const job = await enqueueJob(
+        dbShop.shop,
+        IMPORT_JOB_TYPE,
+        { file, sessionId: session.id },
+        { maxAttempts: 1 },
+      );
+      return json({ preview: null, jobId: job.id, error: null });
+    }
+
+    const format = isPricingRuleBundle(file) ? "bundle" : "csv";
+    const plan = format === "bundle"
+      ? await planPricingRuleBundleImport(dbShop.shop, dbShop.accessToken, file)
+      : await planPricingRuleImport(dbShop.shop, dbShop.accessToken, file);
+
+    return json({ preview: toPreview(plan, format), jobId: null, error: null });
+  } catch (error) {
+    console.error("Failed to import pricing rules:", error);
+    return json(
+      {
+        preview: null,
+        jobId: null,
+        error: "The file could not be imported. Please try again.",
+      },
+      { status: 500 },
+    );
+  }
+};
+
+const OUTCOMES: Record<
+  ImportRowAction,
+  { label: string; tone?: "success" | "info" | "critical" }
+> = {
+  create: { label: "New", tone: "success" },
+  update: { label: "Update", tone: "info" },
+  unchanged: { label: "Unchanged" },
+  invalid: { label: "Error", tone: "critical" },
+};
+
+export default function ImportPricingRules() {
+  const actionData = useActionData<typeof action>();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [file, setFile] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [finishedJob, setFinishedJob] = useState<JobSnapshot | null>(null);
+
+  const busyIntent =
+    navigation.state !== "idle" ? navigation.formData?.get("intent") : null;
+  const preview = actionData?.preview;
+  // A new file invalidates the preview of the previous one
+  const [previewedFile, setPreviewedFile] = useState("");
+  const currentPreview = preview && previewedFile === file ? preview : null;
+
+  const importJobId = actionData?.jobId ?? null;
+  const importJob = finishedJob && finishedJob.id === importJobId ? finishedJob : null;
+  const runningJobId = importJobId && !importJob ? importJobId : null;
+  const applied = importJob?.status === "completed"
+    ? (importJob.result as { created: number; updated: number })
+    : null;
+  const error = actionData?.error || (importJob?.status === "failed" ? importJob.error : null);
+
+  const handleDrop = async (_files: File[], acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+    setFileName(file.name);
+    setFile(await file.text());
+  };
+
+  const send = (intent: "preview" | "apply") => {
+    setPreviewedFile(file);
+    submit({ intent, file }, { method: "post" });
+  };
+
+  const counts = (currentPreview?.rows || []).reduce(
+    (totals, row) => ({ ...totals, [row.action]: totals[row.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, invalid: 0 } as Record<ImportRowAction, number>,
+  );
+  const pendingCount = counts.create + counts.update;
+  const canApply =
+    currentPreview !== null &&
+    runningJobId === null &&
+    currentPreview.errors.length === 0 &&
+    counts.invalid === 0 &&
+    pendingCount > 0;
+
+  // References that exist on the source shop but not on this one
+  const unresolved = [
+    ...new Set((currentPreview?.rows || []).flatMap((row) => row.unresolved)),
+  ];
+
+  const rowMarkup = (currentPreview?.rows || []).map((row, index) => {
+    const outcome = OUTCOMES[row.action];
+    const changes = Object.entries(row.changes);
+    return (
+      <IndexTable.Row id={String(row.row)} key={row.row} position={index}>
+        <IndexTable.Cell>
+          <Text variant="bodyMd" as="span">
+            {row.row}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Text variant="bodyMd" fontWeight="bold" as="span">
+            {row.name || "Untitled"}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Badge tone={outcome.tone}>{outcome.label}</Badge>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          {row.action === "invalid" ? (
+            <BlockStack gap="100">
+              {[...row.errors, ...row.unresolved].map((error) => (
+                <Text key={error} variant="bodySm" tone="critical" as="p">
+                  {error}
+                </Text>
+              ))}
+            </BlockStack>
+          ) : row.action === "update" ? (
+            <BlockStack gap="100">
+              {changes.map(([field, change]) => (
+                <Text key={field} variant="bodySm" as="p">
+                  <Text as="span" fontWeight="semibold">
+                    {FIELD_LABELS[field] || field}:
+                  </Text>{" "}
+                  {formatValue(change.from)} → {formatValue(change.to)}
+                </Text>
+              ))}
+            </BlockStack>
+          ) : null}
+        </IndexTable.Cell>
+      </IndexTable.Row>
+    );
+  });
+
+  return (
+    <Page
+      title="Import pricing rules"
+      subtitle="Create and update rules from a CSV file or a rule bundle"
+      backAction={{
+        content: "Back to pricing rules",
+        onAction: () => navigate("/app/pricing_rule"),
+      }}
+    >
+      <Layout>
+        {runningJobId && (
+          <Layout.Section>
+            <Card>
+              <JobProgress
+                jobId={runningJobId}
+                label="Importing pricing rules"
+                onFinish={setFinishedJob}
+              />
+            </Card>
+          </Layout.Section>
+        )}
+
+        {applied && (
+          <Layout.Section>
+            <Banner
+              tone="success"
+              title="Import complete"
+              action={{
+                content: "View pricing rules",
+                onAction: () => navigate("/app/pricing_rule"),
+              }}
+            >
+              <p>
+                {applied.created} rule(s) created and{" "}
+                {applied.updated} rule(s) updated.
+              </p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text variant="bodyMd" as="p">
+                Start from a CSV export of your rules. Rows with an ID update that
+                rule; rows without one create a new rule. Products and
+                collections are listed by handle, variants as
+                &quot;product-handle/Variant title&quot;, and lists are separated
+                with &quot;|&quot;.
+              </Text>
+              <Text variant="bodyMd" as="p">
+                To copy rules from another shop, import a bundle exported there.
+                Bundled rules update the rule with the same name on this shop,
+                or are created if there is none. Products, collections,
+                customers and markets must exist here with the same handles,
+                emails and names.
+              </Text>
+              <DropZone
+                accept=".csv,.json,text/csv,application/json"
+                type="file"
+                allowMultiple={false}
+                onDrop={handleDrop}
+              >
+                {fileName ? (
+                  <div style={{ padding: "16px", textAlign: "center" }}>
+                    <Text variant="bodyMd" as="p">
+                      {fileName}
+                    </Text>
+                  </div>
+                ) : (
+                  <DropZone.FileUpload actionHint="Accepts .csv and .json files" />
+                )}
+              </DropZone>
+              <InlineStack align="end" gap="200">
+                <Button
+                  onClick={() => send("preview")}
+                  disabled={!file}
+                  loading={busyIntent === "preview"}
+                >
+                  Preview changes
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={() => send("apply")}
+                  disabled={!canApply}
+                  loading={busyIntent === "apply"}
+                >
+                  {`Import ${pendingCount} rule${pendingCount !== 1 ? "s" : ""}`}
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {currentPreview && currentPreview.errors.length > 0 && (
+          <Layout.Section>
+            <Banner tone="critical" title="The file cannot be imported">
+              <List>
+                {currentPreview.errors.map((error) => (
+                  <List.Item key={error}>{error}</List.Item>
+                ))}
+              </List>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {unresolved.length > 0 && (
+          <Layout.Section>
+            <Banner tone="warning" title="Some references could not be found on this shop">
+              <List>
+                {unresolved.map((reference) => (
+                  <List.Item key={reference}>{reference}</List.Item>
+                ))}
+              </List>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {currentPreview && currentPreview.rows.length > 0 && (
+          <Layout.Section>
+            <Card padding="0">
+              <BlockStack gap="200">
+                <div style={{ padding: "16px 16px 0" }}>
+                  <InlineStack gap="200">
+                    <Badge tone="success">{`${counts.create} new`}</Badge>
+                    <Badge tone="info">{`${counts.update} updated`}</Badge>
+                    <Badge>{`${counts.unchanged} unchanged`}</Badge>
+                    {counts.invalid > 0 && (
+                      <Badge tone="critical">{`${counts.invalid} with errors`}</Badge>
+                    )}
+                  </InlineStack>
+                </div>
+                <IndexTable
+                  resourceName={{ singular: "row", plural: "rows" }}
+                  itemCount={currentPreview.rows.length}
+                  headings={[
+                    { title: currentPreview.format === "bundle" ? "#" : "Row" },
+                    { title: "Rule" },
+                    { title: "Outcome" },
+                    { title: "Details" },
+                  ]}
+                  selectable={false}
+                >
+                  {rowMarkup}
+                </IndexTable>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {counts.invalid > 0 && (
+          <Layout.Section>
+            <Text variant="bodySm" tone="subdued" as="p">
+              Nothing is imported while any row has errors. Fix the file and
+              preview it again.
+            </Text>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
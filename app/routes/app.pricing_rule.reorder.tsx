@@ -0,0 +1,287 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigate,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import { useEffect, useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Badge,
+  Text,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Button,
+  Icon,
+  EmptyState,
+} from "@shopify/polaris";
+import { ArrowUpIcon, ArrowDownIcon, DragHandleIcon } from "@shopify/polaris-icons";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import {
+  MAX_PRIORITY,
+  getReorderPriorities,
+  getRulesInPrecedenceOrder,
+  reorderPricingRules,
+} from "../services/pricing-priority.server";
+import { getRuleEffectiveStatus } from "../services/pricing.server";
+import {
+  STATUS_BADGES,
+  parseRuleListQuery,
+  toRuleListSearch,
+} from "../services/pricing-rule-list";
+import { getRuleListWhere } from "../services/pricing-rule-list.server";
+
+// Opened from the rule list with its search and filters, which narrow the
+// rules being reordered
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const listQuery = parseRuleListQuery(new URL(request.url).searchParams);
+  const now = new Date();
+  const rules = await getRulesInPrecedenceOrder(
+    session.shop,
+    getRuleListWhere(session.shop, listQuery, now),
+  );
+  const totalCount = await prisma.pricingRule.count({
+    where: { shop: session.shop, deletedAt: null },
+  });
+  const isWholeList = rules.length === totalCount;
+
+  return json({
+    rules: rules.map((rule) => ({
+      id: rule.id,
+      name: rule.name,
+      priority: rule.priority,
+      effectiveStatus: getRuleEffectiveStatus(rule, now),
+    })),
+    isWholeList,
+    // Do not depend on the order, so the page can show them while dragging
+    priorities: getReorderPriorities(rules.map((rule) => rule.priority), isWholeList),
+    search: toRuleListSearch(listQuery),
+  });
+};
+
+// Takes rule IDs of the shop, in the new order, as a JSON list in ruleIds
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  let ruleIds: unknown;
+  try {
+    ruleIds = JSON.parse((formData.get("ruleIds") as string) || "");
+  } catch {
+    ruleIds = null;
+  }
+  if (!Array.isArray(ruleIds) || !ruleIds.every((id) => typeof id === "string")) {
+    return json(
+      { success: false, message: "ruleIds must be a list of rule IDs" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await reorderPricingRules(session, ruleIds);
+    if ("error" in result) {
+      return json({ success: false, message: result.error }, { status: 409 });
+    }
+    return json({
+      success: true,
+      message: result.updated > 0
+        ? `Priorities updated for ${result.updated} rule(s)`
+        : "The order has not changed",
+    });
+  } catch (error) {
+    console.error("Failed to reorder pricing rules:", error);
+    return json(
+      { success: false, message: "Rules could not be reordered. Please try again." },
+      { status: 500 },
+    );
+  }
+};
+
+export default function ReorderPricingRules() {
+  const { rules, isWholeList, priorities, search } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [order, setOrder] = useState(rules.map((rule) => rule.id));
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  // Saving reloads the rules with their new priorities
+  useEffect(() => {
+    setOrder(rules.map((rule) => rule.id));
+  }, [rules]);
+
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+  const orderedRules = order.map((id) => rulesById.get(id)!).filter(Boolean);
+  // Tied or gapped priorities are renumbered even when nothing was moved
+  const hasChanges = priorities !== null &&
+    orderedRules.some((rule, index) => rule.priority !== priorities[index]);
+  const listUrl = search ? `/app/pricing_rule?${search}` : "/app/pricing_rule";
+  const isMoved = order.some((id, index) => id !== rules[index]?.id);
+  const isSaving = navigation.state === "submitting";
+
+  const moveTo = (ruleId: string, index: number) => {
+    setOrder((current) => {
+      const next = current.filter((id) => id !== ruleId);
+      next.splice(Math.max(0, Math.min(index, next.length)), 0, ruleId);
+      return next;
+    });
+  };
+
+  const save = () => {
+    submit({ ruleIds: JSON.stringify(order) }, { method: "post" });
+  };
+
+  return (
+    <Page
+      title="Reorder pricing rules"
+      subtitle="Drag rules into the order they should win in; the top rule wins when several match a product"
+      backAction={{
+        content: "Back to pricing rules",
+        onAction: () => navigate(listUrl),
+      }}
+      primaryAction={{
+        content: "Save order",
+        onAction: save,
+        disabled: !hasChanges,
+        loading: isSaving,
+      }}
+      secondaryActions={[
+        {
+          content: "Reset",
+          onAction: () => setOrder(rules.map((rule) => rule.id)),
+          disabled: !isMoved || isSaving,
+        },
+      ]}
+    >
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {!isWholeList && (
+          <Layout.Section>
+            <Banner
+              tone="info"
+              action={{ content: "Back to the filtered list", onAction: () => navigate(listUrl) }}
+            >
+              <p>
+                Only the rules matching the rule list's search and filters are
+                shown. They are renumbered within the priorities they hold now,
+                so the other rules keep their place.
+              </p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {priorities === null && (
+          <Layout.Section>
+            <Banner tone="warning">
+              <p>
+                Priorities go up to {MAX_PRIORITY}, so these rules cannot each
+                get their own. Filter the rule list to fewer rules and reorder
+                those.
+              </p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            {orderedRules.length === 0 ? (
+              <EmptyState
+                heading="No pricing rules yet"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <p>Create pricing rules before putting them in order.</p>
+              </EmptyState>
+            ) : (
+              <BlockStack gap="200">
+                <Text variant="bodySm" tone="subdued" as="p">
+                  {isWholeList
+                    ? "Saving numbers the rules 1, 2, 3… from the top, so no two rules share a priority."
+                    : "Saving gives the top rule the lowest of these rules' priorities, so no two of them share a priority."}
+                </Text>
+                {orderedRules.map((rule, index) => (
+                  <div
+                    key={rule.id}
+                    draggable={!isSaving}
+                    onDragStart={(event) => {
+                      event.dataTransfer.effectAllowed = "move";
+                      setDraggedId(rule.id);
+                    }}
+                    onDragOver={(event) => {
+                      event.preventDefault();
+                      if (draggedId && draggedId !== rule.id) moveTo(draggedId, index);
+                    }}
+                    onDrop={(event) => event.preventDefault()}
+                    onDragEnd={() => setDraggedId(null)}
+                    style={{
+                      padding: "8px 12px",
+                      borderRadius: "8px",
+                      border: "1px solid #e3e3e3",
+                      background: draggedId === rule.id ? "#f1f1f1" : "#ffffff",
+                      cursor: "grab",
+                    }}
+                  >
+                    <InlineStack align="space-between" blockAlign="center" wrap={false}>
+                      <InlineStack gap="300" blockAlign="center" wrap={false}>
+                        <Icon source={DragHandleIcon} tone="subdued" />
+                        <Text variant="bodyMd" fontWeight="semibold" as="span">
+                          {priorities ? priorities[index] : rule.priority}
+                        </Text>
+                        <Text variant="bodyMd" as="span">
+                          {rule.name}
+                        </Text>
+                        <Badge tone={STATUS_BADGES[rule.effectiveStatus]?.tone}>
+                          {STATUS_BADGES[rule.effectiveStatus]?.label || rule.effectiveStatus}
+                        </Badge>
+                        {priorities && rule.priority !== priorities[index] && (
+                          <Text variant="bodySm" tone="subdued" as="span">
+                            priority {rule.priority} → {priorities[index]}
+                          </Text>
+                        )}
+                      </InlineStack>
+                      <InlineStack gap="100" wrap={false}>
+                        <Button
+                          icon={ArrowUpIcon}
+                          variant="tertiary"
+                          size="slim"
+                          accessibilityLabel={`Move ${rule.name} up`}
+                          onClick={() => moveTo(rule.id, index - 1)}
+                          disabled={index === 0 || isSaving}
+                        />
+                        <Button
+                          icon={ArrowDownIcon}
+                          variant="tertiary"
+                          size="slim"
+                          accessibilityLabel={`Move ${rule.name} down`}
+                          onClick={() => moveTo(rule.id, index + 1)}
+                          disabled={index === orderedRules.length - 1 || isSaving}
+                        />
+                      </InlineStack>
+                    </InlineStack>
+                  </div>
+                ))}
+              </BlockStack>
+            )}
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
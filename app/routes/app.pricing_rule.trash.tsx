@@ -0,0 +1,301 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigate,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import { useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Text,
+  Banner,
+  EmptyState,
+  Button,
+  ButtonGroup,
+  Modal,
+  Select,
+  BlockStack,
+  useIndexResourceState,
+} from "@shopify/polaris";
+import { DeleteIcon, UndoIcon } from "@shopify/polaris-icons";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import {
+  TRASH_RETENTION_OPTIONS,
+  deleteTrashedRules,
+  getPurgeDate,
+  getTrashedRules,
+  restoreTrashedRules,
+  setTrashRetentionDays,
+} from "../services/pricing-trash.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const dbShop = await prisma.shop.findUnique({
+    where: { shop: session.shop },
+  });
+  if (!dbShop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const rules = await getTrashedRules(dbShop.shop);
+
+  return json({
+    rules: rules.map((rule) => ({
+      id: rule.id,
+      name: rule.name,
+      deletedAt: rule.deletedAt!.toISOString(),
+      purgeAt: getPurgeDate(rule.deletedAt!, dbShop.trashRetentionDays).toISOString(),
+    })),
+    retentionDays: dbShop.trashRetentionDays,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+  const ruleIds = JSON.parse((formData.get("ruleIds") as string) || "[]") as string[];
+
+  try {
+    switch (intent) {
+      case "restore": {
+        const restored = await restoreTrashedRules(session, ruleIds);
+        return json({
+          success: true,
+          message: `${restored.length} pricing rule(s) restored`,
+        });
+      }
+
+      case "delete": {
+        const deleted = await deleteTrashedRules(session, ruleIds);
+        return json({
+          success: true,
+          message: `${deleted.length} pricing rule(s) deleted permanently`,
+        });
+      }
+
+      case "retention": {
+        const days = parseInt(formData.get("days") as string);
+        if (!TRASH_RETENTION_OPTIONS.includes(days)) {
+          return json(
+            { success: false, message: "Choose one of the listed retention periods" },
+            { status: 400 },
+          );
+        }
+        await setTrashRetentionDays(session.shop, days);
+        return json({
+          success: true,
+          message: `Deleted rules are now kept for ${days} days`,
+        });
+      }
+
+      default:
+        return json(
+          { success: false, message: "Invalid action" },
+          { status: 400 },
+        );
+    }
+  } catch (error) {
+    console.error("Trash action failed:", error);
+    return json(
+      { success: false, message: "Operation failed. Please try again." },
+      { status: 500 },
+    );
+  }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+export default function PricingRuleTrash() {
+  const { rules, retentionDays } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [deleteTarget, setDeleteTarget] = useState<string[] | null>(null);
+
+  const { selectedResources, allResourcesSelected, handleSelectionChange, clearSelection } =
+    useIndexResourceState(rules);
+
+  const busyIntent =
+    navigation.state !== "idle" ? navigation.formData?.get("intent") : null;
+  const busyIds = busyIntent
+    ? (JSON.parse((navigation.formData?.get("ruleIds") as string) || "[]") as string[])
+    : [];
+
+  const send = (intent: "restore" | "delete", ruleIds: string[]) => {
+    submit({ intent, ruleIds: JSON.stringify(ruleIds) }, { method: "post" });
+    clearSelection();
+  };
+
+  const confirmDelete = () => {
+    if (!deleteTarget) return;
+    send("delete", deleteTarget);
+    setDeleteTarget(null);
+  };
+
+  const rowMarkup = rules.map((rule, index) => {
+    const isBusy = busyIds.includes(rule.id);
+    return (
+      <IndexTable.Row
+        id={rule.id}
+        key={rule.id}
+        position={index}
+        selected={selectedResources.includes(rule.id)}
+      >
+        <IndexTable.Cell>
+          <Text variant="bodyMd" fontWeight="bold" as="span">
+            {rule.name}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>{formatDate(rule.deletedAt)}</IndexTable.Cell>
+        <IndexTable.Cell>
+          <Text variant="bodyMd" tone="subdued" as="span">
+            {formatDate(rule.purgeAt)}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <ButtonGroup>
+            <Button
+              icon={UndoIcon}
+              onClick={() => send("restore", [rule.id])}
+              accessibilityLabel={`Restore ${rule.name}`}
+              size="slim"
+              variant="tertiary"
+              disabled={isBusy}
+              loading={isBusy && busyIntent === "restore"}
+            />
+            <Button
+              icon={DeleteIcon}
+              onClick={() => setDeleteTarget([rule.id])}
+              accessibilityLabel={`Delete ${rule.name} permanently`}
+              size="slim"
+              variant="tertiary"
+              tone="critical"
+              disabled={isBusy}
+              loading={isBusy && busyIntent === "delete"}
+            />
+          </ButtonGroup>
+        </IndexTable.Cell>
+      </IndexTable.Row>
+    );
+  });
+
+  return (
+    <Page
+      title="Trash"
+      subtitle="Deleted pricing rules no longer apply and can be restored until they are deleted permanently"
+      backAction={{
+        content: "Back to pricing rules",
+        onAction: () => navigate("/app/pricing_rule"),
+      }}
+    >
+      <Layout>
+        {actionData && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card padding="0">
+            {rules.length > 0 ? (
+              <IndexTable
+                resourceName={{ singular: "deleted rule", plural: "deleted rules" }}
+                itemCount={rules.length}
+                selectedItemsCount={allResourcesSelected ? "All" : selectedResources.length}
+                onSelectionChange={handleSelectionChange}
+                promotedBulkActions={[
+                  {
+                    content: "Restore",
+                    onAction: () => send("restore", selectedResources),
+                  },
+                  {
+                    content: "Delete permanently",
+                    onAction: () => setDeleteTarget(selectedResources),
+                  },
+                ]}
+                headings={[
+                  { title: "Name" },
+                  { title: "Deleted" },
+                  { title: "Deleted permanently on" },
+                  { title: "Actions" },
+                ]}
+              >
+                {rowMarkup}
+              </IndexTable>
+            ) : (
+              <EmptyState
+                heading="The trash is empty"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <p>Deleted pricing rules show up here until they are purged.</p>
+              </EmptyState>
+            )}
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="300">
+              <Text variant="headingMd" as="h2">
+                Retention
+              </Text>
+              <Select
+                label="Delete rules permanently after"
+                options={TRASH_RETENTION_OPTIONS.map((days) => ({
+                  label: `${days} days`,
+                  value: String(days),
+                }))}
+                value={String(retentionDays)}
+                onChange={(days) => submit({ intent: "retention", days }, { method: "post" })}
+                disabled={busyIntent === "retention"}
+              />
+              <Text variant="bodySm" tone="subdued" as="p">
+                Counted from when each rule was deleted
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+
+      <Modal
+        open={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete permanently"
+        primaryAction={{
+          content: "Delete permanently",
+          destructive: true,
+          onAction: confirmDelete,
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: () => setDeleteTarget(null),
+          },
+        ]}
+      >
+        <Modal.Section>
+          <Text as="p">
+            {`${deleteTarget?.length ?? 0} pricing rule(s) will be deleted permanently. This action cannot be undone.`}
+          </Text>
+        </Modal.Section>
+      </Modal>
+    </Page>
+  );
+}
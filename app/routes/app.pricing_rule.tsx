@@ -1,6 +1,7 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { useLoaderData, useNavigate, useFetcher, Outlet, useLocation } from "@remix-run/react";
+import type { Prisma } from "@prisma/client";
+import { useLoaderData, useNavigate, useFetcher, useRevalidator, Outlet, useLocation } from "@remix-run/react";
 import { useState, useEffect } from "react";
 import {
   Page,
@@ -10,6 +11,7 @@ import {
   Badge,
   Text,
   EmptyState,
+  EmptySearchResult,
   Button,
   ButtonGroup,
   useIndexResourceState,
@@ -18,15 +20,72 @@ import {
   Frame,
   Popover,
   ActionList,
+  BlockStack,
 } from "@shopify/polaris";
 import {
   EditIcon,
   DuplicateIcon,
   DeleteIcon,
   MenuVerticalIcon,
+  UploadIcon,
+  UndoIcon,
+  ExportIcon,
+  ImportIcon,
+  ToggleOnIcon,
+  ToggleOffIcon,
+  SortIcon,
+  HashtagIcon,
+  DiscountIcon,
+  DragHandleIcon,
 } from "@shopify/polaris-icons";
 import { authenticate } from "../shopify.server";
 import prisma from "../db.server";
+import {
+  enqueueJob,
+  getActiveJobs,
+  getJobPayload,
+  type RuleJobPayload,
+} from "../services/jobs.server";
+import { requestPricingRuleSync } from "../services/pricing-sync.server";
+import { diffRules, recordRuleEvents } from "../services/pricing-audit.server";
+import { recordRuleVersions, toJsonColumn } from "../services/pricing-versions.server";
+import { restoreTrashedRules, trashPricingRules } from "../services/pricing-trash.server";
+import { getPublishError } from "../services/pricing-publish.server";
+import { applyCampaignOwnership } from "../services/campaigns.server";
+import {
+  getRuleEffectiveStatus,
+  type RuleEffectiveStatus,
+} from "../services/pricing.server";
+import { describeCustomerEligibility } from "../services/customer-eligibility";
+import {
+  getRuleListOrderBy,
+  getRuleListViews,
+  getRuleListWhere,
+  createRuleListView,
+  updateRuleListView,
+  deleteRuleListView,
+} from "../services/pricing-rule-list.server";
+import {
+  parseRuleListQuery,
+  toRuleListSearch,
+  type RuleListQuery,
+} from "../services/pricing-rule-list";
+import {
+  parseBulkRuleEdit,
+  planBulkRuleEdit,
+  type BulkEditableRule,
+} from "../services/pricing-rule-bulk";
+import { JobProgress, type JobSnapshot } from "../components/JobProgress";
+import { BulkRuleEditModal, type BulkRuleEditRequest } from "../components/BulkRuleEditModal";
+import { RuleListFilters, type RuleListView } from "../components/RuleListFilters";
+
+const PRICE_JOB_TYPES = ["publish-prices", "unpublish-prices"];
+
+interface PriceJob {
+  id: string;
+  type: string;
+  ruleId: string;
+}
 
 interface PricingRule {
   id: string;
@@ -36,16 +95,25 @@ interface PricingRule {
   applyTo: string;
   priceType: string;
   amount: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  effectiveStatus: RuleEffectiveStatus;
+  customerEligibility: string;
+  customerTags: unknown;
+  customerIds: unknown;
+  publishedAt: string | null;
   createdAt: string;
 }
 
+const EMPTY_LIST_QUERY: RuleListQuery = parseRuleListQuery(new URLSearchParams());
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   try {
     // Get shop from authenticated session instead of params
     const { session } = await authenticate.admin(request);
     
     if (!session.shop) {
-      return json({ pricingRules: [], totalCount: 0, currentPage: 1, totalPages: 1 });
+      return json({ pricingRules: [], totalCount: 0, currentPage: 1, totalPages: 1, activeJobs: [] as PriceJob[], listQuery: EMPTY_LIST_QUERY, views: [] as RuleListView[], trashCount: 0, trashRetentionDays: 30 });
     }
 
     // Find shop in database
@@ -55,32 +123,63 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     
     if (!dbShop) {
       console.error("Shop not found in database:", session.shop);
-      return json({ pricingRules: [], totalCount: 0, currentPage: 1, totalPages: 1 });
+      return json({ pricingRules: [], totalCount: 0, currentPage: 1, totalPages: 1, activeJobs: [] as PriceJob[], listQuery: EMPTY_LIST_QUERY, views: [] as RuleListView[], trashCount: 0, trashRetentionDays: 30 });
     }
 
-    // Get pagination parameters
+    // Get pagination, search, filter and sort parameters
     const url = new URL(request.url);
     const page = parseInt(url.searchParams.get("page") || "1");
     const limit = parseInt(url.searchParams.get("limit") || "10");
     const offset = (page - 1) * limit;
+    const listQuery = parseRuleListQuery(url.searchParams);
+    const now = new Date();
+    const where = getRuleListWhere(dbShop.shop, listQuery, now);
 
     // Get total count
-    const totalCount = await prisma.pricingRule.count();
+    const totalCount = await prisma.pricingRule.count({ where });
 
     // Use Prisma client for pricing rules (they are stored in our database)
     const pricingRules = await prisma.pricingRule.findMany({
+      where,
       skip: offset,
       take: limit,
-      orderBy: [
-        { createdAt: 'desc' }
-      ]
+      orderBy: getRuleListOrderBy(listQuery)
+    });
+
+    // Scheduled rules start and expire on their own, so the state is derived on read
+    const rulesWithStatus = pricingRules.map((rule) => ({
+      ...rule,
+      effectiveStatus: getRuleEffectiveStatus(rule, now),
+    }));
+
+    const activeJobs: PriceJob[] = (
+      await getActiveJobs(dbShop.shop, PRICE_JOB_TYPES)
+    ).map((job) => ({
+      id: job.id,
+      type: job.type,
+      ruleId: getJobPayload<RuleJobPayload>(job).ruleId,
+    }));
+
+    const views: RuleListView[] = (await getRuleListViews(dbShop.shop)).map((view) => ({
+      id: view.id,
+      name: view.name,
+      search: view.search,
+    }));
+
+    const trashCount = await prisma.pricingRule.count({
+      where: { shop: dbShop.shop, deletedAt: { not: null } }
     });
 
     return json({ 
-      pricingRules, 
+      pricingRules: rulesWithStatus, 
       totalCount, 
       currentPage: page,
-      totalPages: Math.ceil(totalCount / limit)
+      totalPages: Math.ceil(totalCount / limit),
+      activeJobs,
+      listQuery,
+      views,
+      trashCount,
+      trashRetentionDays: dbShop.trashRetentionDays
     });
   } catch (error) {
     console.error("Failed to load pricing rules:", error);
@@ -88,7 +187,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       pricingRules: [], 
       totalCount: 0, 
       currentPage: 1, 
-      totalPages: 1 
+      totalPages: 1,
+      activeJobs: [] as PriceJob[],
+      listQuery: EMPTY_LIST_QUERY,
+      views: [] as RuleListView[],
+      trashCount: 0,
+      trashRetentionDays: 30
     });
   }
 };
@@ -132,13 +236,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         }
         
         const idsToDelete = JSON.parse(ruleIds);
-        await prisma.pricingRule.deleteMany({
-          where: { id: { in: idsToDelete } }
+
+        const publishedCount = await prisma.pricingRule.count({
+          where: { id: { in: idsToDelete }, shop: dbShop.shop, publishedAt: { not: null } }
         });
+        if (publishedCount > 0) {
+          return json(
+            { success: false, message: `${publishedCount} selected rule(s) have published prices. Unpublish them before deleting.` },
+            { status: 400 }
+          );
+        }
+
+        const bulkTrashed = await trashPricingRules(session, idsToDelete, "bulk-delete");
         
         return json({ 
           success: true, 
-          message: `${idsToDelete.length} pricing rule(s) deleted successfully!` 
+          message: `${bulkTrashed.length} pricing rule(s) moved to the trash`,
+          undoRuleIds: bulkTrashed.map((rule) => rule.id)
         });
 
       case "bulkDuplicate":
@@ -151,44 +265,158 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         
         const idsToDuplicate = JSON.parse(ruleIds);
         const rulesToDuplicate = await prisma.pricingRule.findMany({
-          where: { id: { in: idsToDuplicate } }
+          where: { id: { in: idsToDuplicate }, shop: dbShop.shop, deletedAt: null }
         });
         
-        const duplicatedRules = rulesToDuplicate.map(rule => ({
+        // Copies stay in the original's campaign and take its status and schedule
+        const duplicateData = await Promise.all(rulesToDuplicate.map(rule => applyCampaignOwnership<Prisma.PricingRuleUncheckedCreateInput>(prisma, rule, {
           id: `pr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          shop: dbShop.shop,
           name: `${rule.name} (Copy)`,
           priority: rule.priority,
           status: "inactive",
           applyTo: rule.applyTo,
-          productIds: rule.productIds as any,
-          collectionIds: rule.collectionIds as any,
-          tagIds: rule.tagIds as any,
+          productIds: toJsonColumn(rule.productIds),
+          variantIds: toJsonColumn(rule.variantIds),
+          collectionIds: toJsonColumn(rule.collectionIds),
+          tagIds: toJsonColumn(rule.tagIds),
+          conditions: toJsonColumn(rule.conditions),
+          excludedProductIds: toJsonColumn(rule.excludedProductIds),
+          excludedCollectionIds: toJsonColumn(rule.excludedCollectionIds),
+          excludedTags: toJsonColumn(rule.excludedTags),
           priceType: rule.priceType,
           amount: rule.amount,
-        }));
+          tiers: toJsonColumn(rule.tiers),
+          compareAtMode: rule.compareAtMode,
+          compareAtAmount: rule.compareAtAmount,
+          roundingMode: rule.roundingMode,
+          minPrice: rule.minPrice,
+          maxDiscountPercent: rule.maxDiscountPercent,
+          marketPrices: toJsonColumn(rule.marketPrices),
+          customerEligibility: rule.customerEligibility,
+          customerTags: toJsonColumn(rule.customerTags),
+          customerIds: toJsonColumn(rule.customerIds),
+          startsAt: rule.startsAt,
+          endsAt: rule.endsAt,
+          campaignId: rule.campaignId,
+        })));
         
-        await prisma.pricingRule.createMany({
-          data: duplicatedRules
+        const duplicatedRules = await prisma.pricingRule.createManyAndReturn({
+          data: duplicateData
         });
+        await recordRuleEvents(session, duplicatedRules.map((rule) => ({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          action: "bulk-duplicate" as const,
+          changes: diffRules(null, rule),
+        })));
+        await recordRuleVersions(session, duplicatedRules);
+        await requestPricingRuleSync(dbShop.shop);
         
         return json({ 
           success: true, 
-          message: `${idsToDuplicate.length} pricing rule(s) duplicated successfully!` 
+          message: `${rulesToDuplicate.length} pricing rule(s) duplicated successfully!` 
         });
 
+      case "bulkEdit": {
+        if (!ruleIds) {
+          return json(
+            { success: false, message: "No rules selected" },
+            { status: 400 }
+          );
+        }
+
+        const edit = parseBulkRuleEdit(
+          formData.get("operation") as string,
+          (formData.get("value") as string) || ""
+        );
+        if (typeof edit === "string") {
+          return json(
+            { success: false, message: edit },
+            { status: 400 }
+          );
+        }
+
+        const rulesToEdit = await prisma.pricingRule.findMany({
+          where: { id: { in: JSON.parse(ruleIds) }, shop: dbShop.shop, deletedAt: null }
+        });
+        const plan = planBulkRuleEdit(rulesToEdit, edit);
+
+        // All selected rules change together or not at all
+        const editedRules = await prisma.$transaction(
+          plan.changes.map((change) =>
+            prisma.pricingRule.update({
+              where: { id: change.ruleId },
+              data: change.data,
+            })
+          )
+        );
+        const rulesBefore = new Map(rulesToEdit.map((rule) => [rule.id, rule]));
+        await recordRuleEvents(session, editedRules.map((rule) => ({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          action: "bulk-update" as const,
+          changes: diffRules(rulesBefore.get(rule.id) ?? null, rule),
+        })));
+        await recordRuleVersions(session, editedRules);
+        if (editedRules.length > 0) {
+          await requestPricingRuleSync(dbShop.shop);
+        }
+
+        return json({
+          success: true,
+          message: plan.skipped.length > 0
+            ? `${editedRules.length} pricing rule(s) updated, ${plan.skipped.length} skipped`
+            : `${editedRules.length} pricing rule(s) updated successfully!`
+        });
+      }
+
       case "delete":
-        await prisma.pricingRule.delete({
-          where: { id: ruleId }
+        const ruleToDelete = await prisma.pricingRule.findFirst({
+          where: { id: ruleId, shop: dbShop.shop, deletedAt: null }
         });
+
+        if (ruleToDelete?.publishedAt) {
+          return json(
+            { success: false, message: "This rule has published prices. Unpublish it before deleting." },
+            { status: 400 }
+          );
+        }
+
+        if (!ruleToDelete) {
+          return json(
+            { success: false, message: "Pricing rule not found" },
+            { status: 404 }
+          );
+        }
+        await trashPricingRules(session, [ruleToDelete.id], "delete");
+
         return json({ 
           success: true, 
-          message: "Pricing rule deleted successfully!" 
+          message: "Pricing rule moved to the trash",
+          undoRuleIds: [ruleToDelete.id]
+        });
+
+      case "undoDelete": {
+        if (!ruleIds) {
+          return json(
+            { success: false, message: "No rules selected" },
+            { status: 400 }
+          );
+        }
+
+        const restoredRules = await restoreTrashedRules(session, JSON.parse(ruleIds));
+
+        return json({
+          success: true,
+          message: `${restoredRules.length} pricing rule(s) restored`
         });
+      }
 
       case "duplicate":
         // Get the original rule
-        const originalRule = await prisma.pricingRule.findUnique({
-          where: { id: ruleId }
+        const originalRule = await prisma.pricingRule.findFirst({
+          where: { id: ruleId, shop: dbShop.shop, deletedAt: null }
         });
 
         if (!originalRule) {
@@ -201,26 +429,141 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         // Create a new rule with duplicated data
         const newRuleId = `pr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         
-        await prisma.pricingRule.create({
-          data: {
+        const duplicatedRule = await prisma.pricingRule.create({
+          data: await applyCampaignOwnership<Prisma.PricingRuleUncheckedCreateInput>(prisma, originalRule, {
             id: newRuleId,
+            shop: dbShop.shop,
             name: `${originalRule.name} (Copy)`,
             priority: originalRule.priority,
             status: "inactive", // Set duplicated rules to inactive by default
             applyTo: originalRule.applyTo,
-            productIds: originalRule.productIds as any,
-            collectionIds: originalRule.collectionIds as any,
-            tagIds: originalRule.tagIds as any,
+            productIds: toJsonColumn(originalRule.productIds),
+            variantIds: toJsonColumn(originalRule.variantIds),
+            collectionIds: toJsonColumn(originalRule.collectionIds),
+            tagIds: toJsonColumn(originalRule.tagIds),
+            conditions: toJsonColumn(originalRule.conditions),
+            excludedProductIds: toJsonColumn(originalRule.excludedProductIds),
+            excludedCollectionIds: toJsonColumn(originalRule.excludedCollectionIds),
+            excludedTags: toJsonColumn(originalRule.excludedTags),
             priceType: originalRule.priceType,
             amount: originalRule.amount,
-          },
+            tiers: toJsonColumn(originalRule.tiers),
+            compareAtMode: originalRule.compareAtMode,
+            compareAtAmount: originalRule.compareAtAmount,
+            roundingMode: originalRule.roundingMode,
+            minPrice: originalRule.minPrice,
+            maxDiscountPercent: originalRule.maxDiscountPercent,
+            marketPrices: toJsonColumn(originalRule.marketPrices),
+            customerEligibility: originalRule.customerEligibility,
+            customerTags: toJsonColumn(originalRule.customerTags),
+            customerIds: toJsonColumn(originalRule.customerIds),
+            startsAt: originalRule.startsAt,
+            endsAt: originalRule.endsAt,
+            campaignId: originalRule.campaignId,
+          }),
         });
+        await recordRuleEvents(session, [
+          {
+            ruleId: duplicatedRule.id,
+            ruleName: duplicatedRule.name,
+            action: "duplicate",
+            changes: diffRules(null, duplicatedRule),
+          },
+        ]);
+        await recordRuleVersions(session, [duplicatedRule]);
+        await requestPricingRuleSync(dbShop.shop);
 
         return json({ 
           success: true, 
           message: "Pricing rule duplicated successfully!" 
         });
 
+      case "publish":
+      case "unpublish": {
+        const rule = await prisma.pricingRule.findFirst({
+          where: { id: ruleId, shop: dbShop.shop, deletedAt: null }
+        });
+        if (!rule) {
+          return json(
+            { success: false, message: "Pricing rule not found" },
+            { status: 404 }
+          );
+        }
+        const publishError = actionType === "publish" ? getPublishError(rule) : null;
+        if (publishError) {
+          return json(
+            { success: false, message: publishError },
+            { status: 400 }
+          );
+        }
+
+        const runningJobs = await getActiveJobs(dbShop.shop, PRICE_JOB_TYPES);
+        if (runningJobs.some((job) => getJobPayload<RuleJobPayload>(job).ruleId === ruleId)) {
+          return json(
+            { success: false, message: "Prices for this rule are already being updated" },
+            { status: 409 }
+          );
+        }
+
+        // Writing prices touches every targeted variant, so it runs in the background
+        const job = await enqueueJob(
+          dbShop.shop,
+          actionType === "publish" ? "publish-prices" : "unpublish-prices",
+          { ruleId }
+        );
+        return json({
+          success: true,
+          message: actionType === "publish" ? "Publishing prices..." : "Restoring original prices...",
+          jobId: job.id
+        });
+      }
+
+      case "createView":
+      case "updateView":
+      case "deleteView": {
+        const viewId = formData.get("viewId") as string;
+        const name = ((formData.get("name") as string) || "").trim();
+        // Stored normalized, so comparing it with the current list tells
+        // whether the view was changed
+        const search = formData.has("search")
+          ? toRuleListSearch(parseRuleListQuery(new URLSearchParams(formData.get("search") as string)))
+          : undefined;
+
+        if (actionType !== "deleteView" && formData.has("name") && (name.length < 1 || name.length > 40)) {
+          return json(
+            { success: false, message: "View names must be 1 to 40 characters" },
+            { status: 400 }
+          );
+        }
+
+        if (actionType === "createView") {
+          const view = await createRuleListView(dbShop.shop, name, search || "");
+          return json({
+            success: true,
+            message: `View "${view.name}" saved`,
+            view: { id: view.id, name: view.name, search: view.search },
+          });
+        }
+
+        const count = actionType === "updateView"
+          ? await updateRuleListView(dbShop.shop, viewId, {
+              ...(formData.has("name") ? { name } : {}),
+              ...(search !== undefined ? { search } : {}),
+            })
+          : await deleteRuleListView(dbShop.shop, viewId);
+        if (count === 0) {
+          return json(
+            { success: false, message: "View not found" },
+            { status: 404 }
+          );
+        }
+
+        return json({
+          success: true,
+          message: actionType === "updateView" ? "View updated" : "View deleted",
+        });
+      }
+
       default:
         return json(
           { success: false, message: "Invalid action type" },
@@ -237,9 +580,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function PricingRules() {
-  const { pricingRules, currentPage, totalPages } = useLoaderData<typeof loader>();
+  const { pricingRules, currentPage, totalPages, activeJobs, listQuery, views, trashCount, trashRetentionDays } = useLoaderData<typeof loader>();
   const navigate = useNavigate();
   const fetcher = useFetcher();
+  const revalidator = useRevalidator();
   const location = useLocation();
   
   // Check if we're on the main list page (not a child route)
@@ -250,11 +594,22 @@ export default function PricingRules() {
   const [toastActive, setToastActive] = useState(false);
   const [toastMessage, setToastMessage] = useState("");
   const [toastError, setToastError] = useState(false);
+  // Rules the toast's Undo takes back out of the trash
+  const [toastUndoRuleIds, setToastUndoRuleIds] = useState<string[] | null>(null);
   const [bulkActionPopoverActive, setBulkActionPopoverActive] = useState(false);
+  const [publishTarget, setPublishTarget] = useState<{ ruleId: string; actionType: "publish" | "unpublish" } | null>(null);
+  const [bulkEditRequest, setBulkEditRequest] = useState<BulkRuleEditRequest | null>(null);
 
   // Track loading states
   const isLoading = fetcher.state === "submitting" || fetcher.state === "loading";
   const isDeleting = isLoading && fetcher.formData?.get("actionType") === "delete";
+  const isPublishing = isLoading && ["publish", "unpublish"].includes(fetcher.formData?.get("actionType") as string);
+  const isBulkEditing = isLoading && fetcher.formData?.get("actionType") === "bulkEdit";
+
+  // A search or saved view can match no rules while the shop has some, so
+  // the filters stay until the shop has no rules and nothing to go back to
+  const showListFilters =
+    pricingRules.length > 0 || toRuleListSearch(listQuery) !== "" || views.length > 0;
 
   const resourceName = {
     singular: "pricing rule",
@@ -278,9 +633,19 @@ export default function PricingRules() {
   const showToast = (message: string, isError = false) => {
     setToastMessage(message);
     setToastError(isError);
+    setToastUndoRuleIds(null);
     setToastActive(true);
   };
 
+  const undoDelete = (ruleIds: string[]) => {
+    const formData = new FormData();
+    formData.append("actionType", "undoDelete");
+    formData.append("ruleIds", JSON.stringify(ruleIds));
+
+    fetcher.submit(formData, { method: "post" });
+    setToastActive(false);
+  };
+
   const handleBulkAction = async (actionType: string) => {
     if (selectedResources.length === 0) {
       showToast("No rules selected", true);
@@ -301,14 +666,72 @@ export default function PricingRules() {
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "active":
-        return <Badge tone="success">Enable</Badge>;
+  const openBulkEdit = (request: BulkRuleEditRequest) => {
+    setBulkActionPopoverActive(false);
+    setBulkEditRequest(request);
+  };
+
+  const confirmBulkEdit = (request: BulkRuleEditRequest) => {
+    const formData = new FormData();
+    formData.append("actionType", "bulkEdit");
+    formData.append("ruleIds", JSON.stringify(selectedResources));
+    formData.append("operation", request.operation);
+    formData.append("value", request.value);
+
+    fetcher.submit(formData, { method: "post" });
+
+    clearSelection();
+    setBulkEditRequest(null);
+  };
+
+  const selectedRules: BulkEditableRule[] = (pricingRules as any[] || []).filter(
+    (rule: PricingRule) => selectedResources.includes(rule.id)
+  );
+
+  const getStatusBadge = (effectiveStatus: RuleEffectiveStatus) => {
+    switch (effectiveStatus) {
+      case "running":
+        return <Badge tone="success">Running</Badge>;
+      case "scheduled":
+        return <Badge tone="attention">Scheduled</Badge>;
+      case "expired":
+        return <Badge>Expired</Badge>;
       case "inactive":
-        return <Badge tone="critical">Disable</Badge>;
+        return <Badge tone="critical">Disabled</Badge>;
       default:
-        return <Badge>{status}</Badge>;
+        return <Badge>{effectiveStatus}</Badge>;
+    }
+  };
+
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Fetched rather than linked so the request carries the session token.
+  // Bundles hold the given rules, or all of them, for import on another shop.
+  const handleExport = async (format?: "bundle", ruleIds?: string[]) => {
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams();
+      if (format) params.set("format", format);
+      if (ruleIds) params.set("ids", ruleIds.join(","));
+      const query = params.toString();
+      const response = await fetch(`/app/pricing_rule/export${query ? `?${query}` : ""}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const fileName =
+        /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") || "")?.[1] ||
+        (format === "bundle" ? "pricing-rules.json" : "pricing-rules.csv");
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Export error:", error);
+      showToast("Failed to export pricing rules", true);
+    } finally {
+      setIsExporting(false);
     }
   };
 
@@ -342,6 +765,45 @@ export default function PricingRules() {
     setRuleToDelete(null);
   };
 
+  const confirmPublish = () => {
+    if (!publishTarget) return;
+
+    const formData = new FormData();
+    formData.append("actionType", publishTarget.actionType);
+    formData.append("ruleId", publishTarget.ruleId);
+
+    fetcher.submit(formData, { method: "post" });
+
+    setPublishTarget(null);
+  };
+
+  const handleJobFinish = (job: JobSnapshot) => {
+    const result = job.result || {};
+    if (job.status === "completed") {
+      const failed = result.failed || 0;
+      if (job.type === "publish-prices") {
+        showToast(
+          failed === 0
+            ? `Published prices for ${result.updated || 0} variant(s)`
+            : `Published ${result.updated || 0} variant(s), ${failed} failed`,
+          failed > 0
+        );
+      } else {
+        showToast(
+          failed === 0
+            ? `Restored original prices for ${result.restored || 0} variant(s)`
+            : `Restored ${result.restored || 0} variant(s), ${failed} failed`,
+          failed > 0
+        );
+      }
+    } else if (job.status === "cancelled") {
+      showToast("Price update cancelled");
+    } else {
+      showToast(job.error || "Failed to update prices", true);
+    }
+    revalidator.revalidate();
+  };
+
   // Handle fetcher response
   useEffect(() => {
     if (fetcher.data && typeof fetcher.data === 'object' && 'success' in fetcher.data) {
@@ -349,10 +811,12 @@ export default function PricingRules() {
       if (responseData.success) {
         setToastMessage(responseData.message);
         setToastError(false);
+        setToastUndoRuleIds(responseData.undoRuleIds || null);
         setToastActive(true);
       } else {
         setToastMessage(responseData.message);
         setToastError(true);
+        setToastUndoRuleIds(null);
         setToastActive(true);
       }
     }
@@ -381,11 +845,44 @@ export default function PricingRules() {
       >
         <ActionList
           items={[
+            {
+              content: "Enable rules",
+              icon: ToggleOnIcon,
+              onAction: () => openBulkEdit({ operation: "setStatus", value: "active" }),
+            },
+            {
+              content: "Disable rules",
+              icon: ToggleOffIcon,
+              onAction: () => openBulkEdit({ operation: "setStatus", value: "inactive" }),
+            },
+            {
+              content: "Shift priority",
+              icon: SortIcon,
+              onAction: () => openBulkEdit({ operation: "shiftPriority", value: "" }),
+            },
+            {
+              content: "Set priority",
+              icon: HashtagIcon,
+              onAction: () => openBulkEdit({ operation: "setPriority", value: "" }),
+            },
+            {
+              content: "Scale amounts",
+              icon: DiscountIcon,
+              onAction: () => openBulkEdit({ operation: "scaleAmount", value: "" }),
+            },
             {
               content: "Duplicate rules",
               icon: DuplicateIcon,
               onAction: () => handleBulkAction("duplicate"),
             },
+            {
+              content: "Export as bundle",
+              icon: ExportIcon,
+              onAction: () => {
+                setBulkActionPopoverActive(false);
+                handleExport("bundle", selectedResources);
+              },
+            },
             {
               content: "Delete rules",
               icon: DeleteIcon,
@@ -403,6 +900,8 @@ export default function PricingRules() {
     const isCurrentRuleLoading = isLoading && actionRuleId === rule.id;
     const isCurrentRuleDeleting = isCurrentRuleLoading && fetcher.formData?.get("actionType") === "delete";
     const isCurrentRuleDuplicating = isCurrentRuleLoading && fetcher.formData?.get("actionType") === "duplicate";
+    const isCurrentRulePublishing = isCurrentRuleLoading && ["publish", "unpublish"].includes(fetcher.formData?.get("actionType") as string);
+    const hasActiveJob = activeJobs.some((job) => job.ruleId === rule.id);
     
     // Calculate row number based on current page
     const rowNumber = (currentPage - 1) * 10 + index + 1;
@@ -466,7 +965,19 @@ export default function PricingRules() {
           </div>
         </IndexTable.Cell>
         <IndexTable.Cell>
-          {getStatusBadge(rule.status)}
+          <div style={{ display: 'flex', gap: '4px' }}>
+            {getStatusBadge(rule.effectiveStatus)}
+            {rule.publishedAt && <Badge tone="info">Published</Badge>}
+          </div>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          {rule.customerEligibility === "all" ? (
+            <Text variant="bodyMd" tone="subdued" as="span">
+              {describeCustomerEligibility(rule)}
+            </Text>
+          ) : (
+            <Badge tone="attention">{describeCustomerEligibility(rule)}</Badge>
+          )}
         </IndexTable.Cell>
         <IndexTable.Cell>
           <Text variant="bodyMd" as="span">
@@ -502,6 +1013,28 @@ export default function PricingRules() {
               disabled={isCurrentRuleLoading}
               loading={isCurrentRuleDuplicating}
             />
+            {rule.effectiveStatus === "running" && rule.customerEligibility === "all" && rule.priceType !== "quantity-tiers" && (
+              <Button
+                icon={UploadIcon}
+                onClick={() => setPublishTarget({ ruleId: rule.id, actionType: "publish" })}
+                accessibilityLabel={`Publish prices of ${rule.name}`}
+                size="slim"
+                variant="tertiary"
+                disabled={isCurrentRuleLoading || hasActiveJob}
+                loading={isCurrentRulePublishing && fetcher.formData?.get("actionType") === "publish"}
+              />
+            )}
+            {rule.publishedAt && (
+              <Button
+                icon={UndoIcon}
+                onClick={() => setPublishTarget({ ruleId: rule.id, actionType: "unpublish" })}
+                accessibilityLabel={`Restore original prices of ${rule.name}`}
+                size="slim"
+                variant="tertiary"
+                disabled={isCurrentRuleLoading || hasActiveJob}
+                loading={isCurrentRulePublishing && fetcher.formData?.get("actionType") === "unpublish"}
+              />
+            )}
           </ButtonGroup>
         </IndexTable.Cell>
       </IndexTable.Row>
@@ -513,10 +1046,20 @@ export default function PricingRules() {
     return rule ? rule.name : "";
   };
 
+  const getPublishTargetName = () => {
+    const rule = (pricingRules as any[] || []).find((r: any) => r?.id === publishTarget?.ruleId);
+    return rule ? rule.name : "";
+  };
+
   const toastMarkup = toastActive ? (
     <Toast
       content={toastMessage}
       error={toastError}
+      action={toastUndoRuleIds ? {
+        content: "Undo",
+        onAction: () => undoDelete(toastUndoRuleIds),
+      } : undefined}
+      duration={toastUndoRuleIds ? 10000 : undefined}
       onDismiss={() => setToastActive(false)}
     />
   ) : null;
@@ -543,16 +1086,85 @@ export default function PricingRules() {
             content: "Create new rule",
             onAction: () => navigate("/app/pricing_rule/new"),
           }}
+          secondaryActions={[
+            {
+              content: "Conflicts",
+              onAction: () => navigate("/app/pricing_rule/conflicts"),
+            },
+            {
+              content: "Reorder",
+              icon: DragHandleIcon,
+              // The list's search and filters narrow the rules to reorder
+              onAction: () => {
+                const search = toRuleListSearch(listQuery);
+                navigate(`/app/pricing_rule/reorder${search ? `?${search}` : ""}`);
+              },
+            },
+            {
+              content: "Export CSV",
+              icon: ExportIcon,
+              onAction: () => handleExport(),
+              loading: isExporting,
+            },
+            {
+              content: "Export bundle",
+              icon: ExportIcon,
+              onAction: () => handleExport("bundle"),
+              loading: isExporting,
+            },
+            {
+              content: "Import",
+              icon: ImportIcon,
+              onAction: () => navigate("/app/pricing_rule/import"),
+            },
+            {
+              content: trashCount > 0 ? `Trash (${trashCount})` : "Trash",
+              icon: DeleteIcon,
+              onAction: () => navigate("/app/pricing_rule/trash"),
+            },
+          ]}
         >
           <Layout>
+            {activeJobs.length > 0 && (
+              <Layout.Section>
+                <Card>
+                  <BlockStack gap="400">
+                    {activeJobs.map((job) => {
+                      const rule = (pricingRules as any[] || []).find((r: any) => r?.id === job.ruleId);
+                      const ruleName = rule ? `"${rule.name}"` : "pricing rule";
+                      return (
+                        <JobProgress
+                          key={job.id}
+                          jobId={job.id}
+                          label={job.type === "publish-prices"
+                            ? `Publishing prices of ${ruleName}`
+                            : `Restoring original prices of ${ruleName}`}
+                          onFinish={handleJobFinish}
+                        />
+                      );
+                    })}
+                  </BlockStack>
+                </Card>
+              </Layout.Section>
+            )}
             <Layout.Section>
-              <Card>
-                {bulkActionsMarkup}
+              <Card padding={showListFilters ? "0" : undefined}>
+                {showListFilters && (
+                  <RuleListFilters listQuery={listQuery} views={views} onToast={showToast} />
+                )}
                 <div style={{ position: "relative" }}>
-                  {pricingRules.length > 0 ? (
+                  {bulkActionsMarkup}
+                  {showListFilters ? (
                   <IndexTable
                     resourceName={resourceName}
                     itemCount={pricingRules.length}
+                    emptyState={
+                      <EmptySearchResult
+                        title="No pricing rules found"
+                        description="Try changing the search or filters"
+                        withIllustration
+                      />
+                    }
                     selectedItemsCount={
                       allResourcesSelected ? "All" : selectedResources.length
                     }
@@ -561,6 +1173,7 @@ export default function PricingRules() {
                       { title: "No" },
                       { title: "Name" },
                       { title: "Status" },
+                      { title: "Customers" },
                       { title: "Priority" },
                       { title: "Actions" },
                     ]}
@@ -611,14 +1224,50 @@ export default function PricingRules() {
           >
             <Modal.Section>
               <Text as="p">
-                Are you sure you want to delete "{getRuleToDeleteName()}"? This action cannot be undone.
+                Are you sure you want to delete "{getRuleToDeleteName()}"? It stops applying right away and stays in the trash for {trashRetentionDays} days, where it can be restored.
+              </Text>
+            </Modal.Section>
+          </Modal>
+
+          {/* Bulk Edit Confirmation Modal */}
+          <BulkRuleEditModal
+            request={bulkEditRequest}
+            rules={selectedRules}
+            loading={isBulkEditing}
+            onClose={() => setBulkEditRequest(null)}
+            onConfirm={confirmBulkEdit}
+          />
+
+          {/* Publish / Unpublish Confirmation Modal */}
+          <Modal
+            open={publishTarget !== null}
+            onClose={() => setPublishTarget(null)}
+            title={publishTarget?.actionType === "unpublish" ? "Restore original prices" : "Publish prices"}
+            primaryAction={{
+              content: publishTarget?.actionType === "unpublish" ? "Restore prices" : "Publish prices",
+              onAction: confirmPublish,
+              loading: isPublishing,
+            }}
+            secondaryActions={[
+              {
+                content: "Cancel",
+                onAction: () => setPublishTarget(null),
+                disabled: isPublishing,
+              },
+            ]}
+          >
+            <Modal.Section>
+              <Text as="p">
+                {publishTarget?.actionType === "unpublish"
+                  ? `Variants changed by "${getPublishTargetName()}" will get their original price and compare-at price back in your store.`
+                  : `The prices calculated by "${getPublishTargetName()}" will be written to your store's product variants. Original prices are kept so they can be restored later.`}
               </Text>
             </Modal.Section>
           </Modal>
         </Page>
       )}
 
-      {/* Outlet for child routes (/new, /:id) */}
+      {/* Outlet for child routes (/new, /:id, /conflicts, /import, /reorder, /trash) */}
       <Outlet />
 
     </Frame>
@@ -25,6 +25,7 @@ export default function App() {
           Home
         </Link>
         <Link to="/app/pricing_rule">Pricing Rule</Link>
+        <Link to="/app/campaigns">Campaigns</Link>
         <Link to="/app/products">Products</Link>
         <Link to="/app/additional">Additional page</Link>
       </NavMenu>
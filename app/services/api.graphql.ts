@@ -1,4 +1,5 @@
 import { authenticate } from "../shopify.server";
+import type { MarketCurrency, ShopCurrencySettings } from "./currency";
 
 export async function getAllProductTags(shop: string, accessToken: string, searchTerm?: string) {
   // Shopify GraphQL endpoint
@@ -55,8 +56,197 @@ export async function getAllProductTags(shop: string, accessToken: string, searc
 }
 
 
+export async function getAllCustomerTags(shop: string, accessToken: string, searchTerm?: string) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query GetCustomerTags {
+      shop {
+        customerTags(first: 250) {
+          edges { node }
+        }
+      }
+    }
+  `;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  const searchLower = (searchTerm || "").toLowerCase();
+  const tags: string[] = data.data.shop.customerTags.edges
+    .map((edge: any) => String(edge.node).trim())
+    .filter((tag: string) => tag && tag.toLowerCase().includes(searchLower));
+
+  return [...new Set(tags)].slice(0, 20);
+}
+
+// Search customers by name or email
+export async function searchCustomers(shop: string, accessToken: string, searchTerm: string) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query SearchCustomers($query: String) {
+      customers(first: 20, query: $query) {
+        nodes { id displayName email }
+      }
+    }
+  `;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query, variables: { query: searchTerm || null } }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  return data.data.customers.nodes.map((node: any) => ({
+    id: node.id,
+    displayName: node.displayName,
+    email: node.email,
+  }));
+}
+
+
+export interface CatalogPageOptions {
+  maxPages?: number;
+  // Called after every page, e.g. to report job progress or stop a cancelled job
+  onPage?: (fetchedCount: number) => void | Promise<void>;
+}
+
+export interface CatalogVariant {
+  id: string;
+  title: string;
+  price: string;
+  compareAtPrice: string | null;
+  sku: string | null;
+}
+
+// A product as the pricing engine reads it, with every variant and collection
+export interface CatalogProduct {
+  id: string;
+  title: string;
+  handle: string;
+  tags: string[];
+  vendor: string;
+  productType: string;
+  collectionIds: string[];
+  featuredImage: { url: string; altText: string | null } | null;
+  // What the storefront price block currently shows, see pricing-sync.server.ts
+  priceDisplay?: string | null;
+  variants: CatalogVariant[];
+}
+
+const CATALOG_VARIANT_FIELDS = "id title price compareAtPrice sku";
+
+// Catalog queries list the first variants and collections of each product;
+// the rest are fetched per product, see toCatalogProducts
+const CATALOG_PRODUCT_FIELDS = `
+  id title handle tags vendor productType
+  collections(first: 25) { pageInfo { hasNextPage endCursor } nodes { id } }
+  featuredImage { url altText }
+  variants(first: 10) { pageInfo { hasNextPage endCursor } nodes { ${CATALOG_VARIANT_FIELDS} } }
+`;
+
+// The rest of a product's variants or collections, after the given cursor
+async function getRemainingProductNodes(
+  shop: string,
+  accessToken: string,
+  productId: string,
+  connection: "variants" | "collections",
+  fields: string,
+  cursor: string,
+) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query GetRemainingProductNodes($id: ID!, $cursor: String) {
+      product(id: $id) {
+        ${connection}(first: 250, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ${fields} }
+        }
+      }
+    }
+  `;
+
+  const nodes: any[] = [];
+  let next: string | null = cursor;
+  while (next) {
+    const response: Response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables: { id: productId, cursor: next } }),
+    });
+    const data: any = await response.json();
+    if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+    const page: any = data.data.product[connection];
+    nodes.push(...page.nodes);
+    next = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  }
+  return nodes;
+}
+
+// Map product nodes queried with CATALOG_PRODUCT_FIELDS, completing the
+// variants and collections a product has beyond the first page
+async function toCatalogProducts(
+  shop: string,
+  accessToken: string,
+  nodes: any[],
+): Promise<CatalogProduct[]> {
+  const products: CatalogProduct[] = [];
+  for (const node of nodes) {
+    const variants = [...node.variants.nodes];
+    if (node.variants.pageInfo.hasNextPage) {
+      variants.push(...await getRemainingProductNodes(
+        shop, accessToken, node.id, "variants", CATALOG_VARIANT_FIELDS, node.variants.pageInfo.endCursor,
+      ));
+    }
+    const collections = [...node.collections.nodes];
+    if (node.collections.pageInfo.hasNextPage) {
+      collections.push(...await getRemainingProductNodes(
+        shop, accessToken, node.id, "collections", "id", node.collections.pageInfo.endCursor,
+      ));
+    }
+
+    products.push({
+      id: node.id,
+      title: node.title,
+      handle: node.handle,
+      tags: node.tags,
+      vendor: node.vendor,
+      productType: node.productType,
+      collectionIds: collections.map((collection) => collection.id),
+      featuredImage: node.featuredImage,
+      variants: variants.map((variant) => ({
+        id: variant.id,
+        title: variant.title,
+        price: variant.price,
+        compareAtPrice: variant.compareAtPrice,
+        sku: variant.sku,
+      })),
+    });
+  }
+  return products;
+}
+
 // Get all products with pricing information
-export async function getAllProductsWithPricing(shop: string, accessToken: string, limit = 50) {
+export async function getAllProductsWithPricing(shop: string, accessToken: string, limit = 50, options: CatalogPageOptions = {}): Promise<CatalogProduct[]> {
   const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
 
   const query = `
@@ -65,13 +255,8 @@ export async function getAllProductsWithPricing(shop: string, accessToken: strin
         pageInfo { hasNextPage endCursor }
         edges {
           node {
-            id title handle tags
-            featuredImage { url altText }
-            variants(first: 10) {
-              edges {
-                node { id title price compareAtPrice sku }
-              }
-            }
+            ${CATALOG_PRODUCT_FIELDS}
+            priceDisplay: metafield(namespace: "pricing_rules", key: "price_display") { value }
           }
         }
       }
@@ -80,10 +265,12 @@ export async function getAllProductsWithPricing(shop: string, accessToken: strin
 
   let cursor: string | null = null;
   let hasNextPage = true;
-  let allProducts: any[] = [];
+  const allProducts: CatalogProduct[] = [];
   let pagesProcessed = 0;
 
-  while (hasNextPage && pagesProcessed < 10) {
+  const maxPages = options.maxPages ?? 10;
+
+  while (hasNextPage && pagesProcessed < maxPages) {
     const variables = { first: limit, cursor }as Record<string, any>;
     const response = await fetch(endpoint, {
       method: "POST",
@@ -97,24 +284,17 @@ export async function getAllProductsWithPricing(shop: string, accessToken: strin
 
     if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
 
-    allProducts.push(...data.data.products.edges.map((edge: any) => ({
-      id: edge.node.id,
-      title: edge.node.title,
-      handle: edge.node.handle,
-      tags: edge.node.tags,
-      featuredImage: edge.node.featuredImage,
-      variants: edge.node.variants.edges.map((variantEdge: any) => ({
-        id: variantEdge.node.id,
-        title: variantEdge.node.title,
-        price: variantEdge.node.price,
-        compareAtPrice: variantEdge.node.compareAtPrice,
-        sku: variantEdge.node.sku,
-      }))
+    const nodes = data.data.products.edges.map((edge: any) => edge.node);
+    const products = await toCatalogProducts(shop, accessToken, nodes);
+    allProducts.push(...products.map((product, index) => ({
+      ...product,
+      priceDisplay: nodes[index].priceDisplay?.value || null,
     })));
 
     hasNextPage = data.data.products.pageInfo.hasNextPage;
     cursor = data.data.products.pageInfo.endCursor;
     pagesProcessed++;
+    await options.onPage?.(allProducts.length);
   }
 
   return allProducts;
@@ -122,71 +302,93 @@ export async function getAllProductsWithPricing(shop: string, accessToken: strin
 
 
 // Get specific products by IDs with pricing information
-export async function getProductsByIdsWithPricing(shop: string, accessToken: string, productIds: string[]) {
+export async function getProductsByIdsWithPricing(shop: string, accessToken: string, productIds: string[]): Promise<CatalogProduct[]> {
   const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
 
   const query = `
     query GetProductsByIdsWithPricing($ids: [ID!]!) {
       nodes(ids: $ids) {
         ... on Product {
-          id title handle tags
-          featuredImage { url altText }
-          variants(first: 10) {
-            edges { node { id title price compareAtPrice sku } }
-          }
+          ${CATALOG_PRODUCT_FIELDS}
         }
       }
     }
   `;
 
-  const response = await fetch(endpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Shopify-Access-Token": accessToken,
-    },
-    body: JSON.stringify({ query, variables: { ids: productIds } }),
-  });
-  const data = await response.json();
-  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+  // nodes takes at most 250 IDs per query
+  const products: CatalogProduct[] = [];
+  for (let start = 0; start < productIds.length; start += 250) {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables: { ids: productIds.slice(start, start + 250) } }),
+    });
+    const data = await response.json();
+    if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
 
-  return data.data.nodes
-    .filter((node: any) => node && node.id)
-    .map((node: any) => ({
-      id: node.id,
-      title: node.title,
-      handle: node.handle,
-      tags: node.tags,
-      featuredImage: node.featuredImage,
-      variants: node.variants.edges.map((variantEdge: any) => ({
-        id: variantEdge.node.id,
-        title: variantEdge.node.title,
-        price: variantEdge.node.price,
-        compareAtPrice: variantEdge.node.compareAtPrice,
-        sku: variantEdge.node.sku,
-      }))
-    }));
+    products.push(...await toCatalogProducts(
+      shop,
+      accessToken,
+      data.data.nodes.filter((node: any) => node && node.id),
+    ));
+  }
+
+  return products;
 }
 
 
-// Get products by collection IDs
-export async function getProductsByCollectionIdsWithPricing(shop: string, accessToken: string, collectionIds: string[]) {
+// Resolve variant IDs to the IDs of their parent products
+export async function getProductIdsByVariantIds(shop: string, accessToken: string, variantIds: string[]) {
   const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
 
   const query = `
-    query GetProductsByCollectionIdsWithPricing($ids: [ID!]!) {
+    query GetProductIdsByVariantIds($ids: [ID!]!) {
       nodes(ids: $ids) {
-        ... on Collection {
-          id title
-          products(first: 50) {
-            edges {
-              node {
-                id title handle tags
-                featuredImage { url altText }
-                variants(first: 10) {
-                  edges { node { id title price compareAtPrice sku } }
-                }
-              }
+        ... on ProductVariant {
+          id
+          product { id }
+        }
+      }
+    }
+  `;
+
+  const productIds: string[] = [];
+  for (let start = 0; start < variantIds.length; start += 250) {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables: { ids: variantIds.slice(start, start + 250) } }),
+    });
+    const data = await response.json();
+    if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+    productIds.push(...data.data.nodes
+      .filter((node: any) => node && node.product)
+      .map((node: any) => node.product.id));
+  }
+
+  return [...new Set(productIds)];
+}
+
+
+// Get products by collection IDs, paging through each collection's products
+export async function getProductsByCollectionIdsWithPricing(shop: string, accessToken: string, collectionIds: string[], options: CatalogPageOptions = {}): Promise<CatalogProduct[]> {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query GetProductsByCollectionIdWithPricing($id: ID!, $first: Int!, $cursor: String) {
+      collection(id: $id) {
+        products(first: $first, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          edges {
+            node {
+              ${CATALOG_PRODUCT_FIELDS}
             }
           }
         }
@@ -194,46 +396,54 @@ export async function getProductsByCollectionIdsWithPricing(shop: string, access
     }
   `;
 
-  const response = await fetch(endpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Shopify-Access-Token": accessToken,
-    },
-    body: JSON.stringify({ query, variables: { ids: collectionIds } }),
-  });
-  const data = await response.json();
-  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+  // A product in several of the collections is listed once
+  const productsById = new Map<string, CatalogProduct>();
+
+  // The page limit applies to each collection, so later ones are still read
+  const maxPages = options.maxPages ?? 5;
+
+  for (const collectionId of collectionIds) {
+    let cursor: string | null = null;
+    let hasNextPage = true;
+    let pagesProcessed = 0;
 
-  const productsMap = new Map();
-  data.data.nodes
-    .filter((node: any) => node && node.id)
-    .forEach((collection: any) => {
-      collection.products.edges.forEach((edge: any) => {
-        const product = {
-          id: edge.node.id,
-          title: edge.node.title,
-          handle: edge.node.handle,
-          tags: edge.node.tags,
-          featuredImage: edge.node.featuredImage,
-          variants: edge.node.variants.edges.map((variantEdge: any) => ({
-            id: variantEdge.node.id,
-            title: variantEdge.node.title,
-            price: variantEdge.node.price,
-            compareAtPrice: variantEdge.node.compareAtPrice,
-            sku: variantEdge.node.sku,
-          }))
-        };
-        productsMap.set(product.id, product);
+    while (hasNextPage && pagesProcessed < maxPages) {
+      const variables = { id: collectionId, first: 50, cursor }as Record<string, any>;
+      const response: Response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Shopify-Access-Token": accessToken,
+        },
+        body: JSON.stringify({ query, variables }),
       });
-    });
+      const data: any = await response.json();
+      if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+      // A deleted collection has no products
+      const connection: any = data.data.collection?.products;
+      if (!connection) break;
+
+      const nodes = connection.edges
+        .map((edge: any) => edge.node)
+        .filter((node: any) => !productsById.has(node.id));
+      for (const product of await toCatalogProducts(shop, accessToken, nodes)) {
+        productsById.set(product.id, product);
+      }
 
-  return Array.from(productsMap.values());
+      hasNextPage = connection.pageInfo.hasNextPage;
+      cursor = connection.pageInfo.endCursor;
+      pagesProcessed++;
+      await options.onPage?.(productsById.size);
+    }
+  }
+
+  return [...productsById.values()];
 }
 
 
 // Get products by tags
-export async function getProductsByTagsWithPricing(shop: string, accessToken: string, tags: string[]) {
+export async function getProductsByTagsWithPricing(shop: string, accessToken: string, tags: string[], options: CatalogPageOptions = {}): Promise<CatalogProduct[]> {
   const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
   const tagQuery = tags.map(tag => `tag:${tag}`).join(' OR ');
 
@@ -243,11 +453,7 @@ export async function getProductsByTagsWithPricing(shop: string, accessToken: st
         pageInfo { hasNextPage endCursor }
         edges {
           node {
-            id title handle tags
-            featuredImage { url altText }
-            variants(first: 10) {
-              edges { node { id title price compareAtPrice sku } }
-            }
+            ${CATALOG_PRODUCT_FIELDS}
           }
         }
       }
@@ -256,10 +462,12 @@ export async function getProductsByTagsWithPricing(shop: string, accessToken: st
 
   let cursor: string | null = null;
   let hasNextPage = true;
-  let allProducts: any[] = [];
+  const allProducts: CatalogProduct[] = [];
   let pagesProcessed = 0;
 
-  while (hasNextPage && pagesProcessed < 5) {
+  const maxPages = options.maxPages ?? 5;
+
+  while (hasNextPage && pagesProcessed < maxPages) {
     const variables = { query: tagQuery, first: 50, cursor }as Record<string, any>;
     const response = await fetch(endpoint, {
       method: "POST",
@@ -272,24 +480,16 @@ export async function getProductsByTagsWithPricing(shop: string, accessToken: st
     const data = await response.json();
     if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
 
-    allProducts.push(...data.data.products.edges.map((edge: any) => ({
-      id: edge.node.id,
-      title: edge.node.title,
-      handle: edge.node.handle,
-      tags: edge.node.tags,
-      featuredImage: edge.node.featuredImage,
-      variants: edge.node.variants.edges.map((variantEdge: any) => ({
-        id: variantEdge.node.id,
-        title: variantEdge.node.title,
-        price: variantEdge.node.price,
-        compareAtPrice: variantEdge.node.compareAtPrice,
-        sku: variantEdge.node.sku,
-      }))
-    })));
+    allProducts.push(...await toCatalogProducts(
+      shop,
+      accessToken,
+      data.data.products.edges.map((edge: any) => edge.node),
+    ));
 
     hasNextPage = data.data.products.pageInfo.hasNextPage;
     cursor = data.data.products.pageInfo.endCursor;
     pagesProcessed++;
+    await options.onPage?.(allProducts.length);
   }
 
   return allProducts;
@@ -486,3 +686,598 @@ export async function getProductsByIds(request: Request, productIds: string[]) {
     throw new Error("Failed to fetch products by IDs");
   }
 }
+
+// Write new prices to variants of a single product
+export async function updateProductVariantPrices(
+  shop: string,
+  accessToken: string,
+  productId: string,
+  variants: {
+    id: string;
+    price: string;
+    compareAtPrice?: string | null;
+    metafields?: Omit<AppMetafieldInput, "ownerId">[];
+  }[],
+) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    mutation UpdateProductVariantPrices($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+      productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+        productVariants { id price compareAtPrice }
+        userErrors { field message }
+      }
+    }
+  `;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query, variables: { productId, variants } }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  const { productVariants, userErrors } = data.data.productVariantsBulkUpdate;
+  if (userErrors.length > 0) {
+    throw new Error(`Variant update failed: ${userErrors.map((error: any) => error.message).join(", ")}`);
+  }
+
+  return productVariants;
+}
+
+// The shop's currency, its enabled presentment currencies and its markets
+export async function getShopCurrencySettings(shop: string, accessToken: string): Promise<ShopCurrencySettings> {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const shopQuery = `
+    query GetShopCurrencies {
+      shop {
+        currencyCode
+        enabledPresentmentCurrencies
+      }
+    }
+  `;
+
+  const marketsQuery = `
+    query GetMarketCurrencies {
+      markets(first: 50) {
+        nodes {
+          id
+          name
+          enabled
+          primary
+          currencySettings { baseCurrency { currencyCode } }
+          priceList { id }
+        }
+      }
+    }
+  `;
+
+  const request = (query: string) => fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query }),
+  }).then(response => response.json());
+
+  const data = await request(shopQuery);
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  // Markets need the write_markets (or read_markets) scope; without it there are no market prices
+  let markets: MarketCurrency[] = [];
+  try {
+    const marketData = await request(marketsQuery);
+    if (marketData.errors) throw new Error(`GraphQL errors: ${JSON.stringify(marketData.errors)}`);
+
+    markets = marketData.data.markets.nodes
+      .filter((market: any) => market.enabled && !market.primary)
+      .map((market: any) => ({
+        id: market.id,
+        name: market.name,
+        currencyCode: market.currencySettings?.baseCurrency?.currencyCode || data.data.shop.currencyCode,
+        priceListId: market.priceList?.id || null,
+      }));
+  } catch (error) {
+    console.error("Error fetching markets:", error);
+  }
+
+  return {
+    currencyCode: data.data.shop.currencyCode,
+    enabledPresentmentCurrencies: data.data.shop.enabledPresentmentCurrencies,
+    markets,
+  };
+}
+
+// Set fixed prices for variants on a market's price list
+export async function addPriceListFixedPrices(
+  shop: string,
+  accessToken: string,
+  priceListId: string,
+  prices: { variantId: string; price: { amount: string; currencyCode: string } }[],
+) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    mutation AddPriceListFixedPrices($priceListId: ID!, $prices: [PriceListPriceInput!]!) {
+      priceListFixedPricesAdd(priceListId: $priceListId, prices: $prices) {
+        prices { variant { id } }
+        userErrors { field message }
+      }
+    }
+  `;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query, variables: { priceListId, prices } }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  const { userErrors } = data.data.priceListFixedPricesAdd;
+  if (userErrors.length > 0) {
+    throw new Error(`Market price update failed: ${userErrors.map((error: any) => error.message).join(", ")}`);
+  }
+}
+
+// Remove fixed prices so the variants fall back to the market's converted price
+export async function deletePriceListFixedPrices(
+  shop: string,
+  accessToken: string,
+  priceListId: string,
+  variantIds: string[],
+) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    mutation DeletePriceListFixedPrices($priceListId: ID!, $variantIds: [ID!]!) {
+      priceListFixedPricesDelete(priceListId: $priceListId, variantIds: $variantIds) {
+        deletedFixedPriceVariantIds
+        userErrors { field message }
+      }
+    }
+  `;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query, variables: { priceListId, variantIds } }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  const { userErrors } = data.data.priceListFixedPricesDelete;
+  if (userErrors.length > 0) {
+    throw new Error(`Market price removal failed: ${userErrors.map((error: any) => error.message).join(", ")}`);
+  }
+}
+
+// Get customer details by IDs
+export async function getCustomersByIds(request: Request, customerIds: string[]) {
+  const { admin } = await authenticate.admin(request);
+
+  const query = `
+    query GetCustomersByIds($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on Customer {
+          id
+          displayName
+          email
+        }
+      }
+    }
+  `;
+
+  try {
+    const response = await admin.graphql(query, {
+      variables: { ids: customerIds }
+    });
+
+    const data: any = await response.json();
+
+    if (data.errors) {
+      throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+    }
+
+    return data.data.nodes
+      .filter((node: any) => node && node.id)
+      .map((node: any) => ({
+        id: node.id,
+        displayName: node.displayName,
+        email: node.email,
+      }));
+
+  } catch (error) {
+    console.error("Error fetching customers by IDs:", error);
+    throw new Error("Failed to fetch customers by IDs");
+  }
+}
+
+export interface AppMetafieldInput {
+  ownerId: string;
+  namespace: string;
+  key: string;
+  type: string;
+  value: string;
+}
+
+// Write metafields owned by the app, such as the rules the discount Function reads
+export async function setAppMetafields(shop: string, accessToken: string, metafields: AppMetafieldInput[]) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    mutation SetAppMetafields($metafields: [MetafieldsSetInput!]!) {
+      metafieldsSet(metafields: $metafields) {
+        metafields { id }
+        userErrors { field message }
+      }
+    }
+  `;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query, variables: { metafields } }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  const { userErrors } = data.data.metafieldsSet;
+  if (userErrors.length > 0) {
+    throw new Error(`Metafield update failed: ${userErrors.map((error: any) => error.message).join(", ")}`);
+  }
+}
+
+export async function deleteAppMetafields(
+  shop: string,
+  accessToken: string,
+  metafields: Pick<AppMetafieldInput, "ownerId" | "namespace" | "key">[],
+) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    mutation DeleteAppMetafields($metafields: [MetafieldIdentifierInput!]!) {
+      metafieldsDelete(metafields: $metafields) {
+        deletedMetafields { key }
+        userErrors { field message }
+      }
+    }
+  `;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query, variables: { metafields } }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  const { userErrors } = data.data.metafieldsDelete;
+  if (userErrors.length > 0) {
+    throw new Error(`Metafield removal failed: ${userErrors.map((error: any) => error.message).join(", ")}`);
+  }
+}
+
+export async function getShopId(shop: string, accessToken: string): Promise<string> {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query: `query GetShopId { shop { id } }` }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  return data.data.shop.id;
+}
+
+// This app's product discount Function; other apps' Functions are listed too
+export async function getProductDiscountFunctionId(shop: string, accessToken: string, apiKey: string): Promise<string | null> {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query GetProductDiscountFunctions {
+      shopifyFunctions(first: 25, apiType: "product_discounts") {
+        nodes {
+          id
+          app { apiKey }
+        }
+      }
+    }
+  `;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({ query }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  const fn = data.data.shopifyFunctions.nodes.find((node: any) => node.app?.apiKey === apiKey);
+  return fn?.id || null;
+}
+
+// Whether an automatic discount still exists; merchants can delete it in the admin
+export async function automaticDiscountExists(shop: string, accessToken: string, discountId: string) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({
+      query: `query GetAutomaticDiscount($id: ID!) { automaticDiscountNode(id: $id) { id } }`,
+      variables: { id: discountId },
+    }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  return Boolean(data.data.automaticDiscountNode);
+}
+
+export async function createAutomaticAppDiscount(
+  shop: string,
+  accessToken: string,
+  discount: {
+    title: string;
+    functionId: string;
+    metafields: Omit<AppMetafieldInput, "ownerId">[];
+  },
+): Promise<string> {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    mutation CreateAutomaticAppDiscount($automaticAppDiscount: DiscountAutomaticAppInput!) {
+      discountAutomaticAppCreate(automaticAppDiscount: $automaticAppDiscount) {
+        automaticAppDiscount { discountId }
+        userErrors { field message }
+      }
+    }
+  `;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken,
+    },
+    body: JSON.stringify({
+      query,
+      variables: {
+        automaticAppDiscount: {
+          title: discount.title,
+          functionId: discount.functionId,
+          startsAt: new Date().toISOString(),
+          combinesWith: { orderDiscounts: true, shippingDiscounts: true },
+          metafields: discount.metafields,
+        },
+      },
+    }),
+  });
+  const data = await response.json();
+  if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+  const { automaticAppDiscount, userErrors } = data.data.discountAutomaticAppCreate;
+  if (userErrors.length > 0) {
+    throw new Error(`Discount creation failed: ${userErrors.map((error: any) => error.message).join(", ")}`);
+  }
+
+  return automaticAppDiscount.discountId;
+}
+
+// Handles of products and collections, keyed by ID. Variants have no handle
+// and are keyed as "product-handle/Variant title". Unknown IDs are left out.
+export async function getHandlesByIds(shop: string, accessToken: string, ids: string[]) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query GetHandlesByIds($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on Product { id handle }
+        ... on Collection { id handle }
+        ... on ProductVariant { id title product { handle } }
+      }
+    }
+  `;
+
+  const handles = new Map<string, string>();
+  const uniqueIds = [...new Set(ids)];
+  for (let start = 0; start < uniqueIds.length; start += 250) {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables: { ids: uniqueIds.slice(start, start + 250) } }),
+    });
+    const data = await response.json();
+    if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+    for (const node of data.data.nodes) {
+      if (!node || !node.id) continue;
+      handles.set(node.id, node.product ? `${node.product.handle}/${node.title}` : node.handle);
+    }
+  }
+
+  return handles;
+}
+
+// Products by handle with their variant titles, for resolving handles back to IDs
+export async function getProductsByHandles(shop: string, accessToken: string, handles: string[]) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query GetProductsByHandles($query: String!) {
+      products(first: 50, query: $query) {
+        nodes {
+          id
+          handle
+          variants(first: 100) { nodes { id title } }
+        }
+      }
+    }
+  `;
+
+  const products: { id: string; handle: string; variants: { id: string; title: string }[] }[] = [];
+  const uniqueHandles = [...new Set(handles)];
+  for (let start = 0; start < uniqueHandles.length; start += 50) {
+    const search = uniqueHandles
+      .slice(start, start + 50)
+      .map((handle) => `handle:'${handle}'`)
+      .join(" OR ");
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables: { query: search } }),
+    });
+    const data = await response.json();
+    if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+    products.push(
+      ...data.data.products.nodes.map((node: any) => ({
+        id: node.id,
+        handle: node.handle,
+        variants: node.variants.nodes,
+      })),
+    );
+  }
+
+  return products;
+}
+
+export async function getCollectionsByHandles(shop: string, accessToken: string, handles: string[]) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query GetCollectionsByHandles($query: String!) {
+      collections(first: 50, query: $query) {
+        nodes { id handle }
+      }
+    }
+  `;
+
+  const collections: { id: string; handle: string }[] = [];
+  const uniqueHandles = [...new Set(handles)];
+  for (let start = 0; start < uniqueHandles.length; start += 50) {
+    const search = uniqueHandles
+      .slice(start, start + 50)
+      .map((handle) => `handle:'${handle}'`)
+      .join(" OR ");
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables: { query: search } }),
+    });
+    const data = await response.json();
+    if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+    collections.push(...data.data.collections.nodes);
+  }
+
+  return collections;
+}
+
+// Customer emails keyed by ID; customers without an email are left out
+export async function getCustomerEmailsByIds(shop: string, accessToken: string, customerIds: string[]) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query GetCustomerEmailsByIds($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on Customer { id email }
+      }
+    }
+  `;
+
+  const emails = new Map<string, string>();
+  const uniqueIds = [...new Set(customerIds)];
+  for (let start = 0; start < uniqueIds.length; start += 250) {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables: { ids: uniqueIds.slice(start, start + 250) } }),
+    });
+    const data = await response.json();
+    if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+    for (const node of data.data.nodes) {
+      if (node && node.id && node.email) emails.set(node.id, node.email);
+    }
+  }
+
+  return emails;
+}
+
+export async function getCustomersByEmails(shop: string, accessToken: string, emails: string[]) {
+  const endpoint = `https://${shop}/admin/api/2025-01/graphql.json`;
+
+  const query = `
+    query GetCustomersByEmails($query: String!) {
+      customers(first: 50, query: $query) {
+        nodes { id email }
+      }
+    }
+  `;
+
+  const customers: { id: string; email: string }[] = [];
+  const uniqueEmails = [...new Set(emails)];
+  for (let start = 0; start < uniqueEmails.length; start += 50) {
+    const search = uniqueEmails
+      .slice(start, start + 50)
+      .map((email) => `email:'${email}'`)
+      .join(" OR ");
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken,
+      },
+      body: JSON.stringify({ query, variables: { query: search } }),
+    });
+    const data = await response.json();
+    if (data.errors) throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
+
+    customers.push(...data.data.customers.nodes.filter((node: any) => node.email));
+  }
+
+  return customers;
+}
@@ -0,0 +1,220 @@
+import type { Campaign, PricingRule, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import { diffRules, recordRuleEvents } from "./pricing-audit.server";
+import { recordRuleVersions } from "./pricing-versions.server";
+import { requestPricingRuleSync } from "./pricing-sync.server";
+
+// Campaigns group pricing rules that run together, e.g. a seasonal sale.
+// A campaign owns the status and schedule of its rules: activating, pausing
+// or rescheduling the campaign copies the change to every rule in it.
+
+export const CAMPAIGN_STATUSES = ["active", "paused"] as const;
+
+export type CampaignStatus = (typeof CAMPAIGN_STATUSES)[number];
+
+export interface CampaignValues {
+  name: string;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  ruleIds: string[];
+}
+
+type StaffSession = { id: string; shop: string };
+
+type ChangedRule = { before: PricingRule; after: PricingRule };
+
+export type SaveCampaignResult =
+  | { campaign: Campaign; updated: number }
+  | { errors: Record<string, string> };
+
+export function validateCampaign(values: CampaignValues): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const { name, startsAt, endsAt } = values;
+
+  if (!name || name.trim().length < 2) {
+    errors.name = "Name must be at least 2 characters";
+  } else if (name.trim().length > 50) {
+    errors.name = "Name cannot be longer than 50 characters";
+  }
+
+  if (startsAt && isNaN(startsAt.getTime())) {
+    errors.startsAt = "Start date is not a valid date";
+  }
+
+  if (endsAt && isNaN(endsAt.getTime())) {
+    errors.endsAt = "End date is not a valid date";
+  } else if (startsAt && endsAt && endsAt <= startsAt) {
+    errors.endsAt = "End date must be after the start date";
+  }
+
+  return errors;
+}
+
+// The rule fields a campaign controls
+export function getCampaignRuleData(
+  campaign: Pick<Campaign, "status" | "startsAt" | "endsAt">,
+) {
+  return {
+    status: campaign.status === "active" ? "active" : "inactive",
+    startsAt: campaign.startsAt,
+    endsAt: campaign.endsAt,
+  };
+}
+
+// Rules in a campaign keep its status and schedule whatever a write asks
+// for, so every path that writes an existing rule passes its data through here
+export async function applyCampaignOwnership<T extends object>(
+  db: Prisma.TransactionClient,
+  rule: Pick<PricingRule, "campaignId">,
+  data: T,
+): Promise<T> {
+  if (!rule.campaignId) return data;
+  const campaign = await db.campaign.findUnique({ where: { id: rule.campaignId } });
+  return campaign ? { ...data, ...getCampaignRuleData(campaign) } : data;
+}
+
+export async function getCampaigns(shop: string) {
+  return prisma.campaign.findMany({
+    where: { shop },
+    include: { _count: { select: { rules: { where: { deletedAt: null } } } } },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function getCampaign(shop: string, campaignId: string) {
+  return prisma.campaign.findFirst({
+    where: { id: campaignId, shop },
+    include: {
+      rules: {
+        where: { deletedAt: null },
+        orderBy: [{ priority: "asc" }, { createdAt: "desc" }],
+      },
+    },
+  });
+}
+
+// Creates the campaign when campaignId is null. ruleIds is the full list of
+// rules in the campaign; rules taken out keep their last status and schedule,
+// rules added from another campaign move to this one.
+export async function saveCampaign(
+  session: StaffSession,
+  campaignId: string | null,
+  values: CampaignValues,
+): Promise<SaveCampaignResult> {
+  const errors = validateCampaign(values);
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  const result = await prisma.$transaction(async (tx): Promise<
+    { error: string } | { campaign: Campaign; changed: ChangedRule[] }
+  > => {
+    const data = {
+      name: values.name.trim(),
+      startsAt: values.startsAt,
+      endsAt: values.endsAt,
+    };
+
+    let campaign: Campaign;
+    if (campaignId) {
+      const existing = await tx.campaign.findFirst({
+        where: { id: campaignId, shop: session.shop },
+      });
+      if (!existing) {
+        return { error: "Campaign not found" };
+      }
+      campaign = await tx.campaign.update({ where: { id: campaignId }, data });
+    } else {
+      campaign = await tx.campaign.create({
+        data: {
+          id: `cmp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          shop: session.shop,
+          ...data,
+        },
+      });
+    }
+
+    await tx.pricingRule.updateMany({
+      where: { shop: session.shop, campaignId: campaign.id, id: { notIn: values.ruleIds } },
+      data: { campaignId: null },
+    });
+    await tx.pricingRule.updateMany({
+      where: { shop: session.shop, deletedAt: null, id: { in: values.ruleIds } },
+      data: { campaignId: campaign.id },
+    });
+
+    return { campaign, changed: await applyCampaignToRules(tx, campaign) };
+  });
+
+  if ("error" in result) {
+    return { errors: { general: result.error } };
+  }
+
+  await recordCampaignChanges(session, result.changed);
+  return { campaign: result.campaign, updated: result.changed.length };
+}
+
+// Returns the number of rules changed, or null when the campaign is not the shop's
+export async function setCampaignStatus(
+  session: StaffSession,
+  campaignId: string,
+  status: CampaignStatus,
+) {
+  const changed = await prisma.$transaction(async (tx) => {
+    const existing = await tx.campaign.findFirst({
+      where: { id: campaignId, shop: session.shop },
+    });
+    if (!existing) return null;
+
+    const campaign = await tx.campaign.update({
+      where: { id: campaignId },
+      data: { status },
+    });
+    return applyCampaignToRules(tx, campaign);
+  });
+
+  if (!changed) return null;
+  await recordCampaignChanges(session, changed);
+  return changed.length;
+}
+
+// The rules stay as they are, outside any campaign
+export async function deleteCampaign(shop: string, campaignId: string) {
+  const result = await prisma.campaign.deleteMany({
+    where: { id: campaignId, shop },
+  });
+  return result.count;
+}
+
+async function applyCampaignToRules(
+  tx: Prisma.TransactionClient,
+  campaign: Campaign,
+): Promise<ChangedRule[]> {
+  const rules = await tx.pricingRule.findMany({
+    where: { campaignId: campaign.id, deletedAt: null },
+  });
+  const data = getCampaignRuleData(campaign);
+
+  const changed: ChangedRule[] = [];
+  for (const before of rules) {
+    if (Object.keys(diffRules(before, { ...before, ...data })).length === 0) continue;
+    const after = await tx.pricingRule.update({ where: { id: before.id }, data });
+    changed.push({ before, after });
+  }
+  return changed;
+}
+
+async function recordCampaignChanges(session: StaffSession, changed: ChangedRule[]) {
+  if (changed.length === 0) return;
+  await recordRuleEvents(
+    session,
+    changed.map(({ before, after }) => ({
+      ruleId: after.id,
+      ruleName: after.name,
+      action: "campaign" as const,
+      changes: diffRules(before, after),
+    })),
+  );
+  await recordRuleVersions(session, changed.map(({ after }) => after));
+  await requestPricingRuleSync(session.shop);
+}
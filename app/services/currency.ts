@@ -0,0 +1,101 @@
+// Currency helpers shared by the editor, the previews and the pricing engine.
+// Decimal rules come from Intl, so JPY and VND get no minor units while
+// EUR and USD get two.
+
+export interface MarketCurrency {
+  id: string;
+  name: string;
+  currencyCode: string;
+  priceListId: string | null;
+}
+
+export interface ShopCurrencySettings {
+  currencyCode: string;
+  enabledPresentmentCurrencies: string[];
+  markets: MarketCurrency[];
+}
+
+// A rule's fixed price for one market, stored in PricingRule.marketPrices
+export interface MarketPrice {
+  marketId: string;
+  currencyCode: string;
+  price: number;
+}
+
+export const DEFAULT_CURRENCY_CODE = "USD";
+
+export function getCurrencyDecimals(currencyCode: string = DEFAULT_CURRENCY_CODE): number {
+  try {
+    return new Intl.NumberFormat("en", {
+      style: "currency",
+      currency: currencyCode,
+    }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+export function roundToCurrency(amount: number, currencyCode?: string): number {
+  const factor = Math.pow(10, getCurrencyDecimals(currencyCode));
+  return Math.round(amount * factor) / factor;
+}
+
+// Amount as the Admin API expects it, e.g. "19.90" or "2000" for JPY
+export function toMoneyAmount(amount: number, currencyCode?: string): string {
+  return amount.toFixed(getCurrencyDecimals(currencyCode));
+}
+
+export function formatMoney(
+  amount: number,
+  currencyCode: string = DEFAULT_CURRENCY_CODE,
+  locale?: string,
+): string {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: currencyCode,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currencyCode}`;
+  }
+}
+
+// Symbol used as a text field prefix, e.g. "€" or "₫"
+export function getCurrencySymbol(
+  currencyCode: string = DEFAULT_CURRENCY_CODE,
+  locale?: string,
+): string {
+  try {
+    const symbol = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: currencyCode,
+    })
+      .formatToParts(0)
+      .find((part) => part.type === "currency");
+    return symbol?.value || currencyCode;
+  } catch {
+    return currencyCode;
+  }
+}
+
+// Market prices are JSON and may hold an array or a serialized array
+export function parseMarketPrices(value: unknown): MarketPrice[] {
+  let prices = value;
+  if (typeof prices === "string") {
+    try {
+      prices = JSON.parse(prices);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(prices)) return [];
+
+  return prices.filter(
+    (entry): entry is MarketPrice =>
+      entry &&
+      typeof entry.marketId === "string" &&
+      typeof entry.currencyCode === "string" &&
+      typeof entry.price === "number" &&
+      !isNaN(entry.price),
+  );
+}
@@ -0,0 +1,113 @@
+// Which shoppers a pricing rule applies to. Shared by the editor, the rule
+// list and the pricing engine, so it must stay free of server-only imports.
+
+export type CustomerEligibility =
+  | "all"
+  | "logged-in"
+  | "customer-tags"
+  | "specific-customers";
+
+// The shopper a price is resolved for; null is an anonymous visitor
+export interface PricingCustomer {
+  id: string;
+  tags: string[];
+}
+
+export const CUSTOMER_ELIGIBILITY_OPTIONS: {
+  label: string;
+  value: CustomerEligibility;
+}[] = [
+  { label: "All customers", value: "all" },
+  { label: "Logged-in customers", value: "logged-in" },
+  { label: "Customers with specific tags", value: "customer-tags" },
+  { label: "Specific customers", value: "specific-customers" },
+];
+
+// Stands in for a shopper the rule targets when previewing its prices
+export const PREVIEW_CUSTOMER_ID = "preview-customer";
+
+function toStringList(value: unknown): string[] {
+  let list = value;
+  if (typeof list === "string") {
+    try {
+      list = JSON.parse(list);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(list) ? list.map(String) : [];
+}
+
+export function isCustomerEligible(
+  rule: {
+    customerEligibility?: string | null;
+    customerTags?: unknown;
+    customerIds?: unknown;
+  },
+  customer: PricingCustomer | null,
+): boolean {
+  switch (rule.customerEligibility || "all") {
+    case "all":
+      return true;
+    case "logged-in":
+      return customer !== null;
+    case "customer-tags": {
+      if (!customer) return false;
+      const tags = customer.tags.map((tag) => tag.toLowerCase());
+      return toStringList(rule.customerTags).some((tag) =>
+        tags.includes(tag.toLowerCase()),
+      );
+    }
+    case "specific-customers":
+      return (
+        customer !== null &&
+        toStringList(rule.customerIds).includes(customer.id)
+      );
+    default:
+      return false;
+  }
+}
+
+// A shopper the rule applies to, or null when it applies to everyone
+export function getEligiblePreviewCustomer(rule: {
+  customerEligibility?: string | null;
+  customerTags?: unknown;
+  customerIds?: unknown;
+}): PricingCustomer | null {
+  switch (rule.customerEligibility || "all") {
+    case "logged-in":
+      return { id: PREVIEW_CUSTOMER_ID, tags: [] };
+    case "customer-tags":
+      return { id: PREVIEW_CUSTOMER_ID, tags: toStringList(rule.customerTags) };
+    case "specific-customers":
+      return {
+        id: toStringList(rule.customerIds)[0] || PREVIEW_CUSTOMER_ID,
+        tags: [],
+      };
+    default:
+      return null;
+  }
+}
+
+export function describeCustomerEligibility(rule: {
+  customerEligibility?: string | null;
+  customerTags?: unknown;
+  customerIds?: unknown;
+}): string {
+  switch (rule.customerEligibility || "all") {
+    case "logged-in":
+      return "Logged-in customers";
+    case "customer-tags": {
+      const tags = toStringList(rule.customerTags);
+      return tags.length > 0
+        ? `Customers tagged ${tags.join(", ")}`
+        : "Customers with specific tags";
+    }
+    case "specific-customers": {
+      const count = toStringList(rule.customerIds).length;
+      return `${count} specific customer${count !== 1 ? "s" : ""}`;
+    }
+    default:
+      return "All customers";
+  }
+}
@@ -0,0 +1,169 @@
+import prisma from "../db.server";
+import {
+  registerJobHandler,
+  startJobWorker,
+  type RuleJobPayload,
+} from "./jobs.server";
+import { getShopCurrencySettings } from "./api.graphql";
+import {
+  getProductsForRule,
+  priceProductsForPreview,
+  type PreviewJobPayload,
+} from "./pricing.server";
+import {
+  publishRulePrices,
+  unpublishRulePrices,
+} from "./pricing-publish.server";
+import {
+  SYNC_JOB_TYPE,
+  republishOtherRules,
+  requestPricingRuleSync,
+  syncPricingRules,
+} from "./pricing-sync.server";
+import { PURGE_JOB_TYPE, purgeExpiredRules } from "./pricing-trash.server";
+import {
+  CONFLICTS_JOB_TYPE,
+  RULE_CONFLICTS_JOB_TYPE,
+  describeRuleConflicts,
+  getConflictsForRule,
+  getShopRuleConflicts,
+} from "./pricing-conflicts.server";
+import {
+  IMPORT_JOB_TYPE,
+  applyRuleImport,
+  isImportValid,
+  type ImportJobPayload,
+} from "./pricing-transfer.server";
+import { planPricingRuleImport } from "./pricing-csv.server";
+import {
+  isPricingRuleBundle,
+  planPricingRuleBundleImport,
+} from "./pricing-bundle.server";
+
+// Every background job type the app knows how to run. Imported once from the
+// server entry so handlers exist before the worker claims any job.
+
+async function getShopAccessToken(shop: string) {
+  const dbShop = await prisma.shop.findUnique({ where: { shop } });
+  if (!dbShop) {
+    throw new Error(`Shop not found in database: ${shop}`);
+  }
+  return dbShop.accessToken;
+}
+
+registerJobHandler<RuleJobPayload>("publish-prices", async (job, context) => {
+  const accessToken = await getShopAccessToken(job.shop);
+  const result = await publishRulePrices(job.shop, accessToken, job.payload.ruleId, {
+    maxPages: Infinity,
+    onProgress: context.setProgress,
+    checkpoint: context.throwIfCancelled,
+  });
+  // Variants the rule stopped winning were restored; another rule may win them
+  if (result.restored > 0) {
+    await republishOtherRules(job.shop, job.payload.ruleId);
+  }
+  // Published rules move from the checkout discount to catalog prices
+  await requestPricingRuleSync(job.shop);
+  return result;
+});
+
+registerJobHandler<RuleJobPayload>("unpublish-prices", async (job, context) => {
+  const accessToken = await getShopAccessToken(job.shop);
+  const result = await unpublishRulePrices(job.shop, accessToken, job.payload.ruleId, {
+    onProgress: context.setProgress,
+    checkpoint: context.throwIfCancelled,
+  });
+  if (result.restored > 0) {
+    await republishOtherRules(job.shop, job.payload.ruleId);
+  }
+  await requestPricingRuleSync(job.shop);
+  return result;
+});
+
+registerJobHandler<PreviewJobPayload>("preview-prices", async (job, context) => {
+  const accessToken = await getShopAccessToken(job.shop);
+  const { rule } = job.payload;
+
+  const products = await getProductsForRule(job.shop, accessToken, rule, {
+    maxPages: Infinity,
+    onPage: async (fetchedCount) => {
+      await context.throwIfCancelled();
+      await context.setProgress(fetchedCount);
+    },
+  });
+  await context.setProgress(products.length, products.length);
+
+  const { currencyCode } = await getShopCurrencySettings(job.shop, accessToken);
+  return {
+    products: await priceProductsForPreview(job.shop, products, rule, currencyCode),
+    currencyCode,
+  };
+});
+
+registerJobHandler(SYNC_JOB_TYPE, async (job, context) => {
+  const accessToken = await getShopAccessToken(job.shop);
+  return syncPricingRules(job.shop, accessToken, {
+    onPage: async (fetchedCount) => {
+      await context.throwIfCancelled();
+      await context.setProgress(fetchedCount);
+    },
+  });
+});
+
+registerJobHandler(CONFLICTS_JOB_TYPE, async (job, context) => {
+  const accessToken = await getShopAccessToken(job.shop);
+  const conflicts = await getShopRuleConflicts(job.shop, accessToken, {
+    maxPages: Infinity,
+    onPage: async (fetchedCount) => {
+      await context.throwIfCancelled();
+      await context.setProgress(fetchedCount);
+    },
+  });
+  return { conflicts };
+});
+
+registerJobHandler<RuleJobPayload>(RULE_CONFLICTS_JOB_TYPE, async (job, context) => {
+  const rule = await prisma.pricingRule.findFirst({
+    where: { id: job.payload.ruleId, shop: job.shop, deletedAt: null },
+  });
+  if (!rule) return { warnings: [] };
+
+  const accessToken = await getShopAccessToken(job.shop);
+  const conflicts = await getConflictsForRule(job.shop, accessToken, rule, {
+    maxPages: Infinity,
+    onPage: async (fetchedCount) => {
+      await context.throwIfCancelled();
+      await context.setProgress(fetchedCount);
+    },
+  });
+  return { warnings: describeRuleConflicts(rule.id, conflicts) };
+});
+
+registerJobHandler<ImportJobPayload>(IMPORT_JOB_TYPE, async (job, context) => {
+  const accessToken = await getShopAccessToken(job.shop);
+  const { file, sessionId } = job.payload;
+
+  const plan = isPricingRuleBundle(file)
+    ? await planPricingRuleBundleImport(job.shop, accessToken, file)
+    : await planPricingRuleImport(job.shop, accessToken, file);
+  if (!isImportValid(plan)) {
+    throw new Error("The file no longer imports cleanly. Preview it again to see why.");
+  }
+
+  const pending = plan.rows.filter(
+    (row) => row.action === "create" || row.action === "update",
+  ).length;
+  await context.setProgress(0, pending);
+  await context.throwIfCancelled();
+
+  // Every row is written in one transaction, so progress jumps to the end
+  const result = await applyRuleImport({ id: sessionId, shop: job.shop }, plan);
+  await context.setProgress(pending, pending);
+  return result;
+});
+
+registerJobHandler(PURGE_JOB_TYPE, async (job) => {
+  return purgeExpiredRules(job.shop);
+});
+
+startJobWorker();
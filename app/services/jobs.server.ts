@@ -0,0 +1,281 @@
+import type { Job, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+
+// Persistent job queue. Jobs are rows in the Job table and are picked up by an
+// in-process worker, so long catalog operations never run inside a request.
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface JobContext {
+  setProgress: (progress: number, total?: number) => Promise<void>;
+  throwIfCancelled: () => Promise<void>;
+}
+
+// A job as its handler sees it, with the payload its type is enqueued with
+export type TypedJob<P> = Omit<Job, "payload"> & { payload: P };
+
+export type JobHandler<P> = (job: TypedJob<P>, context: JobContext) => Promise<unknown>;
+
+// Publish, unpublish and rule conflict jobs work on one rule
+export interface RuleJobPayload {
+  ruleId: string;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+const POLL_INTERVAL_MS = 5000;
+const RETRY_DELAY_MS = 30000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+// Long enough for the UI to read a finished job's result
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const handlers = new Map<string, JobHandler<unknown>>();
+
+declare global {
+  var jobWorkerGlobal:
+    | { timer: NodeJS.Timeout | null; sweepTimer: NodeJS.Timeout | null; busy: boolean }
+    | undefined;
+}
+
+const worker = (global.jobWorkerGlobal ??= { timer: null, sweepTimer: null, busy: false });
+
+// Every job of a type is enqueued with the same payload shape, so the
+// handler reads it as that type
+export function registerJobHandler<P = Record<string, never>>(
+  type: string,
+  handler: JobHandler<P>,
+) {
+  handlers.set(type, (job, context) =>
+    handler({ ...job, payload: getJobPayload<P>(job) }, context),
+  );
+}
+
+// Read a job's payload as its type's shape, e.g. the rule of an active job
+export function getJobPayload<P>(job: { payload: unknown }) {
+  return (job.payload ?? {}) as P;
+}
+
+export async function enqueueJob(
+  shop: string,
+  type: string,
+  payload: Prisma.InputJsonValue = {},
+  options: { maxAttempts?: number; runAt?: Date } = {},
+) {
+  const job = await prisma.job.create({
+    data: {
+      id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      shop,
+      type,
+      payload,
+      maxAttempts: options.maxAttempts ?? 3,
+      runAt: options.runAt,
+    },
+  });
+
+  setImmediate(runPendingJobs);
+  return job;
+}
+
+export async function getJob(shop: string, id: string) {
+  return prisma.job.findFirst({ where: { id, shop } });
+}
+
+export async function getActiveJobs(shop: string, types: string[]) {
+  return prisma.job.findMany({
+    where: { shop, type: { in: types }, status: { in: ["queued", "running"] } },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function getLatestJob(shop: string, type: string, statuses?: JobStatus[]) {
+  return prisma.job.findFirst({
+    where: { shop, type, ...(statuses ? { status: { in: statuses } } : {}) },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// Queued jobs are cancelled at once; running jobs stop at their next checkpoint
+export async function cancelJob(shop: string, id: string) {
+  const job = await getJob(shop, id);
+  if (!job) return null;
+
+  if (job.status === "queued") {
+    return prisma.job.update({
+      where: { id },
+      data: { status: "cancelled", finishedAt: new Date() },
+    });
+  }
+  if (job.status === "running") {
+    return prisma.job.update({
+      where: { id },
+      data: { cancelRequested: true },
+    });
+  }
+  return job;
+}
+
+function createContext(jobId: string): JobContext {
+  return {
+    setProgress: async (progress, total) => {
+      await prisma.job.update({
+        where: { id: jobId },
+        data: total === undefined ? { progress } : { progress, total },
+      });
+    },
+    throwIfCancelled: async () => {
+      const current = await prisma.job.findUnique({
+        where: { id: jobId },
+        select: { cancelRequested: true },
+      });
+      if (current?.cancelRequested) {
+        throw new JobCancelledError();
+      }
+    },
+  };
+}
+
+async function runJob(job: Job) {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "failed",
+        error: `No handler registered for job type "${job.type}"`,
+        finishedAt: new Date(),
+      },
+    });
+    return;
+  }
+
+  try {
+    const result = await handler(job, createContext(job.id));
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "completed",
+        result: (result ?? null) as Prisma.InputJsonValue,
+        error: null,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: "cancelled", finishedAt: new Date() },
+      });
+      return;
+    }
+
+    console.error(`Job ${job.id} (${job.type}) failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    const canRetry = job.attempts < job.maxAttempts;
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: canRetry
+        ? {
+            status: "queued",
+            error: message,
+            runAt: new Date(Date.now() + RETRY_DELAY_MS * job.attempts),
+          }
+        : { status: "failed", error: message, finishedAt: new Date() },
+    });
+  }
+}
+
+// Claim one due job at a time; the conditional update keeps two ticks from
+// picking up the same row
+async function claimNextJob() {
+  const next = await prisma.job.findFirst({
+    where: { status: "queued", runAt: { lte: new Date() } },
+    orderBy: { runAt: "asc" },
+  });
+  if (!next) return null;
+
+  const claimed = await prisma.job.updateMany({
+    where: { id: next.id, status: "queued" },
+    data: {
+      status: "running",
+      startedAt: new Date(),
+      attempts: { increment: 1 },
+    },
+  });
+  if (claimed.count === 0) return null;
+
+  return prisma.job.findUnique({ where: { id: next.id } });
+}
+
+export async function runPendingJobs() {
+  if (worker.busy) return;
+  worker.busy = true;
+
+  try {
+    let job = await claimNextJob();
+    while (job) {
+      await runJob(job);
+      job = await claimNextJob();
+    }
+  } catch (error) {
+    console.error("Job worker error:", error);
+  } finally {
+    worker.busy = false;
+  }
+}
+
+// Finished jobs hold whole result payloads, e.g. priced catalogs, so they are
+// deleted once past retention. The latest job of each shop, type and status
+// stays, since pages such as the conflicts report show the last run.
+export async function purgeFinishedJobs(now: Date = new Date()) {
+  const cutoff = new Date(now.getTime() - FINISHED_JOB_RETENTION_MS);
+  const latest = await prisma.job.groupBy({
+    by: ["shop", "type", "status"],
+    where: { finishedAt: { not: null } },
+    _max: { createdAt: true },
+  });
+
+  const result = await prisma.job.deleteMany({
+    where: {
+      finishedAt: { lt: cutoff },
+      NOT: {
+        OR: latest.map((group) => ({
+          shop: group.shop,
+          type: group.type,
+          status: group.status,
+          createdAt: group._max.createdAt ?? undefined,
+        })),
+      },
+    },
+  });
+  return result.count;
+}
+
+export function startJobWorker() {
+  if (worker.timer) return;
+  worker.timer = setInterval(runPendingJobs, POLL_INTERVAL_MS);
+  worker.sweepTimer = setInterval(() => {
+    purgeFinishedJobs().catch((error) =>
+      console.error("Failed to purge finished jobs:", error),
+    );
+  }, SWEEP_INTERVAL_MS);
+
+  // Jobs left running by a previous process were interrupted; queue them
+  // again before this worker starts claiming
+  worker.busy = true;
+  prisma.job
+    .updateMany({
+      where: { status: "running" },
+      data: { status: "queued" },
+    })
+    .catch((error) => console.error("Failed to requeue interrupted jobs:", error))
+    .finally(() => {
+      worker.busy = false;
+      runPendingJobs();
+    });
+}
@@ -0,0 +1,134 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+
+// Audit log of pricing rule changes: who did what to which rule, with the
+// fields that changed. Events outlive their rule, so deleted rules keep
+// their history.
+
+export type RuleEventAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "duplicate"
+  | "bulk-delete"
+  | "bulk-duplicate"
+  | "bulk-update"
+  | "reorder"
+  | "campaign"
+  | "undelete"
+  | "purge"
+  | "restore";
+
+export type RuleChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface RuleEventInput {
+  ruleId: string;
+  ruleName: string;
+  action: RuleEventAction;
+  changes?: RuleChanges | null;
+}
+
+// The fields a merchant edits; ids, shop and timestamps are left out
+export const AUDITED_FIELDS = [
+  "name",
+  "priority",
+  "status",
+  "applyTo",
+  "productIds",
+  "variantIds",
+  "collectionIds",
+  "tagIds",
+  "conditions",
+  "excludedProductIds",
+  "excludedCollectionIds",
+  "excludedTags",
+  "priceType",
+  "amount",
+  "tiers",
+  "compareAtMode",
+  "compareAtAmount",
+  "roundingMode",
+  "minPrice",
+  "maxDiscountPercent",
+  "marketPrices",
+  "customerEligibility",
+  "customerTags",
+  "customerIds",
+  "startsAt",
+  "endsAt",
+] as const;
+
+// Dates and JSON columns compare by value
+const normalize = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+export type RuleSnapshot = Record<(typeof AUDITED_FIELDS)[number], unknown>;
+
+// A stored rule, or rule values not saved yet
+type AuditedRule = Partial<RuleSnapshot>;
+
+// The audited fields of a rule as plain JSON
+export function snapshotRule(rule: AuditedRule): RuleSnapshot {
+  return Object.fromEntries(
+    AUDITED_FIELDS.map((field) => [field, normalize(rule[field])]),
+  ) as RuleSnapshot;
+}
+
+// Changed fields between two versions of a rule; pass null as `before` for
+// a new rule
+export function diffRules(
+  before: AuditedRule | null,
+  after: AuditedRule,
+): RuleChanges {
+  const changes: RuleChanges = {};
+  for (const field of AUDITED_FIELDS) {
+    const from = normalize(before?.[field]);
+    const to = normalize(after[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Online sessions carry the staff member; offline sessions (background work,
+// or apps without online tokens) have no user
+export async function getStaffMember(session: { id: string }) {
+  const stored = await prisma.session.findUnique({
+    where: { id: session.id },
+    select: { firstName: true, lastName: true, email: true },
+  });
+  const name = [stored?.firstName, stored?.lastName].filter(Boolean).join(" ");
+  return { staffName: name || null, staffEmail: stored?.email || null };
+}
+
+export async function recordRuleEvents(
+  session: { id: string; shop: string },
+  events: RuleEventInput[],
+) {
+  if (events.length === 0) return;
+
+  const staff = await getStaffMember(session);
+  await prisma.pricingRuleEvent.createMany({
+    data: events.map((event) => ({
+      id: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      shop: session.shop,
+      ruleId: event.ruleId,
+      ruleName: event.ruleName,
+      action: event.action,
+      changes: (event.changes ?? undefined) as Prisma.InputJsonValue | undefined,
+      ...staff,
+    })),
+  });
+}
+
+export async function getRuleEvents(shop: string, ruleId: string, limit = 50) {
+  return prisma.pricingRuleEvent.findMany({
+    where: { shop, ruleId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
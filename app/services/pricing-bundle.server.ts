@@ -0,0 +1,210 @@
+import prisma from "../db.server";
+import { getShopCurrencySettings } from "./api.graphql";
+import { parseConditionTree } from "./pricing-conditions";
+import { parseQuantityTiers } from "./pricing-tiers";
+import {
+  planRuleImport,
+  toPortableRules,
+  type ImportPlan,
+  type PortableRule,
+  type RuleImportInput,
+} from "./pricing-transfer.server";
+
+// JSON bundles move rules between shops, e.g. from staging to production.
+// Rules reference products and collections by handle (see
+// pricing-transfer.server.ts) and are matched to the target shop's rules by
+// name: a rule with the same name is updated, anything else is created.
+
+export const BUNDLE_FORMAT = "pricing-rule-bundle";
+
+// Bump when the shape of PortableRule changes; older bundles must keep
+// importing
+export const BUNDLE_VERSION = 1;
+
+export interface PricingRuleBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  shop: string;
+  // Amounts are in this currency
+  currencyCode: string;
+  rules: PortableRule[];
+}
+
+// Only the given rules, or all of the shop's rules
+export async function exportPricingRuleBundle(
+  shop: string,
+  accessToken: string,
+  ruleIds?: string[],
+): Promise<PricingRuleBundle> {
+  const rules = await prisma.pricingRule.findMany({
+    where: { shop, deletedAt: null, ...(ruleIds ? { id: { in: ruleIds } } : {}) },
+    orderBy: [{ priority: "asc" }, { createdAt: "desc" }],
+  });
+  const [portableRules, currencySettings] = await Promise.all([
+    toPortableRules(shop, accessToken, rules),
+    getShopCurrencySettings(shop, accessToken),
+  ]);
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    shop,
+    currencyCode: currencySettings.currencyCode,
+    rules: portableRules,
+  };
+}
+
+export const isPricingRuleBundle = (text: string) => text.trimStart().startsWith("{");
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && !isNaN(value);
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+// Copy the fields of one bundled rule that have the expected type. Fields
+// that are missing stay undefined; fields of the wrong type are reported.
+function readBundledRule(raw: unknown) {
+  const rule: Partial<PortableRule> = {};
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") {
+    return { rule, errors: ["The rule is not an object"] };
+  }
+  const source = raw as Record<string, unknown>;
+
+  const copy = <K extends keyof PortableRule>(
+    key: K,
+    valid: (value: unknown) => boolean,
+    expected: string,
+  ) => {
+    const value = source[key];
+    if (value === undefined) return;
+    if (valid(value)) {
+      rule[key] = value as PortableRule[K];
+    } else {
+      errors.push(`"${key}" must be ${expected}`);
+    }
+  };
+  const orNull = (valid: (value: unknown) => boolean) => (value: unknown) =>
+    value === null || valid(value);
+
+  copy("name", isString, "text");
+  copy("priority", isNumber, "a number");
+  copy("status", isString, "text");
+  copy("applyTo", isString, "text");
+  copy("products", isStringList, "a list of handles");
+  copy("variants", isStringList, "a list of variants");
+  copy("collections", isStringList, "a list of handles");
+  copy("tags", isStringList, "a list of tags");
+  copy("excludedProducts", isStringList, "a list of handles");
+  copy("excludedCollections", isStringList, "a list of handles");
+  copy("excludedTags", isStringList, "a list of tags");
+  copy("priceType", isString, "text");
+  copy("amount", isNumber, "a number");
+  copy("compareAtMode", isString, "text");
+  copy("compareAtAmount", orNull(isNumber), "a number or null");
+  copy("roundingMode", isString, "text");
+  copy("minPrice", orNull(isNumber), "a number or null");
+  copy("maxDiscountPercent", orNull(isNumber), "a number or null");
+  copy("customerEligibility", isString, "text");
+  copy("customerTags", isStringList, "a list of tags");
+  copy("customers", isStringList, "a list of emails");
+  copy("startsAt", orNull(isString), "a date or null");
+  copy("endsAt", orNull(isString), "a date or null");
+  copy(
+    "marketPrices",
+    (value) =>
+      Array.isArray(value) &&
+      value.every(
+        (price) =>
+          price &&
+          isString(price.market) &&
+          isString(price.currencyCode) &&
+          isNumber(price.price),
+      ),
+    "a list of market prices",
+  );
+
+  if (source.conditions !== undefined) {
+    rule.conditions = source.conditions === null ? null : parseConditionTree(source.conditions);
+    if (source.conditions !== null && !rule.conditions) {
+      errors.push('"conditions" is not a valid condition tree');
+    }
+  }
+  if (source.tiers !== undefined) {
+    rule.tiers = Array.isArray(source.tiers) ? parseQuantityTiers(source.tiers) : null;
+  }
+
+  return { rule, errors };
+}
+
+// Parse a bundle and resolve it against the target shop without saving
+// anything
+export async function planPricingRuleBundleImport(
+  shop: string,
+  accessToken: string,
+  text: string,
+): Promise<ImportPlan> {
+  let bundle: Partial<PricingRuleBundle>;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    return { errors: ["The file is not valid JSON"], rows: [] };
+  }
+
+  if (!bundle || bundle.format !== BUNDLE_FORMAT) {
+    return { errors: ["The file is not a pricing rule bundle"], rows: [] };
+  }
+  if (!isNumber(bundle.version) || bundle.version > BUNDLE_VERSION) {
+    return {
+      errors: [`Bundle version ${bundle.version} is not supported; update the app and try again`],
+      rows: [],
+    };
+  }
+  if (!Array.isArray(bundle.rules) || bundle.rules.length === 0) {
+    return { errors: ["The bundle has no rules"], rows: [] };
+  }
+
+  const currencySettings = await getShopCurrencySettings(shop, accessToken);
+  if (bundle.currencyCode && bundle.currencyCode !== currencySettings.currencyCode) {
+    return {
+      errors: [
+        `The bundle's amounts are in ${bundle.currencyCode} but this shop uses ${currencySettings.currencyCode}`,
+      ],
+      rows: [],
+    };
+  }
+
+  const existingRules = await prisma.pricingRule.findMany({ where: { shop, deletedAt: null } });
+  const rulesByName = new Map<string, typeof existingRules>();
+  for (const rule of existingRules) {
+    const key = rule.name.trim().toLowerCase();
+    rulesByName.set(key, [...(rulesByName.get(key) || []), rule]);
+  }
+  const seenNames = new Set<string>();
+
+  const inputs = bundle.rules.map((raw, index): RuleImportInput => {
+    const { rule, errors } = readBundledRule(raw);
+    const key = (rule.name || "").trim().toLowerCase();
+    const matches = rulesByName.get(key) || [];
+
+    if (matches.length > 1) {
+      errors.push(`${matches.length} rules on this shop are named "${rule.name}"; rename them so one can be updated`);
+    }
+    if (key && seenNames.has(key)) {
+      errors.push(`The bundle has more than one rule named "${rule.name}"`);
+    }
+    seenNames.add(key);
+
+    return {
+      row: index + 1,
+      rule,
+      existing: matches.length === 1 ? matches[0] : null,
+      errors,
+    };
+  });
+
+  return { errors: [], rows: await planRuleImport(shop, accessToken, inputs) };
+}
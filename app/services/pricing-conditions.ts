@@ -0,0 +1,283 @@
+// Condition trees for rules that target products by their attributes.
+// Shared by the editor and the pricing engine, so it must stay free of
+// server-only imports.
+
+export const CONDITION_TREE_VERSION = 1;
+
+export type ConditionField =
+  | "collection"
+  | "tag"
+  | "vendor"
+  | "productType"
+  | "price";
+
+export type ConditionOperator =
+  | "any"
+  | "none"
+  | "is"
+  | "is_not"
+  | "contains"
+  | "greater_than"
+  | "less_than"
+  | "between";
+
+export interface PricingCondition {
+  type: "condition";
+  id: string;
+  field: ConditionField;
+  operator: ConditionOperator;
+  // Collection IDs, tags, vendors or product types; prices as [amount] or [min, max]
+  values: string[];
+}
+
+export interface ConditionGroup {
+  type: "group";
+  id: string;
+  operator: "and" | "or";
+  children: ConditionNode[];
+}
+
+export type ConditionNode = PricingCondition | ConditionGroup;
+
+export interface ConditionTree {
+  version: number;
+  root: ConditionGroup;
+}
+
+// What a condition is evaluated against: one variant and its product
+export interface ConditionSubject {
+  price: number;
+  collectionIds: string[];
+  tags: string[];
+  vendor: string;
+  productType: string;
+}
+
+export const CONDITION_FIELD_OPTIONS: { label: string; value: ConditionField }[] = [
+  { label: "Collection", value: "collection" },
+  { label: "Tag", value: "tag" },
+  { label: "Vendor", value: "vendor" },
+  { label: "Product type", value: "productType" },
+  { label: "Price", value: "price" },
+];
+
+export const CONDITION_OPERATOR_OPTIONS: Record<
+  ConditionField,
+  { label: string; value: ConditionOperator }[]
+> = {
+  collection: [
+    { label: "is in any of", value: "any" },
+    { label: "is in none of", value: "none" },
+  ],
+  tag: [
+    { label: "has any of", value: "any" },
+    { label: "has none of", value: "none" },
+  ],
+  vendor: [
+    { label: "is", value: "is" },
+    { label: "is not", value: "is_not" },
+    { label: "contains", value: "contains" },
+  ],
+  productType: [
+    { label: "is", value: "is" },
+    { label: "is not", value: "is_not" },
+    { label: "contains", value: "contains" },
+  ],
+  price: [
+    { label: "is greater than", value: "greater_than" },
+    { label: "is less than", value: "less_than" },
+    { label: "is between", value: "between" },
+  ],
+};
+
+const MAX_GROUP_DEPTH = 3;
+
+const createNodeId = () => `c_${Math.random().toString(36).substr(2, 9)}`;
+
+export function createCondition(field: ConditionField = "collection"): PricingCondition {
+  return {
+    type: "condition",
+    id: createNodeId(),
+    field,
+    operator: CONDITION_OPERATOR_OPTIONS[field][0].value,
+    values: [],
+  };
+}
+
+export function createConditionGroup(operator: "and" | "or" = "and"): ConditionGroup {
+  return {
+    type: "group",
+    id: createNodeId(),
+    operator,
+    children: [createCondition()],
+  };
+}
+
+export function createConditionTree(): ConditionTree {
+  return { version: CONDITION_TREE_VERSION, root: createConditionGroup() };
+}
+
+// Read a stored tree; returns null for anything that is not a known version
+export function parseConditionTree(value: unknown): ConditionTree | null {
+  let tree = value;
+  if (typeof tree === "string") {
+    try {
+      tree = JSON.parse(tree);
+    } catch {
+      return null;
+    }
+  }
+  if (!tree || typeof tree !== "object") return null;
+
+  const candidate = tree as Partial<ConditionTree>;
+  if (candidate.version !== CONDITION_TREE_VERSION) return null;
+  if (!candidate.root || candidate.root.type !== "group") return null;
+
+  return candidate as ConditionTree;
+}
+
+function validateCondition(condition: PricingCondition): string | null {
+  const operators = CONDITION_OPERATOR_OPTIONS[condition.field];
+  if (!operators) {
+    return "Every condition needs a valid field";
+  }
+  if (!operators.some((option) => option.value === condition.operator)) {
+    return "Every condition needs a valid operator";
+  }
+
+  const values = (condition.values || []).filter((value) => String(value).trim());
+  if (condition.field !== "price") {
+    return values.length > 0 ? null : "Every condition needs at least one value";
+  }
+
+  const prices = values.map((value) => parseFloat(value));
+  const expected = condition.operator === "between" ? 2 : 1;
+  if (prices.length !== expected || prices.some((price) => isNaN(price) || price < 0)) {
+    return condition.operator === "between"
+      ? "Price ranges need a minimum and a maximum"
+      : "Price conditions need a valid amount";
+  }
+  if (condition.operator === "between" && prices[0] >= prices[1]) {
+    return "The minimum price must be lower than the maximum price";
+  }
+  return null;
+}
+
+function validateGroup(group: ConditionGroup, depth: number): string | null {
+  if (depth > MAX_GROUP_DEPTH) {
+    return `Condition groups can be nested at most ${MAX_GROUP_DEPTH} levels deep`;
+  }
+  if (group.operator !== "and" && group.operator !== "or") {
+    return "Every group must match all or any of its conditions";
+  }
+  if (!Array.isArray(group.children) || group.children.length === 0) {
+    return "Condition groups cannot be empty";
+  }
+
+  for (const child of group.children) {
+    const error = child.type === "group"
+      ? validateGroup(child, depth + 1)
+      : validateCondition(child);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Returns the first problem with the tree, or null when it can be saved
+export function validateConditionTree(tree: ConditionTree | null): string | null {
+  if (!tree) {
+    return "Add at least one condition";
+  }
+  return validateGroup(tree.root, 1);
+}
+
+function evaluateCondition(
+  condition: PricingCondition,
+  subject: ConditionSubject,
+): boolean {
+  const values = condition.values
+    .map((value) => String(value).trim().toLowerCase())
+    .filter(Boolean);
+
+  switch (condition.field) {
+    case "collection": {
+      const inAny = subject.collectionIds.some((id) =>
+        condition.values.includes(id),
+      );
+      return condition.operator === "none" ? !inAny : inAny;
+    }
+
+    case "tag": {
+      const hasAny = subject.tags.some((tag) =>
+        values.includes(tag.toLowerCase()),
+      );
+      return condition.operator === "none" ? !hasAny : hasAny;
+    }
+
+    case "vendor":
+    case "productType": {
+      const actual = (
+        condition.field === "vendor" ? subject.vendor : subject.productType
+      ).toLowerCase();
+      switch (condition.operator) {
+        case "is":
+          return values.includes(actual);
+        case "is_not":
+          return !values.includes(actual);
+        case "contains":
+          return values.some((value) => actual.includes(value));
+        default:
+          return false;
+      }
+    }
+
+    case "price": {
+      const [first, second] = condition.values.map((value) => parseFloat(value));
+      switch (condition.operator) {
+        case "greater_than":
+          return subject.price > first;
+        case "less_than":
+          return subject.price < first;
+        case "between":
+          return subject.price >= first && subject.price <= second;
+        default:
+          return false;
+      }
+    }
+
+    default:
+      return false;
+  }
+}
+
+function evaluateNode(node: ConditionNode, subject: ConditionSubject): boolean {
+  if (node.type === "condition") {
+    return evaluateCondition(node, subject);
+  }
+  return node.operator === "and"
+    ? node.children.every((child) => evaluateNode(child, subject))
+    : node.children.some((child) => evaluateNode(child, subject));
+}
+
+export function evaluateConditionTree(
+  tree: ConditionTree,
+  subject: ConditionSubject,
+): boolean {
+  return evaluateNode(tree.root, subject);
+}
+
+// Every collection ID the tree refers to, for looking up titles
+export function getConditionCollectionIds(tree: ConditionTree | null): string[] {
+  if (!tree) return [];
+
+  const ids = new Set<string>();
+  const visit = (node: ConditionNode) => {
+    if (node.type === "group") {
+      node.children.forEach(visit);
+    } else if (node.field === "collection") {
+      node.values.forEach((id) => ids.add(id));
+    }
+  };
+  visit(tree.root);
+  return [...ids];
+}
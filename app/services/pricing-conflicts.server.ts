@@ -0,0 +1,177 @@
+import type { CatalogPageOptions } from "./api.graphql";
+import {
+  compareRulePrecedence,
+  getActivePricingRules,
+  getProductsForRule,
+  getRuleMatchReason,
+  isRuleActive,
+  toPricingVariants,
+  withOriginalPrices,
+  type PricingProduct,
+  type PricingRuleInput,
+  type WinningRule,
+} from "./pricing.server";
+
+// Products matched by more than one running rule. Precedence always picks a
+// winner, but when the top rules share a priority the winner only comes down
+// to which was created last, which is rarely what the merchant meant.
+// Customer eligibility is ignored: two rules for different customers still
+// cover the same product.
+
+// The shop-wide analysis reads the whole catalog, so it runs as a background
+// job and the conflicts page shows the result of the last run
+export const CONFLICTS_JOB_TYPE = "analyse-conflicts";
+
+// Saving a rule checks its own overlaps the same way, so the save request
+// returns before the rule's products are fetched
+export const RULE_CONFLICTS_JOB_TYPE = "check-rule-conflicts";
+
+export interface RuleConflict {
+  productId: string;
+  productTitle: string;
+  // Every matching rule, winner first
+  rules: WinningRule[];
+  winner: WinningRule;
+  // The winner shares its priority with another matching rule
+  tie: boolean;
+}
+
+const toWinningRule = (rule: PricingRuleInput): WinningRule => ({
+  id: rule.id,
+  name: rule.name,
+  priority: rule.priority,
+});
+
+export function findRuleConflicts(
+  products: (PricingProduct & { title?: string })[],
+  rules: PricingRuleInput[],
+  now: Date = new Date(),
+): RuleConflict[] {
+  const activeRules = rules.filter((rule) => isRuleActive(rule, now));
+  const conflicts: RuleConflict[] = [];
+
+  for (const product of products) {
+    // Variants of one product can match different rules; the product
+    // conflicts on the union of them
+    const matched = new Map<string, PricingRuleInput>();
+    for (const variant of toPricingVariants(product)) {
+      for (const rule of activeRules) {
+        if (getRuleMatchReason(rule, variant) !== null) {
+          matched.set(rule.id, rule);
+        }
+      }
+    }
+    if (matched.size < 2) continue;
+
+    const ordered = [...matched.values()].sort(compareRulePrecedence);
+    conflicts.push({
+      productId: product.id,
+      productTitle: product.title || product.id,
+      rules: ordered.map(toWinningRule),
+      winner: toWinningRule(ordered[0]),
+      tie: ordered[1].priority === ordered[0].priority,
+    });
+  }
+
+  // Ties first, they are the ones that need attention
+  return conflicts.sort((a, b) => Number(b.tie) - Number(a.tie));
+}
+
+// Every product the rules could target, fetched once
+async function getProductsForRules(
+  shop: string,
+  accessToken: string,
+  rules: PricingRuleInput[],
+  options: CatalogPageOptions,
+) {
+  const wholeCatalog = rules.find((rule) =>
+    ["all-products", "conditions"].includes(rule.applyTo),
+  );
+  if (wholeCatalog) {
+    return getProductsForRule(shop, accessToken, wholeCatalog, options);
+  }
+
+  // Progress counts products fetched across all the rules
+  const products = new Map<string, any>();
+  let fetched = 0;
+  for (const rule of rules) {
+    const fetchedBefore = fetched;
+    const ruleProducts = await getProductsForRule(shop, accessToken, rule, {
+      ...options,
+      onPage: (fetchedCount) => options.onPage?.(fetchedBefore + fetchedCount),
+    });
+    fetched += ruleProducts.length;
+    for (const product of ruleProducts) {
+      products.set(product.id, product);
+    }
+  }
+  return [...products.values()];
+}
+
+// Conflicts across all running rules of the shop
+export async function getShopRuleConflicts(
+  shop: string,
+  accessToken: string,
+  options: CatalogPageOptions = {},
+): Promise<RuleConflict[]> {
+  const rules = await getActivePricingRules(shop);
+  if (rules.length < 2) return [];
+
+  const catalog = await getProductsForRules(shop, accessToken, rules, options);
+  // Price conditions match against original prices, not published ones
+  const products = await withOriginalPrices(shop, catalog);
+  return findRuleConflicts(products, rules);
+}
+
+// Conflicts involving one rule, e.g. right after it is saved. Only the
+// rule's own products are fetched.
+export async function getConflictsForRule(
+  shop: string,
+  accessToken: string,
+  rule: PricingRuleInput,
+  options: CatalogPageOptions = {},
+): Promise<RuleConflict[]> {
+  if (!isRuleActive(rule)) return [];
+
+  const otherRules = (await getActivePricingRules(shop)).filter(
+    (other) => other.id !== rule.id,
+  );
+  if (otherRules.length === 0) return [];
+
+  const catalog = await getProductsForRule(shop, accessToken, rule, options);
+  const products = await withOriginalPrices(shop, catalog);
+  return findRuleConflicts(products, [rule, ...otherRules]).filter((conflict) =>
+    conflict.rules.some((matched) => matched.id === rule.id),
+  );
+}
+
+// One line per rule the saved rule overlaps with, ties first
+export function describeRuleConflicts(
+  ruleId: string,
+  conflicts: RuleConflict[],
+): string[] {
+  const overlaps = new Map<string, { rule: WinningRule; products: number; tie: boolean }>();
+  for (const conflict of conflicts) {
+    const own = conflict.rules.find((rule) => rule.id === ruleId);
+    if (!own) continue;
+    for (const other of conflict.rules) {
+      if (other.id === ruleId) continue;
+      const overlap = overlaps.get(other.id) || {
+        rule: other,
+        products: 0,
+        tie: other.priority === own.priority,
+      };
+      overlap.products += 1;
+      overlaps.set(other.id, overlap);
+    }
+  }
+
+  return [...overlaps.values()]
+    .sort((a, b) => Number(b.tie) - Number(a.tie))
+    .map(({ rule, products, tie }) => {
+      const productText = `${products} product${products !== 1 ? "s" : ""}`;
+      return tie
+        ? `"${rule.name}" has the same priority (${rule.priority}) and also matches ${productText}; the most recently created rule wins`
+        : `"${rule.name}" (priority ${rule.priority}) also matches ${productText}`;
+    });
+}
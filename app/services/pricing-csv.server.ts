@@ -0,0 +1,322 @@
+import prisma from "../db.server";
+import { parseConditionTree } from "./pricing-conditions";
+import type { QuantityTier } from "./pricing-tiers";
+import {
+  planRuleImport,
+  toPortableRules,
+  type ImportPlan,
+  type PortableMarketPrice,
+  type PortableRule,
+  type RuleImportInput,
+} from "./pricing-transfer.server";
+
+// CSV export and import of pricing rules, one rule per row, so rules can be
+// managed in a spreadsheet. Products, variants and collections are written
+// as handles and customers as emails, see pricing-transfer.server.ts. An
+// import is always previewed first and then applied as a whole.
+
+export const CSV_COLUMNS = [
+  "id",
+  "name",
+  "priority",
+  "status",
+  "apply_to",
+  "products",
+  "variants",
+  "collections",
+  "tags",
+  "conditions",
+  "excluded_products",
+  "excluded_collections",
+  "excluded_tags",
+  "price_type",
+  "amount",
+  "tiers",
+  "compare_at_mode",
+  "compare_at_amount",
+  "rounding_mode",
+  "min_price",
+  "max_discount_percent",
+  "market_prices",
+  "customer_eligibility",
+  "customer_tags",
+  "customers",
+  "starts_at",
+  "ends_at",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+// Every other column may be left out; rules then keep what they have
+const REQUIRED_COLUMNS: CsvColumn[] = [
+  "name",
+  "priority",
+  "status",
+  "apply_to",
+  "price_type",
+  "amount",
+];
+
+// Separates the entries of list cells; handles and tags never contain it
+const LIST_SEPARATOR = "|";
+
+function toCsvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// RFC 4180: quoted cells may hold commas, quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// "1-9:0|10-49:10|50+:20": quantity range and discount percent per tier
+function formatTiers(tiers: QuantityTier[]) {
+  return tiers
+    .map((tier) => {
+      const range = tier.maxQuantity === null
+        ? `${tier.minQuantity}+`
+        : `${tier.minQuantity}-${tier.maxQuantity}`;
+      return `${range}:${tier.discountPercent}`;
+    })
+    .join(LIST_SEPARATOR);
+}
+
+function parseTiers(cell: string): QuantityTier[] | null {
+  const tiers: QuantityTier[] = [];
+  for (const entry of splitList(cell)) {
+    const match = /^(\d+)(?:\+|-(\d+)):(\d+(?:\.\d+)?)$/.exec(entry.replace(/\s/g, ""));
+    if (!match) return null;
+    tiers.push({
+      minQuantity: Number(match[1]),
+      maxQuantity: match[2] === undefined ? null : Number(match[2]),
+      discountPercent: Number(match[3]),
+    });
+  }
+  return tiers;
+}
+
+// Market prices are a JSON list of { market, currencyCode, price }
+function parseMarketPricesCell(cell: string): PortableMarketPrice[] | null {
+  if (!cell) return [];
+  try {
+    const prices = JSON.parse(cell);
+    if (!Array.isArray(prices)) return null;
+    const valid = prices.every(
+      (price) =>
+        price &&
+        typeof price.market === "string" &&
+        typeof price.currencyCode === "string" &&
+        typeof price.price === "number",
+    );
+    return valid ? prices : null;
+  } catch {
+    return null;
+  }
+}
+
+function splitList(cell: string): string[] {
+  return cell
+    .split(LIST_SEPARATOR)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+const toNumberOrNull = (cell: string) => (cell === "" ? null : Number(cell));
+
+export async function exportPricingRulesCsv(shop: string, accessToken: string) {
+  const rules = await prisma.pricingRule.findMany({
+    where: { shop, deletedAt: null },
+    orderBy: [{ priority: "asc" }, { createdAt: "desc" }],
+  });
+  const portableRules = await toPortableRules(shop, accessToken, rules);
+
+  const rows = portableRules.map((rule, index) => {
+    const cells: Record<CsvColumn, string> = {
+      id: rules[index].id,
+      name: rule.name,
+      priority: String(rule.priority),
+      status: rule.status,
+      apply_to: rule.applyTo,
+      products: rule.products.join(LIST_SEPARATOR),
+      variants: rule.variants.join(LIST_SEPARATOR),
+      collections: rule.collections.join(LIST_SEPARATOR),
+      tags: rule.tags.join(LIST_SEPARATOR),
+      conditions: rule.conditions ? JSON.stringify(rule.conditions) : "",
+      excluded_products: rule.excludedProducts.join(LIST_SEPARATOR),
+      excluded_collections: rule.excludedCollections.join(LIST_SEPARATOR),
+      excluded_tags: rule.excludedTags.join(LIST_SEPARATOR),
+      price_type: rule.priceType,
+      amount: String(rule.amount),
+      tiers: rule.tiers ? formatTiers(rule.tiers) : "",
+      compare_at_mode: rule.compareAtMode,
+      compare_at_amount: rule.compareAtAmount?.toString() ?? "",
+      rounding_mode: rule.roundingMode,
+      min_price: rule.minPrice?.toString() ?? "",
+      max_discount_percent: rule.maxDiscountPercent?.toString() ?? "",
+      market_prices: rule.marketPrices.length > 0 ? JSON.stringify(rule.marketPrices) : "",
+      customer_eligibility: rule.customerEligibility,
+      customer_tags: rule.customerTags.join(LIST_SEPARATOR),
+      customers: rule.customers.join(LIST_SEPARATOR),
+      starts_at: rule.startsAt ?? "",
+      ends_at: rule.endsAt ?? "",
+    };
+    return CSV_COLUMNS.map((column) => cells[column]);
+  });
+
+  return [[...CSV_COLUMNS], ...rows]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\r\n") + "\r\n";
+}
+
+// The columns present in a row; absent columns stay undefined so the
+// rule keeps its current value
+function readRow(cell: (column: CsvColumn) => string | undefined) {
+  const rule: Partial<PortableRule> = {};
+  const errors: string[] = [];
+  const read = (column: CsvColumn, apply: (value: string) => void) => {
+    const value = cell(column);
+    if (value !== undefined) apply(value);
+  };
+
+  read("name", (value) => (rule.name = value));
+  read("priority", (value) => (rule.priority = parseInt(value)));
+  read("status", (value) => (rule.status = value));
+  read("apply_to", (value) => (rule.applyTo = value));
+  read("products", (value) => (rule.products = splitList(value)));
+  read("variants", (value) => (rule.variants = splitList(value)));
+  read("collections", (value) => (rule.collections = splitList(value)));
+  read("tags", (value) => (rule.tags = splitList(value)));
+  read("excluded_products", (value) => (rule.excludedProducts = splitList(value)));
+  read("excluded_collections", (value) => (rule.excludedCollections = splitList(value)));
+  read("excluded_tags", (value) => (rule.excludedTags = splitList(value)));
+  read("price_type", (value) => (rule.priceType = value));
+  read("amount", (value) => (rule.amount = value === "" ? NaN : Number(value)));
+  read("compare_at_mode", (value) => (rule.compareAtMode = value || "original"));
+  read("compare_at_amount", (value) => (rule.compareAtAmount = toNumberOrNull(value)));
+  read("rounding_mode", (value) => (rule.roundingMode = value || "none"));
+  read("min_price", (value) => (rule.minPrice = toNumberOrNull(value)));
+  read("max_discount_percent", (value) => (rule.maxDiscountPercent = toNumberOrNull(value)));
+  read("customer_eligibility", (value) => (rule.customerEligibility = value || "all"));
+  read("customer_tags", (value) => (rule.customerTags = splitList(value)));
+  read("customers", (value) => (rule.customers = splitList(value)));
+  read("starts_at", (value) => (rule.startsAt = value || null));
+  read("ends_at", (value) => (rule.endsAt = value || null));
+
+  read("conditions", (value) => {
+    rule.conditions = value ? parseConditionTree(value) : null;
+    if (value && !rule.conditions) {
+      errors.push("Conditions are not a valid condition tree");
+    }
+  });
+  read("tiers", (value) => {
+    const tiers = parseTiers(value);
+    if (!tiers) errors.push('Tiers must look like "1-9:0|10-49:10|50+:20"');
+    rule.tiers = tiers;
+  });
+  read("market_prices", (value) => {
+    const marketPrices = parseMarketPricesCell(value);
+    if (!marketPrices) errors.push("Market prices are not valid");
+    rule.marketPrices = marketPrices || [];
+  });
+
+  return { rule, errors };
+}
+
+// Parse, resolve and validate a CSV file against the shop's rules without
+// saving anything
+export async function planPricingRuleImport(
+  shop: string,
+  accessToken: string,
+  csv: string,
+): Promise<ImportPlan> {
+  const [header = [], ...records] = parseCsv(csv);
+  const columns = header.map((column) => column.trim().toLowerCase());
+
+  const errors: string[] = [];
+  const unknown = columns.filter(
+    (column) => column && !CSV_COLUMNS.includes(column as CsvColumn),
+  );
+  if (unknown.length > 0) {
+    errors.push(`Unknown columns: ${unknown.join(", ")}`);
+  }
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    errors.push(`Missing columns: ${missing.join(", ")}`);
+  }
+  const repeated = columns.filter((column, index) => column && columns.indexOf(column) !== index);
+  if (repeated.length > 0) {
+    errors.push(`Columns appear more than once: ${[...new Set(repeated)].join(", ")}`);
+  }
+  if (errors.length > 0) return { errors, rows: [] };
+
+  // Spreadsheets pad files with empty rows
+  const rows = records
+    .map((cells, index) => ({ row: index + 2, cells }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+  if (rows.length === 0) {
+    return { errors: ["The file has no rules"], rows: [] };
+  }
+
+  const existingRules = await prisma.pricingRule.findMany({ where: { shop, deletedAt: null } });
+  const rulesById = new Map(existingRules.map((rule) => [rule.id, rule]));
+  const seenIds = new Set<string>();
+
+  const inputs = rows.map(({ row, cells }): RuleImportInput => {
+    const { rule, errors: rowErrors } = readRow((column) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? undefined : (cells[index] ?? "").trim();
+    });
+
+    // Rows with an ID update that rule, rows without one create a rule
+    const index = columns.indexOf("id");
+    const ruleId = index === -1 ? "" : (cells[index] ?? "").trim();
+    const existing = ruleId ? rulesById.get(ruleId) || null : null;
+    if (ruleId && !existing) {
+      rowErrors.push(`No rule with ID "${ruleId}" in this shop; clear the ID to create a new rule`);
+    } else if (ruleId && seenIds.has(ruleId)) {
+      rowErrors.push(`Rule ID "${ruleId}" appears on more than one row`);
+    }
+    if (ruleId) seenIds.add(ruleId);
+
+    return { row, rule, existing, errors: rowErrors };
+  });
+
+  return { errors: [], rows: await planRuleImport(shop, accessToken, inputs) };
+}
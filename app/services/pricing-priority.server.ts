@@ -0,0 +1,117 @@
+import type { PricingRule, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import { diffRules, recordRuleEvents } from "./pricing-audit.server";
+import { recordRuleVersions } from "./pricing-versions.server";
+import { requestPricingRuleSync } from "./pricing-sync.server";
+import { compareRulePrecedence } from "./pricing.server";
+
+// Precedence order of a shop's rules, set by dragging rules into place
+// rather than typing priorities. Reordering every rule gives each its own
+// priority from 1 up, so no two rules tie. Shops with more rules than there
+// are priorities reorder a filtered part of the list instead.
+
+export const MAX_PRIORITY = 99;
+
+// The order in which rules win, see compareRulePrecedence. The where filter
+// narrows the list, e.g. to the rule list's search and filters.
+export async function getRulesInPrecedenceOrder(
+  shop: string,
+  where: Prisma.PricingRuleWhereInput = {},
+) {
+  const rules = await prisma.pricingRule.findMany({
+    where: { ...where, shop, deletedAt: null },
+  });
+  return rules.sort(compareRulePrecedence);
+}
+
+// The priorities the listed rules get, in the new order, or null when they
+// would run past MAX_PRIORITY. The whole list is numbered from 1. A part of
+// it reuses the priorities its rules already hold, so they keep their place
+// among the other rules, raised where needed so no two are the same.
+export function getReorderPriorities(
+  currentPriorities: number[],
+  isWholeList: boolean,
+): number[] | null {
+  const priorities: number[] = [];
+  if (isWholeList) {
+    priorities.push(...currentPriorities.map((_, index) => index + 1));
+  } else {
+    for (const priority of [...currentPriorities].sort((a, b) => a - b)) {
+      const previous = priorities[priorities.length - 1] ?? 0;
+      priorities.push(Math.max(priority, previous + 1));
+    }
+  }
+  return priorities.some((priority) => priority > MAX_PRIORITY) ? null : priorities;
+}
+
+type RenumberedRule = { before: PricingRule; after: PricingRule };
+
+export type ReorderResult = { updated: number } | { error: string };
+
+// ruleIds lists rules of the shop once each, in the new order. Every rule
+// is numbered from 1; a part of the list only moves its own rules.
+export async function reorderPricingRules(
+  session: { id: string; shop: string },
+  ruleIds: string[],
+): Promise<ReorderResult> {
+  if (new Set(ruleIds).size !== ruleIds.length) {
+    return { error: "A rule appears more than once in the new order" };
+  }
+
+  // Checked and renumbered in one transaction, so a rule deleted meanwhile
+  // fails the reorder instead of being left out of it
+  const result = await prisma.$transaction(async (tx): Promise<
+    { error: string } | { changed: RenumberedRule[] }
+  > => {
+    const rules = await tx.pricingRule.findMany({
+      where: { shop: session.shop, deletedAt: null },
+    });
+    const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+    if (ruleIds.some((id) => !rulesById.has(id))) {
+      return { error: "The rules have changed since the list was loaded. Reload and try again." };
+    }
+
+    const priorities = getReorderPriorities(
+      ruleIds.map((id) => rulesById.get(id)!.priority),
+      ruleIds.length === rules.length,
+    );
+    if (!priorities) {
+      return {
+        error: `Priorities go up to ${MAX_PRIORITY}. Filter the list to fewer rules, or rules with lower priorities, and try again.`,
+      };
+    }
+
+    const changed: RenumberedRule[] = [];
+    for (const [index, ruleId] of ruleIds.entries()) {
+      const before = rulesById.get(ruleId)!;
+      if (before.priority === priorities[index]) continue;
+      const after = await tx.pricingRule.update({
+        where: { id: ruleId },
+        data: { priority: priorities[index] },
+      });
+      changed.push({ before, after });
+    }
+    return { changed };
+  });
+
+  if ("error" in result) {
+    return result;
+  }
+
+  const { changed } = result;
+  if (changed.length > 0) {
+    await recordRuleEvents(
+      session,
+      changed.map(({ before, after }) => ({
+        ruleId: after.id,
+        ruleName: after.name,
+        action: "reorder" as const,
+        changes: diffRules(before, after),
+      })),
+    );
+    await recordRuleVersions(session, changed.map(({ after }) => after));
+    await requestPricingRuleSync(session.shop);
+  }
+
+  return { updated: changed.length };
+}
@@ -0,0 +1,446 @@
+import { Prisma, type PricingRule, type VariantPriceBackup } from "@prisma/client";
+import prisma from "../db.server";
+import {
+  addPriceListFixedPrices,
+  deleteAppMetafields,
+  deletePriceListFixedPrices,
+  getShopCurrencySettings,
+  updateProductVariantPrices,
+} from "./api.graphql";
+import {
+  parseMarketPrices,
+  toMoneyAmount,
+  type MarketCurrency,
+  type MarketPrice,
+} from "./currency";
+import {
+  getActivePricingRules,
+  getProductsForRule,
+  getRuleEffectiveStatus,
+  resolveProductPrices,
+  withOriginalPrices,
+} from "./pricing.server";
+import { toJsonColumn } from "./pricing-versions.server";
+
+export interface PublishResult {
+  updated: number;
+  restored: number;
+  skipped: number;
+  failed: number;
+}
+
+// Hooks for running inside a background job
+export interface PublishOptions {
+  maxPages?: number;
+  onProgress?: (done: number, total: number) => Promise<void>;
+  checkpoint?: () => Promise<void>;
+}
+
+interface VariantPriceUpdate {
+  id: string;
+  price: string;
+  compareAtPrice: string | null;
+  metafields: { namespace: string; key: string; type: string; value: string }[];
+}
+
+// Read by extensions/pricing-discount/src/run.graphql, so a rule that wins a
+// published variant at checkout prices from its original price
+const ORIGINAL_PRICE_NAMESPACE = "$app:pricing";
+const ORIGINAL_PRICE_KEY = "original-price";
+
+// Price lists take a limited number of prices per call
+const PRICE_LIST_BATCH_SIZE = 250;
+
+function groupByProduct<T extends { productId: string }>(items: T[]) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(item.productId, [...(groups.get(item.productId) || []), item]);
+  }
+  return groups;
+}
+
+// Why a rule's prices cannot be in the catalog, or null when they can. A
+// published rule that stops qualifying is unpublished by the next sync.
+export function getPublishError(
+  rule: Pick<PricingRule, "status" | "startsAt" | "endsAt" | "customerEligibility" | "priceType">,
+  now: Date = new Date(),
+): string | null {
+  if (getRuleEffectiveStatus(rule, now) !== "running") {
+    return "Only running pricing rules can be published";
+  }
+  if (rule.customerEligibility !== "all") {
+    return "Rules for specific customers cannot be published to catalog prices";
+  }
+  // A catalog price has no quantity; the checkout discount prices the tiers
+  if (rule.priceType === "quantity-tiers") {
+    return "Quantity break rules cannot be published to catalog prices";
+  }
+  return null;
+}
+
+// Put the captured original prices back on Shopify and drop the backups
+async function restoreBackups(
+  shop: string,
+  accessToken: string,
+  backups: VariantPriceBackup[],
+  options: PublishOptions = {},
+) {
+  let restored = 0;
+  let failed = 0;
+  let done = 0;
+  const groups = groupByProduct(backups);
+
+  for (const [productId, productBackups] of groups) {
+    await options.checkpoint?.();
+    try {
+      await updateProductVariantPrices(
+        shop,
+        accessToken,
+        productId,
+        productBackups.map((backup) => ({
+          id: backup.variantId,
+          price: backup.originalPrice,
+          compareAtPrice: backup.originalCompareAtPrice,
+        })),
+      );
+      await deleteAppMetafields(
+        shop,
+        accessToken,
+        productBackups.map((backup) => ({
+          ownerId: backup.variantId,
+          namespace: ORIGINAL_PRICE_NAMESPACE,
+          key: ORIGINAL_PRICE_KEY,
+        })),
+      );
+      await prisma.variantPriceBackup.deleteMany({
+        where: { id: { in: productBackups.map((backup) => backup.id) } },
+      });
+      restored += productBackups.length;
+    } catch (error) {
+      console.error(`Failed to restore prices for ${productId}:`, error);
+      failed += productBackups.length;
+    }
+    await options.onProgress?.(++done, groups.size);
+  }
+
+  return { restored, failed };
+}
+
+// Set or remove the rule's fixed prices on the price lists of its markets.
+// Returns how many variants could not be updated.
+async function syncMarketPrices(
+  shop: string,
+  accessToken: string,
+  marketPricesValue: unknown,
+  markets: MarketCurrency[],
+  variantIds: string[],
+  action: "add" | "delete",
+) {
+  let failed = 0;
+  if (variantIds.length === 0) return failed;
+
+  for (const marketPrice of parseMarketPrices(marketPricesValue)) {
+    const market = markets.find((candidate) => candidate.id === marketPrice.marketId);
+    if (!market?.priceListId) {
+      console.error(`Market ${marketPrice.marketId} has no price list, skipping its fixed price`);
+      continue;
+    }
+
+    for (let start = 0; start < variantIds.length; start += PRICE_LIST_BATCH_SIZE) {
+      const batch = variantIds.slice(start, start + PRICE_LIST_BATCH_SIZE);
+      try {
+        if (action === "add") {
+          await addPriceListFixedPrices(
+            shop,
+            accessToken,
+            market.priceListId,
+            batch.map((variantId) => ({
+              variantId,
+              price: {
+                amount: toMoneyAmount(marketPrice.price, marketPrice.currencyCode),
+                currencyCode: marketPrice.currencyCode,
+              },
+            })),
+          );
+        } else {
+          await deletePriceListFixedPrices(shop, accessToken, market.priceListId, batch);
+        }
+      } catch (error) {
+        console.error(`Failed to update ${market.name} prices:`, error);
+        failed += batch.length;
+      }
+    }
+  }
+
+  return failed;
+}
+
+// Write the engine's prices for every variant the rule wins to Shopify.
+// Variants the rule no longer wins are restored to their original prices.
+export async function publishRulePrices(
+  shop: string,
+  accessToken: string,
+  ruleId: string,
+  options: PublishOptions = {},
+): Promise<PublishResult> {
+  const rule = await prisma.pricingRule.findFirst({
+    where: { id: ruleId, shop, deletedAt: null },
+  });
+  if (!rule) {
+    throw new Error("Pricing rule not found");
+  }
+  const publishError = getPublishError(rule);
+  if (publishError) {
+    throw new Error(publishError);
+  }
+
+  const currencySettings = await getShopCurrencySettings(shop, accessToken);
+  const products = await withOriginalPrices(
+    shop,
+    await getProductsForRule(shop, accessToken, rule, {
+      maxPages: options.maxPages,
+      onPage: options.checkpoint,
+    }),
+  );
+  const resolutions = resolveProductPrices(
+    products,
+    await getActivePricingRules(shop),
+    { currencyCode: currencySettings.currencyCode },
+  );
+
+  const variantIds = products.flatMap((product) =>
+    product.variants.map((variant) => variant.id),
+  );
+  const existingBackups = await prisma.variantPriceBackup.findMany({
+    where: {
+      shop,
+      OR: [{ variantId: { in: variantIds } }, { ruleId }],
+    },
+  });
+  const backupsByVariant = new Map(
+    existingBackups.map((backup) => [backup.variantId, backup]),
+  );
+
+  const wonVariantIds = new Set<string>();
+  let updated = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  // Marked up front so a partially published rule can still be unpublished
+  await prisma.pricingRule.update({
+    where: { id: rule.id },
+    data: { publishedAt: new Date() },
+  });
+  await options.onProgress?.(0, products.length);
+
+  for (const [index, product] of products.entries()) {
+    await options.checkpoint?.();
+    const updates: VariantPriceUpdate[] = [];
+    const newBackups: {
+      productId: string;
+      variantId: string;
+      originalPrice: string;
+      originalCompareAtPrice: string | null;
+      publishedPrice: string;
+    }[] = [];
+
+    for (const variant of product.variants || []) {
+      const resolution = resolutions.get(variant.id);
+      if (!resolution || resolution.rule?.id !== rule.id) {
+        skipped++;
+        continue;
+      }
+
+      wonVariantIds.add(variant.id);
+      const publishedPrice = toMoneyAmount(
+        resolution.finalPrice,
+        currencySettings.currencyCode,
+      );
+
+      updates.push({
+        id: variant.id,
+        price: publishedPrice,
+        compareAtPrice:
+          resolution.finalCompareAtPrice === null
+            ? null
+            : toMoneyAmount(
+                resolution.finalCompareAtPrice,
+                currencySettings.currencyCode,
+              ),
+        metafields: [
+          {
+            namespace: ORIGINAL_PRICE_NAMESPACE,
+            key: ORIGINAL_PRICE_KEY,
+            type: "number_decimal",
+            value: variant.price,
+          },
+        ],
+      });
+      // Prices were reset from existing backups, so a variant already
+      // changed by another rule keeps its first original
+      newBackups.push({
+        productId: product.id,
+        variantId: variant.id,
+        originalPrice: variant.price,
+        originalCompareAtPrice: variant.compareAtPrice ?? null,
+        publishedPrice,
+      });
+    }
+
+    if (updates.length === 0) {
+      await options.onProgress?.(index + 1, products.length);
+      continue;
+    }
+
+    // Backups are written before the price change so originals are never lost
+    await prisma.$transaction(
+      newBackups.map((backup) =>
+        prisma.variantPriceBackup.upsert({
+          where: { shop_variantId: { shop, variantId: backup.variantId } },
+          update: { ruleId: rule.id, publishedPrice: backup.publishedPrice },
+          create: { shop, ruleId: rule.id, ...backup },
+        }),
+      ),
+    );
+
+    try {
+      await updateProductVariantPrices(shop, accessToken, product.id, updates);
+      updated += updates.length;
+    } catch (error) {
+      console.error(`Failed to publish prices for ${product.id}:`, error);
+      failed += updates.length;
+
+      // Roll back the bookkeeping for variants that were never changed
+      const untouched = newBackups
+        .filter((backup) => !backupsByVariant.has(backup.variantId))
+        .map((backup) => backup.variantId);
+      await prisma.variantPriceBackup.deleteMany({
+        where: { shop, variantId: { in: untouched } },
+      });
+      for (const backup of newBackups) {
+        const previous = backupsByVariant.get(backup.variantId);
+        if (previous) {
+          await prisma.variantPriceBackup.update({
+            where: { id: previous.id },
+            data: {
+              ruleId: previous.ruleId,
+              publishedPrice: previous.publishedPrice,
+            },
+          });
+        }
+      }
+    }
+    await options.onProgress?.(index + 1, products.length);
+  }
+
+  const previousBackups = existingBackups.filter((backup) => backup.ruleId === rule.id);
+  const staleBackups = previousBackups.filter(
+    (backup) => !wonVariantIds.has(backup.variantId),
+  );
+  const { restored, failed: restoreFailed } = await restoreBackups(
+    shop,
+    accessToken,
+    staleBackups,
+  );
+
+  const marketFailed =
+    (await syncMarketPrices(
+      shop,
+      accessToken,
+      rule.marketPrices,
+      currencySettings.markets,
+      [...wonVariantIds],
+      "add",
+    )) +
+    (await syncMarketPrices(
+      shop,
+      accessToken,
+      rule.marketPrices,
+      currencySettings.markets,
+      staleBackups.map((backup) => backup.variantId),
+      "delete",
+    ));
+
+  // Markets taken off the rule since it was last published lose the fixed
+  // prices it set there
+  const marketPrices = parseMarketPrices(rule.marketPrices);
+  const removedMarketPrices = parseMarketPrices(rule.publishedMarketPrices).filter(
+    (published) => !marketPrices.some((current) => current.marketId === published.marketId),
+  );
+  const removedFailed = await syncMarketPrices(
+    shop,
+    accessToken,
+    removedMarketPrices,
+    currencySettings.markets,
+    previousBackups.map((backup) => backup.variantId),
+    "delete",
+  );
+  // Markets that could not be cleared are tried again on the next publish
+  const publishedMarketPrices: MarketPrice[] = removedFailed === 0
+    ? marketPrices
+    : [...marketPrices, ...removedMarketPrices];
+  await prisma.pricingRule.update({
+    where: { id: rule.id },
+    data: {
+      publishedMarketPrices: toJsonColumn(
+        publishedMarketPrices.length > 0 ? publishedMarketPrices : null,
+      ),
+    },
+  });
+
+  return {
+    updated,
+    restored,
+    skipped,
+    failed: failed + restoreFailed + marketFailed + removedFailed,
+  };
+}
+
+// Restore the original price of every variant the rule changed
+export async function unpublishRulePrices(
+  shop: string,
+  accessToken: string,
+  ruleId: string,
+  options: PublishOptions = {},
+): Promise<PublishResult> {
+  const rule = await prisma.pricingRule.findFirst({
+    where: { id: ruleId, shop, deletedAt: null },
+  });
+  if (!rule) {
+    throw new Error("Pricing rule not found");
+  }
+
+  const backups = await prisma.variantPriceBackup.findMany({
+    where: { shop, ruleId },
+  });
+  const { restored, failed: restoreFailed } = await restoreBackups(
+    shop,
+    accessToken,
+    backups,
+    options,
+  );
+
+  // The markets last published, the rule's own may have changed since
+  let marketFailed = 0;
+  if (parseMarketPrices(rule.publishedMarketPrices).length > 0) {
+    const { markets } = await getShopCurrencySettings(shop, accessToken);
+    marketFailed = await syncMarketPrices(
+      shop,
+      accessToken,
+      rule.publishedMarketPrices,
+      markets,
+      backups.map((backup) => backup.variantId),
+      "delete",
+    );
+  }
+
+  const failed = restoreFailed + marketFailed;
+  if (failed === 0) {
+    await prisma.pricingRule.update({
+      where: { id: rule.id },
+      data: { publishedAt: null, publishedMarketPrices: Prisma.DbNull },
+    });
+  }
+
+  return { updated: 0, restored, skipped: 0, failed };
+}
@@ -0,0 +1,135 @@
+// Bulk edits of the selected pricing rules. The list page previews a plan
+// from the rules it shows and the action applies a plan built from the
+// saved rules, so both count changes the same way; must stay free of
+// server-only imports.
+
+import { RULE_STATUSES, validateRuleAmount } from "./pricing-rule-validation";
+
+export const BULK_RULE_OPERATIONS = [
+  "setStatus",
+  "shiftPriority",
+  "setPriority",
+  "scaleAmount",
+] as const;
+
+export type BulkRuleOperation = (typeof BULK_RULE_OPERATIONS)[number];
+
+export type BulkRuleEdit =
+  | { operation: "setStatus"; status: string }
+  | { operation: "shiftPriority"; by: number }
+  | { operation: "setPriority"; priority: number }
+  | { operation: "scaleAmount"; factor: number };
+
+export interface BulkEditableRule {
+  id: string;
+  name: string;
+  status: string;
+  priority: number;
+  priceType: string;
+  amount: number;
+  campaignId?: string | null;
+}
+
+export interface BulkRuleChange {
+  ruleId: string;
+  data: { status?: string; priority?: number; amount?: number };
+}
+
+export interface BulkEditPlan {
+  changes: BulkRuleChange[];
+  // Rules that already match the edit
+  unchanged: number;
+  skipped: { ruleId: string; name: string; reason: string }[];
+}
+
+const MIN_PRIORITY = 1;
+const MAX_PRIORITY = 99;
+
+// Read an edit from a form post; returns an error message when the value
+// does not fit the operation
+export function parseBulkRuleEdit(
+  operation: string,
+  value: string,
+): BulkRuleEdit | string {
+  const number = Number(value);
+  switch (operation) {
+    case "setStatus":
+      return RULE_STATUSES.includes(value)
+        ? { operation, status: value }
+        : "Status must be active or inactive";
+    case "shiftPriority":
+      return Number.isInteger(number) && number !== 0 && Math.abs(number) < MAX_PRIORITY
+        ? { operation, by: number }
+        : `Shift priority by a whole number between -${MAX_PRIORITY - 1} and ${MAX_PRIORITY - 1}, other than 0`;
+    case "setPriority":
+      return Number.isInteger(number) && number >= MIN_PRIORITY && number <= MAX_PRIORITY
+        ? { operation, priority: number }
+        : `Priority must be between ${MIN_PRIORITY} and ${MAX_PRIORITY}`;
+    case "scaleAmount":
+      return value.trim() !== "" && number > 0 && number <= 10
+        ? { operation, factor: number }
+        : "Scale by a factor greater than 0 and at most 10";
+    default:
+      return "Unknown bulk edit";
+  }
+}
+
+export function planBulkRuleEdit(rules: BulkEditableRule[], edit: BulkRuleEdit): BulkEditPlan {
+  const plan: BulkEditPlan = { changes: [], unchanged: 0, skipped: [] };
+
+  for (const rule of rules) {
+    let data: BulkRuleChange["data"] = {};
+
+    switch (edit.operation) {
+      case "setStatus":
+        if (rule.campaignId) {
+          plan.skipped.push({
+            ruleId: rule.id,
+            name: rule.name,
+            reason: "Its campaign sets its status; activate or pause the campaign instead",
+          });
+          continue;
+        }
+        data = { status: edit.status };
+        break;
+      case "shiftPriority":
+        // Priorities stop at the ends of the range rather than failing
+        data = {
+          priority: Math.min(MAX_PRIORITY, Math.max(MIN_PRIORITY, rule.priority + edit.by)),
+        };
+        break;
+      case "setPriority":
+        data = { priority: edit.priority };
+        break;
+      case "scaleAmount": {
+        if (rule.priceType === "quantity-tiers") {
+          plan.skipped.push({
+            ruleId: rule.id,
+            name: rule.name,
+            reason: "Quantity break rules take their discounts from the tier table",
+          });
+          continue;
+        }
+        const amount = Math.round(rule.amount * edit.factor * 100) / 100;
+        const error = validateRuleAmount(rule.priceType, amount);
+        if (error) {
+          plan.skipped.push({ ruleId: rule.id, name: rule.name, reason: error });
+          continue;
+        }
+        data = { amount };
+        break;
+      }
+    }
+
+    const changed = Object.entries(data).some(
+      ([field, value]) => rule[field as keyof BulkEditableRule] !== value,
+    );
+    if (changed) {
+      plan.changes.push({ ruleId: rule.id, data });
+    } else {
+      plan.unchanged += 1;
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,102 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { RuleEffectiveStatus } from "./pricing.server";
+import type { RuleListQuery, RuleSortField } from "./pricing-rule-list";
+
+// Database side of the pricing rule list: the Prisma query for a list query
+// and the shop's saved views.
+
+const startedBy = (now: Date): Prisma.PricingRuleWhereInput => ({
+  OR: [{ startsAt: null }, { startsAt: { lte: now } }],
+});
+
+// Mirrors getRuleEffectiveStatus, so the filter matches the badges
+const STATUS_WHERE: Record<
+  RuleEffectiveStatus,
+  (now: Date) => Prisma.PricingRuleWhereInput
+> = {
+  inactive: () => ({ status: { not: "active" } }),
+  scheduled: (now) => ({ status: "active", startsAt: { gt: now } }),
+  expired: (now) => ({
+    status: "active",
+    AND: [startedBy(now), { endsAt: { lte: now } }],
+  }),
+  running: (now) => ({
+    status: "active",
+    AND: [startedBy(now), { OR: [{ endsAt: null }, { endsAt: { gt: now } }] }],
+  }),
+};
+
+export function getRuleListWhere(
+  shop: string,
+  listQuery: RuleListQuery,
+  now: Date = new Date(),
+): Prisma.PricingRuleWhereInput {
+  const where: Prisma.PricingRuleWhereInput = { shop, deletedAt: null };
+  // SQLite's LIKE is case-insensitive, so this matches names in any case
+  if (listQuery.query) where.name = { contains: listQuery.query };
+  if (listQuery.status.length > 0) {
+    where.OR = listQuery.status.map((status) => STATUS_WHERE[status](now));
+  }
+  if (listQuery.applyTo.length > 0) where.applyTo = { in: listQuery.applyTo };
+  if (listQuery.priceType.length > 0) where.priceType = { in: listQuery.priceType };
+  return where;
+}
+
+const SORT_COLUMNS: Record<RuleSortField, keyof Prisma.PricingRuleOrderByWithRelationInput> = {
+  priority: "priority",
+  amount: "amount",
+  name: "name",
+  created: "createdAt",
+};
+
+// Ties keep the newest rule first, and the ID makes pages stable
+export function getRuleListOrderBy(
+  listQuery: RuleListQuery,
+): Prisma.PricingRuleOrderByWithRelationInput[] {
+  const [field, direction] = listQuery.sort.split(" ") as [RuleSortField, "asc" | "desc"];
+  const orderBy: Prisma.PricingRuleOrderByWithRelationInput[] = [
+    { [SORT_COLUMNS[field]]: direction },
+  ];
+  if (field !== "created") orderBy.push({ createdAt: "desc" });
+  orderBy.push({ id: "asc" });
+  return orderBy;
+}
+
+export async function getRuleListViews(shop: string) {
+  return prisma.pricingRuleView.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function createRuleListView(shop: string, name: string, search: string) {
+  return prisma.pricingRuleView.create({
+    data: {
+      id: `view_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      shop,
+      name,
+      search,
+    },
+  });
+}
+
+// Returns the number of views changed, 0 when the view is not the shop's
+export async function updateRuleListView(
+  shop: string,
+  viewId: string,
+  data: { name?: string; search?: string },
+) {
+  const result = await prisma.pricingRuleView.updateMany({
+    where: { id: viewId, shop },
+    data,
+  });
+  return result.count;
+}
+
+export async function deleteRuleListView(shop: string, viewId: string) {
+  const result = await prisma.pricingRuleView.deleteMany({
+    where: { id: viewId, shop },
+  });
+  return result.count;
+}
@@ -0,0 +1,90 @@
+// Search, filters and sorting of the pricing rule list. They live in the
+// URL so a list can be reloaded, linked and saved as a view; must stay free
+// of server-only imports.
+
+import type { RuleEffectiveStatus } from "./pricing.server";
+
+export const STATUS_FILTERS: { label: string; value: RuleEffectiveStatus }[] = [
+  { label: "Running", value: "running" },
+  { label: "Scheduled", value: "scheduled" },
+  { label: "Expired", value: "expired" },
+  { label: "Disabled", value: "inactive" },
+];
+
+// Badges for a rule's effective status, e.g. in the reorder and campaign lists
+export const STATUS_BADGES: Record<
+  string,
+  { label: string; tone?: "success" | "attention" | "critical" }
+> = {
+  running: { label: "Running", tone: "success" },
+  scheduled: { label: "Scheduled", tone: "attention" },
+  expired: { label: "Expired" },
+  inactive: { label: "Disabled", tone: "critical" },
+};
+
+export const APPLY_TO_FILTERS = [
+  { label: "All products", value: "all-products" },
+  { label: "Specific products", value: "specific-products" },
+  { label: "Product collections", value: "product-collections" },
+  { label: "Product tags", value: "product-tags" },
+  { label: "Products matching conditions", value: "conditions" },
+];
+
+export const PRICE_TYPE_FILTERS = [
+  { label: "Fixed price", value: "apply-price" },
+  { label: "Fixed amount off", value: "decrease-fixed" },
+  { label: "Percentage off", value: "decrease-percentage" },
+  { label: "Quantity breaks", value: "quantity-tiers" },
+];
+
+export const RULE_SORT_FIELDS = ["priority", "amount", "name", "created"] as const;
+
+export type RuleSortField = (typeof RULE_SORT_FIELDS)[number];
+
+// "field direction", the value format of Polaris IndexFilters sort options
+export type RuleSort = `${RuleSortField} ${"asc" | "desc"}`;
+
+export const DEFAULT_RULE_SORT: RuleSort = "created desc";
+
+export interface RuleListQuery {
+  query: string;
+  status: RuleEffectiveStatus[];
+  applyTo: string[];
+  priceType: string[];
+  sort: RuleSort;
+}
+
+const pick = <T extends string>(values: string[], allowed: readonly T[]) =>
+  values.filter((value): value is T => (allowed as readonly string[]).includes(value));
+
+const listParam = (params: URLSearchParams, name: string) =>
+  (params.get(name) || "").split(",").filter(Boolean);
+
+// Unknown values are dropped, so hand-edited URLs and old saved views still load
+export function parseRuleListQuery(params: URLSearchParams): RuleListQuery {
+  const [field, direction] = (params.get("sort") || "").split(" ");
+  const sort = (RULE_SORT_FIELDS as readonly string[]).includes(field) &&
+    (direction === "asc" || direction === "desc")
+    ? (`${field} ${direction}` as RuleSort)
+    : DEFAULT_RULE_SORT;
+
+  return {
+    query: (params.get("query") || "").trim(),
+    status: pick(listParam(params, "status"), STATUS_FILTERS.map((filter) => filter.value)),
+    applyTo: pick(listParam(params, "applyTo"), APPLY_TO_FILTERS.map((filter) => filter.value)),
+    priceType: pick(listParam(params, "priceType"), PRICE_TYPE_FILTERS.map((filter) => filter.value)),
+    sort,
+  };
+}
+
+// The search params of a list query, leaving out defaults. Saved views
+// store this string and compare it to tell whether a view was changed.
+export function toRuleListSearch(listQuery: RuleListQuery): string {
+  const params = new URLSearchParams();
+  if (listQuery.query) params.set("query", listQuery.query);
+  if (listQuery.status.length > 0) params.set("status", listQuery.status.join(","));
+  if (listQuery.applyTo.length > 0) params.set("applyTo", listQuery.applyTo.join(","));
+  if (listQuery.priceType.length > 0) params.set("priceType", listQuery.priceType.join(","));
+  if (listQuery.sort !== DEFAULT_RULE_SORT) params.set("sort", listQuery.sort);
+  return params.toString();
+}
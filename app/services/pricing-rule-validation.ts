@@ -0,0 +1,215 @@
+// Validation of a pricing rule's settings. Shared by the editor action and
+// the CSV import so both reject the same rules; must stay free of
+// server-only imports.
+
+import type { MarketPrice } from "./currency";
+import { CUSTOMER_ELIGIBILITY_OPTIONS } from "./customer-eligibility";
+import { validateConditionTree, type ConditionTree } from "./pricing-conditions";
+import { validateQuantityTiers, type QuantityTier } from "./pricing-tiers";
+
+export const RULE_STATUSES = ["active", "inactive"];
+
+export const APPLY_TO_OPTIONS = [
+  "all-products",
+  "specific-products",
+  "product-collections",
+  "product-tags",
+  "conditions",
+];
+
+export const PRICE_TYPES = [
+  "apply-price",
+  "decrease-fixed",
+  "decrease-percentage",
+  "quantity-tiers",
+];
+
+export const COMPARE_AT_MODES = ["original", "unchanged", "clear", "fixed"];
+
+export const ROUNDING_OPTIONS = [
+  { label: "Don't round", value: "none" },
+  { label: "Nearest 0.05", value: "nearest-0.05" },
+  { label: "Nearest 0.10", value: "nearest-0.10" },
+  { label: "Nearest 1.00", value: "nearest-1.00" },
+  { label: "Always round down to a whole amount", value: "down-1.00" },
+  { label: "End in .99", value: "charm-0.99" },
+  { label: "End in .95", value: "charm-0.95" },
+  { label: "End in .00", value: "charm-0.00" },
+];
+
+// A rule's settings as parsed from a form post or a CSV row; empty ID
+// lists are null
+export interface PricingRuleValues {
+  name: string;
+  status: string;
+  priority: number;
+  applyTo: string;
+  productIds: string[] | null;
+  variantIds: string[] | null;
+  collectionIds: string[] | null;
+  tagIds: string[] | null;
+  conditions: ConditionTree | null;
+  priceType: string;
+  amount: number;
+  tiers: QuantityTier[] | null;
+  compareAtMode: string;
+  compareAtAmount: number | null;
+  roundingMode: string;
+  minPrice: number | null;
+  maxDiscountPercent: number | null;
+  marketPrices: MarketPrice[];
+  customerEligibility: string;
+  customerTags: string[] | null;
+  customerIds: string[] | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+}
+
+// The amount of a rule without tiers: a percentage or a price
+export function validateRuleAmount(priceType: string, amount: number): string | null {
+  if (isNaN(amount) || amount < 0) {
+    return "Amount must be a valid positive number";
+  }
+  if (priceType === "decrease-percentage") {
+    return amount > 100 ? "Percentage must be between 0 and 100" : null;
+  }
+  if (amount < 5 || amount > 10000000000) {
+    return "Amount must be between 5 and 10,000,000,000";
+  }
+  return null;
+}
+
+// Problems keyed by field; empty when the rule can be saved
+export function validatePricingRule(values: PricingRuleValues): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const {
+    name,
+    priority,
+    amount,
+    tiers,
+    compareAtAmount,
+    minPrice,
+    maxDiscountPercent,
+    startsAt,
+    endsAt,
+  } = values;
+
+  if (!name || name.trim().length < 2) {
+    errors.name = "Name must be at least 2 characters";
+  } else if (name.trim().length > 50) {
+    errors.name = "Name cannot be longer than 50 characters";
+  }
+
+  if (!values.status) {
+    errors.status = "Status is required";
+  } else if (!RULE_STATUSES.includes(values.status)) {
+    errors.status = "Status must be active or inactive";
+  }
+
+  if (!priority || isNaN(priority) || priority < 1 || priority > 99) {
+    errors.priority = "Priority must be between 1 and 99";
+  }
+
+  if (!values.applyTo) {
+    errors.applyTo = "Apply to selection is required";
+  } else if (!APPLY_TO_OPTIONS.includes(values.applyTo)) {
+    errors.applyTo = "Apply to selection is not valid";
+  }
+
+  if (!values.priceType) {
+    errors.priceType = "Price type is required";
+  } else if (!PRICE_TYPES.includes(values.priceType)) {
+    errors.priceType = "Price type is not valid";
+  }
+
+  // Tiered rules take their discounts from the tier table
+  if (tiers) {
+    const tiersError = validateQuantityTiers(tiers);
+    if (tiersError) {
+      errors.tiers = tiersError;
+    }
+  } else {
+    const amountError = validateRuleAmount(values.priceType, amount);
+    if (amountError) {
+      errors.amount = amountError;
+    }
+  }
+
+  if (!COMPARE_AT_MODES.includes(values.compareAtMode)) {
+    errors.compareAtMode = "Compare-at price option is required";
+  } else if (
+    values.compareAtMode === "fixed" &&
+    (compareAtAmount === null || isNaN(compareAtAmount) || compareAtAmount <= 0)
+  ) {
+    errors.compareAtAmount = "Compare-at price must be greater than 0";
+  }
+
+  if (!ROUNDING_OPTIONS.some((option) => option.value === values.roundingMode)) {
+    errors.roundingMode = "Rounding option is not valid";
+  }
+
+  if (minPrice !== null && (isNaN(minPrice) || minPrice < 0)) {
+    errors.minPrice = "Minimum price must be 0 or more";
+  }
+
+  if (
+    maxDiscountPercent !== null &&
+    (isNaN(maxDiscountPercent) || maxDiscountPercent < 0 || maxDiscountPercent > 100)
+  ) {
+    errors.maxDiscountPercent = "Maximum discount must be between 0 and 100";
+  }
+
+  if (values.marketPrices.some((marketPrice) => marketPrice.price <= 0)) {
+    errors.marketPrices = "Market prices must be greater than 0";
+  }
+
+  if (
+    !CUSTOMER_ELIGIBILITY_OPTIONS.some(
+      (option) => option.value === values.customerEligibility,
+    )
+  ) {
+    errors.customerEligibility = "Customer eligibility is not valid";
+  } else if (values.customerEligibility === "customer-tags" && !values.customerTags) {
+    errors.customerTags = "Please select at least one customer tag";
+  } else if (
+    values.customerEligibility === "specific-customers" &&
+    !values.customerIds
+  ) {
+    errors.customerIds = "Please select at least one customer";
+  }
+
+  if (startsAt && isNaN(startsAt.getTime())) {
+    errors.startsAt = "Start date is not a valid date";
+  }
+
+  if (endsAt && isNaN(endsAt.getTime())) {
+    errors.endsAt = "End date is not a valid date";
+  } else if (startsAt && endsAt && endsAt <= startsAt) {
+    errors.endsAt = "End date must be after the start date";
+  }
+
+  if (
+    values.applyTo === "specific-products" &&
+    !values.productIds &&
+    !values.variantIds
+  ) {
+    errors.products = "Please select at least one product or variant";
+  }
+
+  if (values.applyTo === "product-collections" && !values.collectionIds) {
+    errors.collections = "Please select at least one collection";
+  }
+
+  if (values.applyTo === "product-tags" && !values.tagIds) {
+    errors.tags = "Please select at least one tag";
+  }
+
+  if (values.applyTo === "conditions") {
+    const conditionsError = validateConditionTree(values.conditions);
+    if (conditionsError) {
+      errors.conditions = conditionsError;
+    }
+  }
+
+  return errors;
+}
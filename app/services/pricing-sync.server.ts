@@ -0,0 +1,427 @@
+import type { PricingRule } from "@prisma/client";
+import prisma from "../db.server";
+import {
+  automaticDiscountExists,
+  createAutomaticAppDiscount,
+  deleteAppMetafields,
+  getAllProductsWithPricing,
+  getProductDiscountFunctionId,
+  getShopCurrencySettings,
+  getShopId,
+  setAppMetafields,
+  type CatalogPageOptions,
+} from "./api.graphql";
+import {
+  cancelJob,
+  enqueueJob,
+  getActiveJobs,
+  getJobPayload,
+  type RuleJobPayload,
+} from "./jobs.server";
+import { getPublishError } from "./pricing-publish.server";
+import {
+  compareRulePrecedence,
+  getRuleEffectiveStatus,
+  parseIdList,
+  resolveProductPrices,
+  withOriginalPrices,
+  type PriceResolution,
+  type PricingProduct,
+} from "./pricing.server";
+import {
+  getConditionCollectionIds,
+  parseConditionTree,
+  type ConditionNode,
+} from "./pricing-conditions";
+import { parseQuantityTiers } from "./pricing-tiers";
+import { getCurrencyDecimals } from "./currency";
+
+// Keeps the pricing-discount Function in step with the shop's rules. The
+// rules are written to a shop metafield the Function reads at checkout; the
+// automatic discount running the Function is created on first sync. Each
+// product also gets the prices the storefront price block shows.
+
+export const SYNC_JOB_TYPE = "sync-pricing-rules";
+
+const PRICE_JOB_TYPES = ["publish-prices", "unpublish-prices"];
+
+const METAFIELD_NAMESPACE = "$app:pricing";
+const FUNCTION_CONFIG_VERSION = 1;
+const DISCOUNT_TITLE = "Pricing rules";
+
+// Read by extensions/just-button/blocks/rule_price.liquid
+const PRICE_DISPLAY_NAMESPACE = "pricing_rules";
+const PRICE_DISPLAY_KEY = "price_display";
+const METAFIELDS_PER_REQUEST = 25;
+
+// Must match FunctionConfig in extensions/pricing-discount/src/rules.ts
+export interface FunctionConfig {
+  version: number;
+  currencyCode: string;
+  currencyDecimals: number;
+  rules: ReturnType<typeof toFunctionRule>[];
+}
+
+// Collections and tags the input query asks each cart line about
+export interface FunctionInput {
+  collectionIds: string[];
+  productTags: string[];
+  customerTags: string[];
+}
+
+function getConditionTags(node: ConditionNode): string[] {
+  if (node.type === "group") return node.children.flatMap(getConditionTags);
+  return node.field === "tag" ? node.values : [];
+}
+
+function toFunctionRule(rule: PricingRule) {
+  const tree = parseConditionTree(rule.conditions);
+  return {
+    id: rule.id,
+    name: rule.name,
+    published: rule.publishedAt !== null,
+    applyTo: rule.applyTo,
+    productIds: parseIdList(rule.productIds),
+    variantIds: parseIdList(rule.variantIds),
+    collectionIds: parseIdList(rule.collectionIds),
+    tags: parseIdList(rule.tagIds),
+    conditions: tree ? tree.root : null,
+    excludedProductIds: parseIdList(rule.excludedProductIds),
+    excludedCollectionIds: parseIdList(rule.excludedCollectionIds),
+    excludedTags: parseIdList(rule.excludedTags),
+    customerEligibility: rule.customerEligibility,
+    customerTags: parseIdList(rule.customerTags),
+    customerIds: parseIdList(rule.customerIds),
+    priceType: rule.priceType,
+    amount: rule.amount,
+    tiers: parseQuantityTiers(rule.tiers),
+    roundingMode: rule.roundingMode,
+    minPrice: rule.minPrice,
+    maxDiscountPercent: rule.maxDiscountPercent,
+  };
+}
+
+// Only running rules are synced, in precedence order, so the Function just
+// takes the first match. Published rules stay in so they keep winning.
+export function buildFunctionConfig(
+  rules: PricingRule[],
+  currencyCode: string,
+  now: Date = new Date(),
+): { config: FunctionConfig; input: FunctionInput } {
+  const running = rules
+    .filter((rule) => getRuleEffectiveStatus(rule, now) === "running")
+    .sort(compareRulePrecedence);
+
+  const collectionIds = new Set<string>();
+  const productTags = new Set<string>();
+  const customerTags = new Set<string>();
+  for (const rule of running) {
+    const tree = parseConditionTree(rule.conditions);
+    [
+      ...parseIdList(rule.collectionIds),
+      ...parseIdList(rule.excludedCollectionIds),
+      ...getConditionCollectionIds(tree),
+    ].forEach((id) => collectionIds.add(id));
+    [
+      ...parseIdList(rule.tagIds),
+      ...parseIdList(rule.excludedTags),
+      ...(tree ? getConditionTags(tree.root) : []),
+    ].forEach((tag) => productTags.add(tag));
+    parseIdList(rule.customerTags).forEach((tag) => customerTags.add(tag));
+  }
+
+  return {
+    config: {
+      version: FUNCTION_CONFIG_VERSION,
+      currencyCode,
+      currencyDecimals: getCurrencyDecimals(currencyCode),
+      rules: running.map(toFunctionRule),
+    },
+    input: {
+      collectionIds: [...collectionIds],
+      productTags: [...productTags],
+      customerTags: [...customerTags],
+    },
+  };
+}
+
+// The next time a rule starts or ends, when the synced rules go stale
+export function getNextScheduleBoundary(
+  rules: PricingRule[],
+  now: Date = new Date(),
+): Date | null {
+  const boundaries = rules
+    .filter((rule) => rule.status === "active")
+    .flatMap((rule) => [rule.startsAt, rule.endsAt])
+    .filter((date): date is Date => date !== null && date > now)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return boundaries[0] || null;
+}
+
+// Amounts are in the currency's subunits, as Liquid's money filter expects
+export interface PriceDisplay {
+  currencyCode: string;
+  // Keyed by the variant's numeric ID, which is what Liquid has
+  variants: Record<string, { price: number; compareAtPrice: number; savePercent: number }>;
+}
+
+// What an anonymous visitor pays for each discounted variant, or null when
+// no variant of the product is discounted
+export function buildPriceDisplay(
+  product: PricingProduct,
+  resolutions: Map<string, PriceResolution>,
+  currencyCode: string,
+): PriceDisplay | null {
+  const variants: PriceDisplay["variants"] = {};
+  for (const variant of product.variants || []) {
+    const resolution = resolutions.get(variant.id);
+    if (!resolution || resolution.finalPrice >= resolution.originalPrice) continue;
+
+    variants[variant.id.split("/").pop() as string] = {
+      price: Math.round(resolution.finalPrice * 100),
+      compareAtPrice: Math.round(resolution.originalPrice * 100),
+      savePercent: Math.round(
+        (1 - resolution.finalPrice / resolution.originalPrice) * 100,
+      ),
+    };
+  }
+  return Object.keys(variants).length > 0 ? { currencyCode, variants } : null;
+}
+
+const isSameDisplay = (current: string | null, next: PriceDisplay | null) => {
+  if (current === null || next === null) return current === null && next === null;
+  try {
+    return JSON.stringify(JSON.parse(current)) === JSON.stringify(next);
+  } catch {
+    return false;
+  }
+};
+
+// Only products whose display changed are written, so a sync after a small
+// edit costs one catalog read
+async function syncPriceDisplays(
+  shop: string,
+  accessToken: string,
+  rules: PricingRule[],
+  currencyCode: string,
+  options: CatalogPageOptions,
+) {
+  const catalog = await getAllProductsWithPricing(shop, accessToken, 100, {
+    ...options,
+    maxPages: Infinity,
+  });
+  const products = await withOriginalPrices(shop, catalog);
+  const resolutions = resolveProductPrices(products, rules, { currencyCode });
+
+  const updates: { ownerId: string; display: PriceDisplay }[] = [];
+  const removals: string[] = [];
+  for (const product of products) {
+    const display = buildPriceDisplay(product, resolutions, currencyCode);
+    if (isSameDisplay(product.priceDisplay ?? null, display)) continue;
+    if (display) {
+      updates.push({ ownerId: product.id, display });
+    } else {
+      removals.push(product.id);
+    }
+  }
+
+  for (let i = 0; i < updates.length; i += METAFIELDS_PER_REQUEST) {
+    await setAppMetafields(
+      shop,
+      accessToken,
+      updates.slice(i, i + METAFIELDS_PER_REQUEST).map(({ ownerId, display }) => ({
+        ownerId,
+        namespace: PRICE_DISPLAY_NAMESPACE,
+        key: PRICE_DISPLAY_KEY,
+        type: "json",
+        value: JSON.stringify(display),
+      })),
+    );
+  }
+  for (let i = 0; i < removals.length; i += METAFIELDS_PER_REQUEST) {
+    await deleteAppMetafields(
+      shop,
+      accessToken,
+      removals.slice(i, i + METAFIELDS_PER_REQUEST).map((ownerId) => ({
+        ownerId,
+        namespace: PRICE_DISPLAY_NAMESPACE,
+        key: PRICE_DISPLAY_KEY,
+      })),
+    );
+  }
+
+  return updates.length + removals.length;
+}
+
+// Queue a publish or unpublish job for each rule. A rule whose prices are
+// already being written is left to the next sync, which every price job
+// requests when it finishes.
+export async function queueRulePriceJobs(
+  shop: string,
+  type: "publish-prices" | "unpublish-prices",
+  ruleIds: string[],
+) {
+  if (ruleIds.length === 0) return 0;
+
+  const pending = await getActiveJobs(shop, PRICE_JOB_TYPES);
+  let queued = 0;
+  for (const ruleId of ruleIds) {
+    if (pending.some((job) => getJobPayload<RuleJobPayload>(job).ruleId === ruleId)) {
+      continue;
+    }
+    await enqueueJob(shop, type, { ruleId });
+    queued++;
+  }
+  return queued;
+}
+
+// A published rule that can no longer be published, e.g. because it ended,
+// was disabled or its campaign was paused, gets its catalog prices put back.
+// Syncs run after every rule change and at every schedule boundary, so this
+// catches them all.
+async function unpublishIneligibleRules(shop: string, rules: PricingRule[], now: Date) {
+  const stopped = rules.filter(
+    (rule) => rule.publishedAt !== null && getPublishError(rule, now) !== null,
+  );
+  return queueRulePriceJobs(shop, "unpublish-prices", stopped.map((rule) => rule.id));
+}
+
+// A published rule edited since it was published, e.g. given a new amount,
+// has its catalog prices written again. Every edit records a rule version,
+// so a version newer than publishedAt means the prices are stale.
+async function republishChangedRules(shop: string, rules: PricingRule[], now: Date) {
+  const published = rules.filter(
+    (rule) => rule.publishedAt !== null && getPublishError(rule, now) === null,
+  );
+  if (published.length === 0) return 0;
+
+  const changed = await prisma.pricingRuleVersion.groupBy({
+    by: ["ruleId"],
+    where: { shop, ruleId: { in: published.map((rule) => rule.id) } },
+    _max: { createdAt: true },
+  });
+  const stale = published.filter((rule) => {
+    const lastChange = changed.find((group) => group.ruleId === rule.id)?._max.createdAt;
+    return lastChange && rule.publishedAt && lastChange > rule.publishedAt;
+  });
+  return queueRulePriceJobs(shop, "publish-prices", stale.map((rule) => rule.id));
+}
+
+// Restoring a variant's original price is only right when no other published
+// rule wins it. Publishing those rules again gives such variants their price
+// back; publishing only writes the variants a rule wins.
+export async function republishOtherRules(shop: string, ruleId: string) {
+  const now = new Date();
+  const others = await prisma.pricingRule.findMany({
+    where: { shop, deletedAt: null, publishedAt: { not: null }, id: { not: ruleId } },
+  });
+  return queueRulePriceJobs(
+    shop,
+    "publish-prices",
+    others.filter((rule) => getPublishError(rule, now) === null).map((rule) => rule.id),
+  );
+}
+
+async function ensurePricingDiscount(
+  shop: string,
+  accessToken: string,
+  discountId: string | null,
+  inputMetafield: { namespace: string; key: string; type: string; value: string },
+): Promise<string> {
+  if (discountId && await automaticDiscountExists(shop, accessToken, discountId)) {
+    await setAppMetafields(shop, accessToken, [{ ownerId: discountId, ...inputMetafield }]);
+    return discountId;
+  }
+
+  const apiKey = process.env.SHOPIFY_API_KEY || "";
+  const functionId = await getProductDiscountFunctionId(shop, accessToken, apiKey);
+  if (!functionId) {
+    throw new Error("The pricing discount function is not deployed for this app");
+  }
+
+  const createdId = await createAutomaticAppDiscount(shop, accessToken, {
+    title: DISCOUNT_TITLE,
+    functionId,
+    metafields: [inputMetafield],
+  });
+  await prisma.shop.update({
+    where: { shop },
+    data: { pricingDiscountId: createdId },
+  });
+  return createdId;
+}
+
+export async function syncPricingRules(
+  shop: string,
+  accessToken: string,
+  options: CatalogPageOptions = {},
+) {
+  const dbShop = await prisma.shop.findUnique({ where: { shop } });
+  if (!dbShop) {
+    throw new Error(`Shop not found in database: ${shop}`);
+  }
+
+  const now = new Date();
+  const rules = await prisma.pricingRule.findMany({ where: { shop, deletedAt: null } });
+  const unpublishQueued = await unpublishIneligibleRules(shop, rules, now);
+  const republishQueued = await republishChangedRules(shop, rules, now);
+  const { currencyCode } = await getShopCurrencySettings(shop, accessToken);
+  const { config, input } = buildFunctionConfig(rules, currencyCode, now);
+
+  const shopId = await getShopId(shop, accessToken);
+  await setAppMetafields(shop, accessToken, [
+    {
+      ownerId: shopId,
+      namespace: METAFIELD_NAMESPACE,
+      key: "rules",
+      type: "json",
+      value: JSON.stringify(config),
+    },
+  ]);
+
+  const discountId = await ensurePricingDiscount(shop, accessToken, dbShop.pricingDiscountId, {
+    namespace: METAFIELD_NAMESPACE,
+    key: "function-input",
+    type: "json",
+    value: JSON.stringify(input),
+  });
+
+  const displaysUpdated = await syncPriceDisplays(
+    shop,
+    accessToken,
+    rules,
+    currencyCode,
+    options,
+  );
+
+  // Replace any scheduled follow-up; only the nearest boundary matters
+  const nextSyncAt = getNextScheduleBoundary(rules, now);
+  const pending = await getActiveJobs(shop, [SYNC_JOB_TYPE]);
+  for (const job of pending) {
+    if (job.status === "queued" && job.runAt > now) {
+      await cancelJob(shop, job.id);
+    }
+  }
+  if (nextSyncAt) {
+    await enqueueJob(shop, SYNC_JOB_TYPE, {}, { runAt: nextSyncAt });
+  }
+
+  return {
+    ruleCount: config.rules.length,
+    discountId,
+    displaysUpdated,
+    unpublishQueued,
+    republishQueued,
+    nextSyncAt: nextSyncAt?.toISOString() || null,
+  };
+}
+
+// Queue a sync after rules change; one already waiting to run covers it
+export async function requestPricingRuleSync(shop: string) {
+  const pending = await getActiveJobs(shop, [SYNC_JOB_TYPE]);
+  const now = new Date();
+  if (pending.some((job) => job.status === "queued" && job.runAt <= now)) {
+    return;
+  }
+  await enqueueJob(shop, SYNC_JOB_TYPE);
+}
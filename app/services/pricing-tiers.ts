@@ -0,0 +1,99 @@
+// Quantity breaks for "quantity-tiers" rules: the discount depends on how many
+// units of a variant are in the cart. Shared by the editor and the pricing
+// engine, so it must stay free of server-only imports.
+
+export interface QuantityTier {
+  minQuantity: number;
+  // null for the last, open-ended tier ("50+")
+  maxQuantity: number | null;
+  discountPercent: number;
+}
+
+export const DEFAULT_QUANTITY_TIERS: QuantityTier[] = [
+  { minQuantity: 1, maxQuantity: 9, discountPercent: 0 },
+  { minQuantity: 10, maxQuantity: 49, discountPercent: 10 },
+  { minQuantity: 50, maxQuantity: null, discountPercent: 20 },
+];
+
+// Tiers are JSON and may hold an array or a serialized array
+export function parseQuantityTiers(value: unknown): QuantityTier[] {
+  let tiers = value;
+  if (typeof tiers === "string") {
+    try {
+      tiers = JSON.parse(tiers);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(tiers)) return [];
+
+  return tiers
+    .filter((tier) => tier && typeof tier === "object")
+    .map((tier) => ({
+      minQuantity: Number(tier.minQuantity),
+      maxQuantity:
+        tier.maxQuantity === null || tier.maxQuantity === undefined || tier.maxQuantity === ""
+          ? null
+          : Number(tier.maxQuantity),
+      discountPercent: Number(tier.discountPercent),
+    }));
+}
+
+// Returns the first problem with the tiers, or null when they can be saved
+export function validateQuantityTiers(tiers: QuantityTier[]): string | null {
+  if (tiers.length === 0) {
+    return "Add at least one quantity tier";
+  }
+
+  for (const [index, tier] of tiers.entries()) {
+    const label = `Tier ${index + 1}`;
+    if (!Number.isInteger(tier.minQuantity) || tier.minQuantity < 1) {
+      return `${label} needs a minimum quantity of at least 1`;
+    }
+    if (tier.maxQuantity !== null) {
+      if (!Number.isInteger(tier.maxQuantity)) {
+        return `${label} needs a whole maximum quantity`;
+      }
+      if (tier.maxQuantity < tier.minQuantity) {
+        return `${label} has a maximum quantity below its minimum`;
+      }
+    } else if (index < tiers.length - 1) {
+      return "Only the last tier can be open-ended";
+    }
+    if (isNaN(tier.discountPercent) || tier.discountPercent < 0 || tier.discountPercent > 100) {
+      return `${label} needs a discount between 0 and 100%`;
+    }
+
+    const previous = tiers[index - 1];
+    if (previous) {
+      if (tier.minQuantity <= previous.minQuantity) {
+        return "Tiers must be sorted by quantity, smallest first";
+      }
+      if (previous.maxQuantity !== null && tier.minQuantity <= previous.maxQuantity) {
+        return `${label} overlaps with tier ${index}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+export function getTierForQuantity(
+  tiers: QuantityTier[],
+  quantity: number,
+): QuantityTier | null {
+  return (
+    tiers.find(
+      (tier) =>
+        quantity >= tier.minQuantity &&
+        (tier.maxQuantity === null || quantity <= tier.maxQuantity),
+    ) || null
+  );
+}
+
+// "1–9", "10–49", "50+"
+export function formatTierRange(tier: QuantityTier): string {
+  if (tier.maxQuantity === null) return `${tier.minQuantity}+`;
+  if (tier.maxQuantity === tier.minQuantity) return `${tier.minQuantity}`;
+  return `${tier.minQuantity}–${tier.maxQuantity}`;
+}
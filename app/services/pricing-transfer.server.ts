@@ -0,0 +1,608 @@
+import type { PricingRule, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import {
+  getCollectionsByHandles,
+  getCustomerEmailsByIds,
+  getCustomersByEmails,
+  getHandlesByIds,
+  getProductsByHandles,
+  getShopCurrencySettings,
+} from "./api.graphql";
+import { parseMarketPrices, type MarketCurrency, type MarketPrice } from "./currency";
+import {
+  getConditionCollectionIds,
+  parseConditionTree,
+  type ConditionGroup,
+  type ConditionNode,
+  type ConditionTree,
+} from "./pricing-conditions";
+import { parseQuantityTiers, type QuantityTier } from "./pricing-tiers";
+import {
+  validatePricingRule,
+  type PricingRuleValues,
+} from "./pricing-rule-validation";
+import { diffRules, recordRuleEvents, type RuleChanges } from "./pricing-audit.server";
+import { recordRuleVersions, toJsonColumn } from "./pricing-versions.server";
+import { requestPricingRuleSync } from "./pricing-sync.server";
+import { applyCampaignOwnership } from "./campaigns.server";
+
+// Pricing rules in a form that does not depend on the shop's IDs: products
+// and collections by handle, markets by name and customers by email. The
+// CSV and the JSON bundle formats both read and write this form; importing
+// resolves it back to IDs and validates each rule like the editor does.
+
+// Applying an import runs as a background job; it plans the file again so it
+// is checked against the rules as they are then, not at preview time
+export const IMPORT_JOB_TYPE = "import-rules";
+
+export interface ImportJobPayload {
+  // The CSV or bundle text as previewed
+  file: string;
+  // The staff session that applies the import, for the audit log
+  sessionId: string;
+}
+
+export interface PortableMarketPrice {
+  market: string;
+  currencyCode: string;
+  price: number;
+}
+
+export interface PortableRule {
+  name: string;
+  priority: number;
+  status: string;
+  applyTo: string;
+  products: string[];
+  // Variants have no handle of their own: "product-handle/Variant title"
+  variants: string[];
+  collections: string[];
+  tags: string[];
+  // Collection conditions hold handles in place of IDs
+  conditions: ConditionTree | null;
+  excludedProducts: string[];
+  excludedCollections: string[];
+  excludedTags: string[];
+  priceType: string;
+  amount: number;
+  tiers: QuantityTier[] | null;
+  compareAtMode: string;
+  compareAtAmount: number | null;
+  roundingMode: string;
+  minPrice: number | null;
+  maxDiscountPercent: number | null;
+  marketPrices: PortableMarketPrice[];
+  customerEligibility: string;
+  customerTags: string[];
+  // Emails
+  customers: string[];
+  startsAt: string | null;
+  endsAt: string | null;
+}
+
+// One rule to import. Fields left undefined keep the matched rule's value,
+// or the editor's default for a new rule.
+export interface RuleImportInput {
+  // Position in the file, shown next to any problem
+  row: number;
+  rule: Partial<PortableRule>;
+  existing: PricingRule | null;
+  // Problems found while reading the file, such as a malformed cell
+  errors: string[];
+}
+
+export type ImportRowAction = "create" | "update" | "unchanged" | "invalid";
+
+export interface ImportRow {
+  row: number;
+  ruleId: string | null;
+  name: string;
+  action: ImportRowAction;
+  errors: string[];
+  // References that do not exist on this shop
+  unresolved: string[];
+  changes: RuleChanges;
+  // The rule's settings after the import, for creates and updates
+  fields: RuleFields | null;
+}
+
+export interface ImportPlan {
+  // Problems with the file as a whole, such as missing columns
+  errors: string[];
+  rows: ImportRow[];
+}
+
+type ImportValues = PricingRuleValues & {
+  excludedProductIds: string[] | null;
+  excludedCollectionIds: string[] | null;
+  excludedTags: string[] | null;
+};
+
+// The rule columns an import writes
+type RuleFields = Omit<ImportValues, "marketPrices"> & {
+  marketPrices: MarketPrice[] | null;
+};
+
+const DEFAULT_VALUES: ImportValues = {
+  name: "",
+  status: "inactive",
+  priority: 1,
+  applyTo: "all-products",
+  productIds: null,
+  variantIds: null,
+  collectionIds: null,
+  tagIds: null,
+  conditions: null,
+  excludedProductIds: null,
+  excludedCollectionIds: null,
+  excludedTags: null,
+  priceType: "apply-price",
+  amount: 0,
+  tiers: null,
+  compareAtMode: "original",
+  compareAtAmount: null,
+  roundingMode: "none",
+  minPrice: null,
+  maxDiscountPercent: null,
+  marketPrices: [],
+  customerEligibility: "all",
+  customerTags: null,
+  customerIds: null,
+  startsAt: null,
+  endsAt: null,
+};
+
+// JSON ID columns may hold an array or a serialized array
+function toList(value: unknown): string[] {
+  let list = value;
+  if (typeof list === "string") {
+    try {
+      list = JSON.parse(list);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(list) ? list.map(String) : [];
+}
+
+const toListOrNull = (value: unknown) => {
+  const list = toList(value);
+  return list.length > 0 ? list : null;
+};
+
+function mapConditionCollections(
+  tree: ConditionTree,
+  map: (value: string) => string,
+): ConditionTree {
+  const visit = (node: ConditionNode): ConditionNode => {
+    if (node.type === "group") {
+      return { ...node, children: node.children.map(visit) };
+    }
+    return node.field === "collection"
+      ? { ...node, values: node.values.map(map) }
+      : node;
+  };
+  return { ...tree, root: visit(tree.root) as ConditionGroup };
+}
+
+export async function toPortableRules(
+  shop: string,
+  accessToken: string,
+  rules: PricingRule[],
+): Promise<PortableRule[]> {
+  const ids = rules.flatMap((rule) => [
+    ...toList(rule.productIds),
+    ...toList(rule.variantIds),
+    ...toList(rule.collectionIds),
+    ...toList(rule.excludedProductIds),
+    ...toList(rule.excludedCollectionIds),
+    ...getConditionCollectionIds(parseConditionTree(rule.conditions)),
+  ]);
+  const customerIds = rules.flatMap((rule) => toList(rule.customerIds));
+  const hasMarketPrices = rules.some(
+    (rule) => parseMarketPrices(rule.marketPrices).length > 0,
+  );
+
+  const [handles, emails, markets] = await Promise.all([
+    ids.length > 0
+      ? getHandlesByIds(shop, accessToken, ids)
+      : new Map<string, string>(),
+    customerIds.length > 0
+      ? getCustomerEmailsByIds(shop, accessToken, customerIds)
+      : new Map<string, string>(),
+    hasMarketPrices
+      ? getShopCurrencySettings(shop, accessToken).then((settings) => settings.markets)
+      : ([] as MarketCurrency[]),
+  ]);
+  const marketNames = new Map(markets.map((market) => [market.id, market.name]));
+
+  // Products, collections and customers deleted since the rule was saved
+  // are left out
+  const lookup = (map: Map<string, string>, value: unknown) =>
+    toList(value)
+      .map((id) => map.get(id))
+      .filter((reference): reference is string => Boolean(reference));
+
+  return rules.map((rule) => {
+    const conditions = parseConditionTree(rule.conditions);
+    return {
+      name: rule.name,
+      priority: rule.priority,
+      status: rule.status,
+      applyTo: rule.applyTo,
+      products: lookup(handles, rule.productIds),
+      variants: lookup(handles, rule.variantIds),
+      collections: lookup(handles, rule.collectionIds),
+      tags: toList(rule.tagIds),
+      conditions: conditions
+        ? mapConditionCollections(conditions, (id) => handles.get(id) || id)
+        : null,
+      excludedProducts: lookup(handles, rule.excludedProductIds),
+      excludedCollections: lookup(handles, rule.excludedCollectionIds),
+      excludedTags: toList(rule.excludedTags),
+      priceType: rule.priceType,
+      amount: rule.amount,
+      tiers: rule.priceType === "quantity-tiers" ? parseQuantityTiers(rule.tiers) : null,
+      compareAtMode: rule.compareAtMode,
+      compareAtAmount: rule.compareAtAmount,
+      roundingMode: rule.roundingMode,
+      minPrice: rule.minPrice,
+      maxDiscountPercent: rule.maxDiscountPercent,
+      marketPrices: parseMarketPrices(rule.marketPrices).flatMap((marketPrice) => {
+        const market = marketNames.get(marketPrice.marketId);
+        return market
+          ? [{ market, currencyCode: marketPrice.currencyCode, price: marketPrice.price }]
+          : [];
+      }),
+      customerEligibility: rule.customerEligibility,
+      customerTags: toList(rule.customerTags),
+      customers: lookup(emails, rule.customerIds),
+      startsAt: rule.startsAt?.toISOString() ?? null,
+      endsAt: rule.endsAt?.toISOString() ?? null,
+    };
+  });
+}
+
+function valuesFromRule(rule: PricingRule): ImportValues {
+  return {
+    name: rule.name,
+    status: rule.status,
+    priority: rule.priority,
+    applyTo: rule.applyTo,
+    productIds: toListOrNull(rule.productIds),
+    variantIds: toListOrNull(rule.variantIds),
+    collectionIds: toListOrNull(rule.collectionIds),
+    tagIds: toListOrNull(rule.tagIds),
+    conditions: parseConditionTree(rule.conditions),
+    excludedProductIds: toListOrNull(rule.excludedProductIds),
+    excludedCollectionIds: toListOrNull(rule.excludedCollectionIds),
+    excludedTags: toListOrNull(rule.excludedTags),
+    priceType: rule.priceType,
+    amount: rule.amount,
+    tiers: rule.priceType === "quantity-tiers" ? parseQuantityTiers(rule.tiers) : null,
+    compareAtMode: rule.compareAtMode,
+    compareAtAmount: rule.compareAtAmount,
+    roundingMode: rule.roundingMode,
+    minPrice: rule.minPrice,
+    maxDiscountPercent: rule.maxDiscountPercent,
+    marketPrices: parseMarketPrices(rule.marketPrices),
+    customerEligibility: rule.customerEligibility,
+    customerTags: toListOrNull(rule.customerTags),
+    customerIds: toListOrNull(rule.customerIds),
+    startsAt: rule.startsAt,
+    endsAt: rule.endsAt,
+  };
+}
+
+// The columns the editor would save for these values; lists that the
+// targeting or eligibility does not use are cleared
+function toRuleFields(values: ImportValues): RuleFields {
+  const { applyTo, customerEligibility } = values;
+  const tiers = values.priceType === "quantity-tiers" ? values.tiers : null;
+  const handPicked = applyTo === "specific-products";
+
+  return {
+    name: values.name.trim(),
+    priority: values.priority,
+    status: values.status,
+    applyTo,
+    productIds: handPicked ? values.productIds : null,
+    variantIds: handPicked ? values.variantIds : null,
+    collectionIds: applyTo === "product-collections" ? values.collectionIds : null,
+    tagIds: applyTo === "product-tags" ? values.tagIds : null,
+    conditions: applyTo === "conditions" ? values.conditions : null,
+    excludedProductIds: handPicked ? null : values.excludedProductIds,
+    excludedCollectionIds: handPicked ? null : values.excludedCollectionIds,
+    excludedTags: handPicked ? null : values.excludedTags,
+    priceType: values.priceType,
+    amount: tiers ? 0 : values.amount,
+    tiers,
+    compareAtMode: values.compareAtMode,
+    compareAtAmount: values.compareAtMode === "fixed" ? values.compareAtAmount : null,
+    roundingMode: values.roundingMode,
+    minPrice: values.minPrice,
+    maxDiscountPercent: values.maxDiscountPercent,
+    marketPrices: values.marketPrices.length > 0 ? values.marketPrices : null,
+    customerEligibility,
+    customerTags: customerEligibility === "customer-tags" ? values.customerTags : null,
+    customerIds: customerEligibility === "specific-customers" ? values.customerIds : null,
+    startsAt: values.startsAt,
+    endsAt: values.endsAt,
+  };
+}
+
+function toRuleData(fields: RuleFields) {
+  return {
+    ...fields,
+    productIds: toJsonColumn(fields.productIds),
+    variantIds: toJsonColumn(fields.variantIds),
+    collectionIds: toJsonColumn(fields.collectionIds),
+    tagIds: toJsonColumn(fields.tagIds),
+    conditions: toJsonColumn(fields.conditions),
+    excludedProductIds: toJsonColumn(fields.excludedProductIds),
+    excludedCollectionIds: toJsonColumn(fields.excludedCollectionIds),
+    excludedTags: toJsonColumn(fields.excludedTags),
+    tiers: toJsonColumn(fields.tiers),
+    marketPrices: toJsonColumn(fields.marketPrices),
+    customerTags: toJsonColumn(fields.customerTags),
+    customerIds: toJsonColumn(fields.customerIds),
+  } satisfies Prisma.PricingRuleUncheckedUpdateInput;
+}
+
+const nonEmpty = (list: string[] | null) => (list && list.length > 0 ? list : null);
+
+// Resolve and validate rules against the shop without saving anything.
+// Every reference in the input is looked up in one go.
+export async function planRuleImport(
+  shop: string,
+  accessToken: string,
+  inputs: RuleImportInput[],
+): Promise<ImportRow[]> {
+  const productHandles = new Set<string>();
+  const collectionHandles = new Set<string>();
+  const emails = new Set<string>();
+  let needsMarkets = false;
+  for (const { rule } of inputs) {
+    rule.products?.forEach((handle) => productHandles.add(handle));
+    rule.excludedProducts?.forEach((handle) => productHandles.add(handle));
+    rule.variants?.forEach((reference) => productHandles.add(reference.split("/")[0]));
+    rule.collections?.forEach((handle) => collectionHandles.add(handle));
+    rule.excludedCollections?.forEach((handle) => collectionHandles.add(handle));
+    getConditionCollectionIds(rule.conditions || null).forEach((handle) =>
+      collectionHandles.add(handle),
+    );
+    rule.customers?.forEach((email) => emails.add(email.toLowerCase()));
+    needsMarkets ||= (rule.marketPrices?.length ?? 0) > 0;
+  }
+
+  const [products, collections, customers, markets] = await Promise.all([
+    productHandles.size > 0
+      ? getProductsByHandles(shop, accessToken, [...productHandles])
+      : [],
+    collectionHandles.size > 0
+      ? getCollectionsByHandles(shop, accessToken, [...collectionHandles])
+      : [],
+    emails.size > 0 ? getCustomersByEmails(shop, accessToken, [...emails]) : [],
+    needsMarkets
+      ? getShopCurrencySettings(shop, accessToken).then((settings) => settings.markets)
+      : ([] as MarketCurrency[]),
+  ]);
+  const productsByHandle = new Map(products.map((product) => [product.handle, product]));
+  const collectionsByHandle = new Map(
+    collections.map((collection) => [collection.handle, collection.id]),
+  );
+  const customersByEmail = new Map(
+    customers.map((customer) => [customer.email.toLowerCase(), customer.id]),
+  );
+  const marketsByName = new Map(markets.map((market) => [market.name, market]));
+
+  return inputs.map(({ row, rule, existing, errors: readErrors }): ImportRow => {
+    const unresolved: string[] = [];
+    const resolve = (
+      references: string[] | undefined,
+      lookup: (reference: string) => string | undefined,
+      describe: (reference: string) => string,
+    ) => {
+      if (references === undefined) return undefined;
+      const ids: string[] = [];
+      for (const reference of references) {
+        const id = lookup(reference);
+        if (id) {
+          ids.push(id);
+        } else {
+          unresolved.push(describe(reference));
+        }
+      }
+      return nonEmpty(ids);
+    };
+    const productId = (handle: string) => productsByHandle.get(handle)?.id;
+    const collectionId = (handle: string) => collectionsByHandle.get(handle);
+    const variantId = (reference: string) => {
+      const separator = reference.indexOf("/");
+      if (separator <= 0) return undefined;
+      const title = reference.slice(separator + 1);
+      return productsByHandle
+        .get(reference.slice(0, separator))
+        ?.variants.find((variant) => variant.title === title)?.id;
+    };
+
+    const values: ImportValues = existing ? valuesFromRule(existing) : { ...DEFAULT_VALUES };
+    const assign = <K extends keyof ImportValues>(key: K, value: ImportValues[K] | undefined) => {
+      if (value !== undefined) values[key] = value;
+    };
+
+    assign("name", rule.name);
+    assign("priority", rule.priority);
+    assign("status", rule.status);
+    assign("applyTo", rule.applyTo);
+    assign("priceType", rule.priceType);
+    assign("amount", rule.amount);
+    assign("tiers", rule.tiers);
+    assign("compareAtMode", rule.compareAtMode);
+    assign("compareAtAmount", rule.compareAtAmount);
+    assign("roundingMode", rule.roundingMode);
+    assign("minPrice", rule.minPrice);
+    assign("maxDiscountPercent", rule.maxDiscountPercent);
+    assign("customerEligibility", rule.customerEligibility);
+    assign("tagIds", rule.tags && nonEmpty(rule.tags));
+    assign("excludedTags", rule.excludedTags && nonEmpty(rule.excludedTags));
+    assign("customerTags", rule.customerTags && nonEmpty(rule.customerTags));
+    if (rule.startsAt !== undefined) {
+      values.startsAt = rule.startsAt ? new Date(rule.startsAt) : null;
+    }
+    if (rule.endsAt !== undefined) {
+      values.endsAt = rule.endsAt ? new Date(rule.endsAt) : null;
+    }
+
+    const describeHandle = (kind: string) => (handle: string) =>
+      `No ${kind} with handle "${handle}"`;
+    assign("productIds", resolve(rule.products, productId, describeHandle("product")));
+    assign(
+      "excludedProductIds",
+      resolve(rule.excludedProducts, productId, describeHandle("product")),
+    );
+    assign("variantIds", resolve(rule.variants, variantId, (reference) => `No variant "${reference}"`));
+    assign("collectionIds", resolve(rule.collections, collectionId, describeHandle("collection")));
+    assign(
+      "excludedCollectionIds",
+      resolve(rule.excludedCollections, collectionId, describeHandle("collection")),
+    );
+    assign(
+      "customerIds",
+      resolve(
+        rule.customers,
+        (email) => customersByEmail.get(email.toLowerCase()),
+        (email) => `No customer with email "${email}"`,
+      ),
+    );
+    if (rule.conditions !== undefined) {
+      values.conditions = rule.conditions
+        ? mapConditionCollections(rule.conditions, (handle) => {
+            const id = collectionId(handle);
+            if (!id) unresolved.push(describeHandle("collection")(handle));
+            return id || handle;
+          })
+        : null;
+    }
+    if (rule.marketPrices !== undefined) {
+      values.marketPrices = rule.marketPrices.flatMap((marketPrice): MarketPrice[] => {
+        const market = marketsByName.get(marketPrice.market);
+        if (!market) {
+          unresolved.push(`No market named "${marketPrice.market}"`);
+          return [];
+        }
+        // A price in another currency would mean a different amount
+        if (market.currencyCode !== marketPrice.currencyCode) {
+          unresolved.push(
+            `Market "${market.name}" uses ${market.currencyCode}, not ${marketPrice.currencyCode}`,
+          );
+          return [];
+        }
+        return [
+          { marketId: market.id, currencyCode: market.currencyCode, price: marketPrice.price },
+        ];
+      });
+    }
+
+    // A tiered rule without tiers fails validation rather than saving as a flat amount
+    values.tiers = values.priceType === "quantity-tiers" ? values.tiers || [] : null;
+
+    const errors = [...new Set([...readErrors, ...Object.values(validatePricingRule(values))])];
+    const uniqueUnresolved = [...new Set(unresolved)];
+    const ruleId = existing?.id ?? null;
+
+    if (errors.length > 0 || uniqueUnresolved.length > 0) {
+      return {
+        row,
+        ruleId,
+        name: values.name,
+        action: "invalid",
+        errors,
+        unresolved: uniqueUnresolved,
+        changes: {},
+        fields: null,
+      };
+    }
+
+    const fields = toRuleFields(values);
+    const changes = diffRules(existing, fields);
+    return {
+      row,
+      ruleId,
+      name: values.name.trim(),
+      action: existing
+        ? Object.keys(changes).length > 0 ? "update" : "unchanged"
+        : "create",
+      errors: [],
+      unresolved: [],
+      changes,
+      fields,
+    };
+  });
+}
+
+export const isImportValid = (plan: ImportPlan) =>
+  plan.errors.length === 0 && plan.rows.every((row) => row.action !== "invalid");
+
+// Write a plan's creates and updates in one transaction. Plans with any
+// invalid row are refused as a whole.
+export async function applyRuleImport(
+  session: { id: string; shop: string },
+  plan: ImportPlan,
+) {
+  if (!isImportValid(plan)) {
+    throw new Error("Import has invalid rows");
+  }
+
+  const pending = plan.rows.filter(
+    (row) => (row.action === "create" || row.action === "update") && row.fields,
+  );
+  const saved = await prisma.$transaction(async (tx) => {
+    const results: { before: PricingRule | null; after: PricingRule }[] = [];
+    for (const row of pending) {
+      const data = toRuleData(row.fields!);
+      if (row.action === "update") {
+        const existing = await tx.pricingRule.findFirst({
+          where: { id: row.ruleId!, shop: session.shop, deletedAt: null },
+        });
+        if (!existing) {
+          throw new Error(`Pricing rule ${row.ruleId} no longer exists`);
+        }
+        const after = await tx.pricingRule.update({
+          where: { id: existing.id },
+          data: await applyCampaignOwnership(tx, existing, data),
+        });
+        results.push({ before: existing, after });
+      } else {
+        const after = await tx.pricingRule.create({
+          data: {
+            ...data,
+            id: `pr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            shop: session.shop,
+          },
+        });
+        results.push({ before: null, after });
+      }
+    }
+    return results;
+  });
+
+  await recordRuleEvents(
+    session,
+    saved.map(({ before, after }) => ({
+      ruleId: after.id,
+      ruleName: after.name,
+      action: before ? ("update" as const) : ("create" as const),
+      changes: diffRules(before, after),
+    })),
+  );
+  await recordRuleVersions(session, saved.map(({ after }) => after));
+  if (saved.length > 0) {
+    await requestPricingRuleSync(session.shop);
+  }
+
+  return {
+    created: pending.filter((row) => row.action === "create").length,
+    updated: pending.filter((row) => row.action === "update").length,
+  };
+}
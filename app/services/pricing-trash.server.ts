@@ -0,0 +1,172 @@
+import type { PricingRule } from "@prisma/client";
+import prisma from "../db.server";
+import { applyCampaignOwnership } from "./campaigns.server";
+import { cancelJob, enqueueJob, getActiveJobs } from "./jobs.server";
+import { diffRules, recordRuleEvents } from "./pricing-audit.server";
+import { requestPricingRuleSync } from "./pricing-sync.server";
+
+// Deleted pricing rules go to the trash first: they stop applying at once
+// but can be restored until they are purged, Shop.trashRetentionDays after
+// deletion. Every other query on rules skips those with a deletedAt.
+
+export const PURGE_JOB_TYPE = "purge-trash";
+
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StaffSession = { id: string; shop: string };
+
+// Returns the rules moved to the trash
+export async function trashPricingRules(
+  session: StaffSession,
+  ruleIds: string[],
+  action: "delete" | "bulk-delete",
+) {
+  const rules = await prisma.pricingRule.findMany({
+    where: { id: { in: ruleIds }, shop: session.shop, deletedAt: null },
+    select: { id: true, name: true },
+  });
+  if (rules.length === 0) return rules;
+
+  await prisma.pricingRule.updateMany({
+    where: { id: { in: rules.map((rule) => rule.id) }, shop: session.shop },
+    data: { deletedAt: new Date() },
+  });
+  await recordRuleEvents(
+    session,
+    rules.map((rule) => ({ ruleId: rule.id, ruleName: rule.name, action })),
+  );
+  await requestPricingRuleSync(session.shop);
+  await schedulePurge(session.shop);
+
+  return rules;
+}
+
+// Returns the rules taken back out of the trash. A rule whose campaign
+// changed meanwhile comes back with the campaign's status and schedule.
+export async function restoreTrashedRules(session: StaffSession, ruleIds: string[]) {
+  const restored = await prisma.$transaction(async (tx) => {
+    const rules = await tx.pricingRule.findMany({
+      where: { id: { in: ruleIds }, shop: session.shop, deletedAt: { not: null } },
+    });
+    const changed: { before: PricingRule; after: PricingRule }[] = [];
+    for (const before of rules) {
+      const after = await tx.pricingRule.update({
+        where: { id: before.id },
+        data: await applyCampaignOwnership(tx, before, { deletedAt: null }),
+      });
+      changed.push({ before, after });
+    }
+    return changed;
+  });
+  const rules = restored.map(({ after }) => ({ id: after.id, name: after.name }));
+  if (rules.length === 0) return rules;
+
+  await recordRuleEvents(
+    session,
+    restored.map(({ before, after }) => ({
+      ruleId: after.id,
+      ruleName: after.name,
+      action: "undelete" as const,
+      changes: diffRules(before, after),
+    })),
+  );
+  await requestPricingRuleSync(session.shop);
+  await schedulePurge(session.shop);
+
+  return rules;
+}
+
+// Only rules already in the trash can be deleted for good
+export async function deleteTrashedRules(session: StaffSession, ruleIds: string[]) {
+  const rules = await prisma.pricingRule.findMany({
+    where: { id: { in: ruleIds }, shop: session.shop, deletedAt: { not: null } },
+    select: { id: true, name: true },
+  });
+  if (rules.length === 0) return rules;
+
+  await prisma.pricingRule.deleteMany({
+    where: { id: { in: rules.map((rule) => rule.id) }, shop: session.shop },
+  });
+  await recordRuleEvents(
+    session,
+    rules.map((rule) => ({ ruleId: rule.id, ruleName: rule.name, action: "purge" as const })),
+  );
+  await schedulePurge(session.shop);
+
+  return rules;
+}
+
+export async function getTrashedRules(shop: string) {
+  return prisma.pricingRule.findMany({
+    where: { shop, deletedAt: { not: null } },
+    orderBy: { deletedAt: "desc" },
+  });
+}
+
+export function getPurgeDate(deletedAt: Date, retentionDays: number) {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+export async function setTrashRetentionDays(shop: string, days: number) {
+  await prisma.shop.update({
+    where: { shop },
+    data: { trashRetentionDays: days },
+  });
+  await schedulePurge(shop);
+}
+
+// Delete the rules whose time in the trash is up
+export async function purgeExpiredRules(shop: string) {
+  const dbShop = await prisma.shop.findUnique({ where: { shop } });
+  if (!dbShop) {
+    throw new Error(`Shop not found in database: ${shop}`);
+  }
+
+  const cutoff = new Date(Date.now() - dbShop.trashRetentionDays * DAY_MS);
+  const expired = await prisma.pricingRule.findMany({
+    where: { shop, deletedAt: { lte: cutoff } },
+    select: { id: true, name: true },
+  });
+
+  if (expired.length > 0) {
+    await prisma.pricingRule.deleteMany({
+      where: { id: { in: expired.map((rule) => rule.id) }, shop },
+    });
+    // Background work has no staff member; the offline session has no user
+    await recordRuleEvents(
+      { id: `offline_${shop}`, shop },
+      expired.map((rule) => ({ ruleId: rule.id, ruleName: rule.name, action: "purge" as const })),
+    );
+  }
+  await schedulePurge(shop);
+
+  return { purged: expired.length };
+}
+
+// Keep one purge job queued for when the oldest rule in the trash expires
+async function schedulePurge(shop: string) {
+  const [dbShop, oldest] = await Promise.all([
+    prisma.shop.findUnique({ where: { shop } }),
+    prisma.pricingRule.findFirst({
+      where: { shop, deletedAt: { not: null } },
+      orderBy: { deletedAt: "asc" },
+      select: { deletedAt: true },
+    }),
+  ]);
+
+  const now = new Date();
+  const pending = await getActiveJobs(shop, [PURGE_JOB_TYPE]);
+  for (const job of pending) {
+    if (job.status === "queued" && job.runAt > now) {
+      await cancelJob(shop, job.id);
+    }
+  }
+
+  if (dbShop && oldest?.deletedAt) {
+    await enqueueJob(shop, PURGE_JOB_TYPE, {}, {
+      runAt: getPurgeDate(oldest.deletedAt, dbShop.trashRetentionDays),
+    });
+  }
+}
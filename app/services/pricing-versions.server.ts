@@ -0,0 +1,143 @@
+import { Prisma, type PricingRule } from "@prisma/client";
+import prisma from "../db.server";
+import {
+  AUDITED_FIELDS,
+  diffRules,
+  getStaffMember,
+  recordRuleEvents,
+  snapshotRule,
+  type RuleSnapshot,
+} from "./pricing-audit.server";
+import { applyCampaignOwnership } from "./campaigns.server";
+
+// Every save of a rule stores a numbered snapshot of its settings. Versions
+// are never edited: restoring one writes its settings back to the rule and
+// records that as the next version.
+
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+type VersionedRule = Partial<PricingRule> & { id: string; shop: string };
+
+const JSON_FIELDS = new Set<string>([
+  "productIds",
+  "variantIds",
+  "collectionIds",
+  "tagIds",
+  "conditions",
+  "excludedProductIds",
+  "excludedCollectionIds",
+  "excludedTags",
+  "tiers",
+  "marketPrices",
+  "customerTags",
+  "customerIds",
+]);
+
+const DATE_FIELDS = new Set<string>(["startsAt", "endsAt"]);
+
+async function createVersion(
+  client: PrismaClientLike,
+  rule: VersionedRule,
+  staff: { staffName: string | null; staffEmail: string | null },
+) {
+  const latest = await client.pricingRuleVersion.findFirst({
+    where: { ruleId: rule.id },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  return client.pricingRuleVersion.create({
+    data: {
+      id: `ver_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      shop: rule.shop,
+      ruleId: rule.id,
+      version: (latest?.version ?? 0) + 1,
+      snapshot: snapshotRule(rule) as Prisma.InputJsonValue,
+      ...staff,
+    },
+  });
+}
+
+export async function recordRuleVersions(
+  session: { id: string },
+  rules: VersionedRule[],
+) {
+  if (rules.length === 0) return;
+
+  const staff = await getStaffMember(session);
+  for (const rule of rules) {
+    await createVersion(prisma, rule, staff);
+  }
+}
+
+export async function getRuleVersions(shop: string, ruleId: string) {
+  return prisma.pricingRuleVersion.findMany({
+    where: { shop, ruleId },
+    orderBy: { version: "desc" },
+  });
+}
+
+// Rule JSON columns hold plain data such as ID lists or condition trees;
+// null is stored as a database NULL
+export function toJsonColumn(value: Prisma.JsonValue | object) {
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+// Turn a snapshot back into rule columns; JSON nulls become database NULLs
+export function snapshotToRuleData(snapshot: RuleSnapshot) {
+  const data: Record<string, unknown> = {};
+  for (const field of AUDITED_FIELDS) {
+    const value = snapshot[field] ?? null;
+    if (DATE_FIELDS.has(field)) {
+      data[field] = value ? new Date(value as string) : null;
+    } else if (JSON_FIELDS.has(field)) {
+      data[field] = toJsonColumn(value as Prisma.JsonValue);
+    } else {
+      data[field] = value;
+    }
+  }
+  return data as Prisma.PricingRuleUpdateInput;
+}
+
+// Returns the rule with the version's settings and the version it became,
+// or null when the rule or version does not exist
+export async function restoreRuleVersion(
+  session: { id: string; shop: string },
+  ruleId: string,
+  versionId: string,
+) {
+  const [rule, version] = await Promise.all([
+    prisma.pricingRule.findFirst({
+      where: { id: ruleId, shop: session.shop, deletedAt: null },
+    }),
+    prisma.pricingRuleVersion.findFirst({
+      where: { id: versionId, ruleId, shop: session.shop },
+    }),
+  ]);
+  if (!rule || !version) return null;
+
+  const staff = await getStaffMember(session);
+  const result = await prisma.$transaction(async (tx) => {
+    const restored = await tx.pricingRule.update({
+      where: { id: rule.id },
+      data: await applyCampaignOwnership(
+        tx,
+        rule,
+        snapshotToRuleData(version.snapshot as RuleSnapshot),
+      ),
+    });
+    const newVersion = await createVersion(tx, restored, staff);
+    return { rule: restored, version: newVersion };
+  });
+
+  await recordRuleEvents(session, [
+    {
+      ruleId: rule.id,
+      ruleName: result.rule.name,
+      action: "restore",
+      changes: diffRules(rule, result.rule),
+    },
+  ]);
+
+  return result;
+}
@@ -0,0 +1,752 @@
+import prisma from "../db.server";
+import {
+  getAllProductsWithPricing,
+  getProductsByIdsWithPricing,
+  getProductIdsByVariantIds,
+  getProductsByCollectionIdsWithPricing,
+  getProductsByTagsWithPricing,
+  type CatalogPageOptions,
+  type CatalogProduct,
+} from "./api.graphql";
+import {
+  evaluateConditionTree,
+  parseConditionTree,
+} from "./pricing-conditions";
+import {
+  getCurrencyDecimals,
+  parseMarketPrices,
+  roundToCurrency,
+  type MarketPrice,
+} from "./currency";
+import {
+  getEligiblePreviewCustomer,
+  isCustomerEligible,
+  type PricingCustomer,
+} from "./customer-eligibility";
+import {
+  getTierForQuantity,
+  parseQuantityTiers,
+  type QuantityTier,
+} from "./pricing-tiers";
+
+// Shared pricing engine: every surface that shows or writes a rule-adjusted
+// price (preview, publish, import/export) resolves it through this module.
+
+export interface PricingRuleInput {
+  id: string;
+  name: string;
+  priority: number;
+  status: string;
+  applyTo: string;
+  productIds?: unknown;
+  variantIds?: unknown;
+  collectionIds?: unknown;
+  tagIds?: unknown;
+  conditions?: unknown;
+  excludedProductIds?: unknown;
+  excludedCollectionIds?: unknown;
+  excludedTags?: unknown;
+  priceType: string;
+  amount: number;
+  tiers?: unknown;
+  compareAtMode?: string | null;
+  compareAtAmount?: number | null;
+  roundingMode?: string | null;
+  minPrice?: number | null;
+  maxDiscountPercent?: number | null;
+  marketPrices?: unknown;
+  customerEligibility?: string | null;
+  customerTags?: unknown;
+  customerIds?: unknown;
+  startsAt?: Date | string | null;
+  endsAt?: Date | string | null;
+  createdAt?: Date | string | null;
+}
+
+// "inactive" is a manually disabled rule; the others follow the schedule
+export type RuleEffectiveStatus = "inactive" | "scheduled" | "running" | "expired";
+
+export interface PricingVariant {
+  id: string;
+  productId: string;
+  price: string | number;
+  compareAtPrice?: string | number | null;
+  collectionIds?: string[];
+  tags?: string[];
+  vendor?: string;
+  productType?: string;
+}
+
+export interface PricingProduct {
+  id: string;
+  tags?: string[];
+  vendor?: string;
+  productType?: string;
+  collectionIds?: string[];
+  variants?: {
+    id: string;
+    price: string;
+    compareAtPrice?: string | null;
+  }[];
+}
+
+export interface WinningRule {
+  id: string;
+  name: string;
+  priority: number;
+}
+
+export interface PriceResolution {
+  variantId: string;
+  originalPrice: number;
+  finalPrice: number;
+  originalCompareAtPrice: number | null;
+  finalCompareAtPrice: number | null;
+  // Fixed prices the winning rule sets in other markets
+  marketPrices: MarketPrice[];
+  rule: WinningRule | null;
+  reason: string;
+  matchedRuleIds: string[];
+}
+
+// Rule ID columns are JSON and may hold an array or a serialized array
+export function parseIdList(value: unknown): string[] {
+  if (Array.isArray(value)) return value as string[];
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+// Price after applying a single rule's adjustment, never below zero
+export function calculateRulePrice(
+  originalPrice: string | number,
+  priceType: string,
+  amount: string | number,
+): number {
+  const original = parseFloat(String(originalPrice)) || 0;
+  const amountValue = parseFloat(String(amount)) || 0;
+
+  switch (priceType) {
+    case "apply-price":
+      return amountValue;
+    case "decrease-fixed":
+      return Math.max(0, original - amountValue);
+    case "decrease-percentage":
+      return Math.max(0, original - (original * amountValue) / 100);
+    default:
+      return original;
+  }
+}
+
+export type RoundingMode =
+  | "none"
+  | "nearest-0.05"
+  | "nearest-0.10"
+  | "nearest-1.00"
+  | "down-1.00"
+  | "charm-0.99"
+  | "charm-0.95"
+  | "charm-0.00";
+
+const ROUNDING_STEPS: Record<string, { step: number; direction: "nearest" | "down" }> = {
+  "nearest-0.05": { step: 5, direction: "nearest" },
+  "nearest-0.10": { step: 10, direction: "nearest" },
+  "nearest-1.00": { step: 100, direction: "nearest" },
+  "down-1.00": { step: 100, direction: "down" },
+};
+
+const CHARM_ENDINGS: Record<string, number> = {
+  "charm-0.99": 99,
+  "charm-0.95": 95,
+  "charm-0.00": 0,
+};
+
+// Round a price the way the rule asks; "up" is used when the normal
+// direction would fall below the rule's limits. Works in cents to avoid
+// floating point drift.
+export function roundPrice(
+  price: number,
+  roundingMode: string | null | undefined,
+  direction?: "up",
+): number {
+  const cents = Math.round(price * 100);
+  const round = (value: number, fallback: "nearest" | "down") => {
+    if (direction === "up") return Math.ceil(value);
+    return fallback === "down" ? Math.floor(value) : Math.round(value);
+  };
+
+  const stepConfig = roundingMode ? ROUNDING_STEPS[roundingMode] : undefined;
+  if (stepConfig) {
+    return (round(cents / stepConfig.step, stepConfig.direction) * stepConfig.step) / 100;
+  }
+
+  const ending = roundingMode ? CHARM_ENDINGS[roundingMode] : undefined;
+  if (ending !== undefined) {
+    // Closest whole amount that ends in the charm cents
+    const units = Math.max(0, round((cents - ending) / 100, "nearest"));
+    return (units * 100 + ending) / 100;
+  }
+
+  return cents / 100;
+}
+
+// Apply the rule's adjustment, then its discount cap, price floor and rounding.
+// The result is rounded to the currency's decimals, so JPY and VND prices
+// come out whole. Quantity tiers use the tier the quantity falls into.
+export function applyRulePrice(
+  originalPrice: string | number,
+  rule: Pick<
+    PricingRuleInput,
+    | "priceType"
+    | "amount"
+    | "tiers"
+    | "roundingMode"
+    | "minPrice"
+    | "maxDiscountPercent"
+  >,
+  currencyCode?: string,
+  quantity: number = 1,
+): number {
+  const original = parseFloat(String(originalPrice)) || 0;
+  let price: number;
+  if (rule.priceType === "quantity-tiers") {
+    const tier = getTierForQuantity(parseQuantityTiers(rule.tiers), quantity);
+    // Quantities below the first tier pay the original price
+    price = tier
+      ? calculateRulePrice(original, "decrease-percentage", tier.discountPercent)
+      : original;
+  } else {
+    price = calculateRulePrice(original, rule.priceType, rule.amount);
+  }
+
+  // The lowest price the rule may produce; limits never raise a price above
+  // its original
+  let lowest = 0;
+  if (rule.maxDiscountPercent !== null && rule.maxDiscountPercent !== undefined) {
+    lowest = Math.max(lowest, original * (1 - rule.maxDiscountPercent / 100));
+  }
+  if (rule.minPrice !== null && rule.minPrice !== undefined) {
+    lowest = Math.max(lowest, Math.min(rule.minPrice, original));
+  }
+
+  // Limits are enforced to the currency's smallest unit
+  const factor = Math.pow(10, getCurrencyDecimals(currencyCode));
+  lowest = Math.ceil(Math.round(lowest * factor * 100) / 100) / factor;
+
+  const limited = Math.max(price, lowest);
+  const rounded = roundToCurrency(roundPrice(limited, rule.roundingMode), currencyCode);
+  return rounded < lowest
+    ? roundToCurrency(roundPrice(limited, rule.roundingMode, "up"), currencyCode)
+    : rounded;
+}
+
+export type CompareAtMode = "original" | "unchanged" | "clear" | "fixed";
+
+const toPriceOrNull = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = parseFloat(String(value));
+  return isNaN(parsed) ? null : parsed;
+};
+
+// Compare-at price the variant should show once the rule's price is applied
+export function calculateCompareAtPrice(
+  originalPrice: number,
+  originalCompareAtPrice: number | null,
+  finalPrice: number,
+  compareAtMode: string | null | undefined,
+  compareAtAmount?: number | null,
+): number | null {
+  switch (compareAtMode) {
+    case "original":
+      // Only a higher compare-at renders as a strikethrough price
+      return finalPrice < originalPrice ? originalPrice : originalCompareAtPrice;
+    case "clear":
+      return null;
+    case "fixed":
+      return toPriceOrNull(compareAtAmount);
+    default:
+      return originalCompareAtPrice;
+  }
+}
+
+// Returns why the rule's exclusion lists leave the variant out, if they do
+export function getRuleExclusionReason(
+  rule: PricingRuleInput,
+  variant: PricingVariant,
+): string | null {
+  if (parseIdList(rule.excludedProductIds).includes(variant.productId)) {
+    return "product is excluded";
+  }
+
+  const excludedCollectionIds = parseIdList(rule.excludedCollectionIds);
+  if (
+    (variant.collectionIds || []).some((id) => excludedCollectionIds.includes(id))
+  ) {
+    return "product is in an excluded collection";
+  }
+
+  const excludedTags = parseIdList(rule.excludedTags).map((tag) =>
+    tag.toLowerCase(),
+  );
+  const excludedTag = (variant.tags || []).find((tag) =>
+    excludedTags.includes(tag.toLowerCase()),
+  );
+  if (excludedTag) {
+    return `product is tagged "${excludedTag}", which is excluded`;
+  }
+
+  return null;
+}
+
+// Returns why the rule targets the variant, or null when it does not.
+// Exclusions always win over the rule's targeting.
+export function getRuleMatchReason(
+  rule: PricingRuleInput,
+  variant: PricingVariant,
+): string | null {
+  if (getRuleExclusionReason(rule, variant) !== null) {
+    return null;
+  }
+
+  switch (rule.applyTo) {
+    case "all-products":
+      return "applies to all products";
+
+    case "specific-products": {
+      if (parseIdList(rule.variantIds).includes(variant.id)) {
+        return "targets this variant";
+      }
+      if (parseIdList(rule.productIds).includes(variant.productId)) {
+        return "targets this product";
+      }
+      return null;
+    }
+
+    case "product-collections": {
+      const collectionIds = parseIdList(rule.collectionIds);
+      const match = (variant.collectionIds || []).find((id) =>
+        collectionIds.includes(id),
+      );
+      return match ? "product is in a targeted collection" : null;
+    }
+
+    case "product-tags": {
+      const tags = parseIdList(rule.tagIds).map((tag) => tag.toLowerCase());
+      const match = (variant.tags || []).find((tag) =>
+        tags.includes(tag.toLowerCase()),
+      );
+      return match ? `product is tagged "${match}"` : null;
+    }
+
+    case "conditions": {
+      const tree = parseConditionTree(rule.conditions);
+      if (!tree) return null;
+      const matches = evaluateConditionTree(tree, {
+        price: parseFloat(String(variant.price)) || 0,
+        collectionIds: variant.collectionIds || [],
+        tags: variant.tags || [],
+        vendor: variant.vendor || "",
+        productType: variant.productType || "",
+      });
+      return matches ? "product matches the rule's conditions" : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+const toTime = (value: Date | string | null | undefined) =>
+  value ? new Date(value).getTime() : 0;
+
+// Precedence: lower priority number wins, then the most recently created rule
+export function compareRulePrecedence(
+  a: PricingRuleInput,
+  b: PricingRuleInput,
+): number {
+  if (a.priority !== b.priority) {
+    return a.priority - b.priority;
+  }
+  const createdDiff = toTime(b.createdAt) - toTime(a.createdAt);
+  if (createdDiff !== 0) {
+    return createdDiff;
+  }
+  return a.id.localeCompare(b.id);
+}
+
+export function getRuleEffectiveStatus(
+  rule: Pick<PricingRuleInput, "status" | "startsAt" | "endsAt">,
+  now: Date = new Date(),
+): RuleEffectiveStatus {
+  if (rule.status !== "active") {
+    return "inactive";
+  }
+  if (rule.startsAt && new Date(rule.startsAt) > now) {
+    return "scheduled";
+  }
+  if (rule.endsAt && new Date(rule.endsAt) <= now) {
+    return "expired";
+  }
+  return "running";
+}
+
+export function isRuleActive(
+  rule: PricingRuleInput,
+  now: Date = new Date(),
+): boolean {
+  return getRuleEffectiveStatus(rule, now) === "running";
+}
+
+export interface ResolveOptions {
+  now?: Date;
+  currencyCode?: string;
+  // Units in the cart; catalog prices are for a single unit
+  quantity?: number;
+  // Catalog prices are what an anonymous visitor pays, so rules limited to
+  // certain customers only apply when a customer is given
+  customer?: PricingCustomer | null;
+}
+
+// Resolve the final price of one variant against every rule of the shop
+export function resolveVariantPrice(
+  variant: PricingVariant,
+  rules: PricingRuleInput[],
+  options: ResolveOptions = {},
+): PriceResolution {
+  const { now = new Date(), currencyCode, quantity = 1, customer = null } = options;
+  const originalPrice = parseFloat(String(variant.price)) || 0;
+  const originalCompareAtPrice = toPriceOrNull(variant.compareAtPrice);
+
+  const matches = rules
+    .filter((rule) => isRuleActive(rule, now))
+    .filter((rule) => isCustomerEligible(rule, customer))
+    .map((rule) => ({ rule, reason: getRuleMatchReason(rule, variant) }))
+    .filter(
+      (match): match is { rule: PricingRuleInput; reason: string } =>
+        match.reason !== null,
+    )
+    .sort((a, b) => compareRulePrecedence(a.rule, b.rule));
+
+  if (matches.length === 0) {
+    return {
+      variantId: variant.id,
+      originalPrice,
+      finalPrice: originalPrice,
+      originalCompareAtPrice,
+      finalCompareAtPrice: originalCompareAtPrice,
+      marketPrices: [],
+      rule: null,
+      reason: "No active pricing rule matches this variant",
+      matchedRuleIds: [],
+    };
+  }
+
+  const [winner, ...others] = matches;
+  let reason = `"${winner.rule.name}" ${winner.reason} (priority ${winner.rule.priority})`;
+  if (others.length > 0) {
+    reason += ` and takes precedence over ${others.length} other matching rule${others.length !== 1 ? "s" : ""}`;
+  }
+
+  const finalPrice = applyRulePrice(
+    originalPrice,
+    winner.rule,
+    currencyCode,
+    quantity,
+  );
+
+  return {
+    variantId: variant.id,
+    originalPrice,
+    finalPrice,
+    originalCompareAtPrice,
+    finalCompareAtPrice: calculateCompareAtPrice(
+      originalPrice,
+      originalCompareAtPrice,
+      finalPrice,
+      winner.rule.compareAtMode,
+      winner.rule.compareAtAmount,
+    ),
+    marketPrices: parseMarketPrices(winner.rule.marketPrices),
+    rule: {
+      id: winner.rule.id,
+      name: winner.rule.name,
+      priority: winner.rule.priority,
+    },
+    reason,
+    matchedRuleIds: matches.map((match) => match.rule.id),
+  };
+}
+
+// Flatten products from the *WithPricing GraphQL helpers into engine variants
+export function toPricingVariants(product: PricingProduct): PricingVariant[] {
+  return (product.variants || []).map((variant) => ({
+    id: variant.id,
+    productId: product.id,
+    price: variant.price,
+    compareAtPrice: variant.compareAtPrice,
+    collectionIds: product.collectionIds || [],
+    tags: product.tags || [],
+    vendor: product.vendor || "",
+    productType: product.productType || "",
+  }));
+}
+
+export function resolveProductPrices(
+  products: PricingProduct[],
+  rules: PricingRuleInput[],
+  options: ResolveOptions = {},
+): Map<string, PriceResolution> {
+  const resolveOptions = { ...options, now: options.now || new Date() };
+  const resolutions = new Map<string, PriceResolution>();
+  for (const product of products) {
+    for (const variant of toPricingVariants(product)) {
+      resolutions.set(variant.id, resolveVariantPrice(variant, rules, resolveOptions));
+    }
+  }
+  return resolutions;
+}
+
+// Variants already published carry the rule's price on Shopify; put the
+// captured originals back so rules are never applied on top of themselves
+export async function withOriginalPrices<T extends PricingProduct>(
+  shop: string,
+  products: T[],
+): Promise<T[]> {
+  const variantIds = products.flatMap((product) =>
+    (product.variants || []).map((variant) => variant.id),
+  );
+  if (variantIds.length === 0) return products;
+
+  const backups = await prisma.variantPriceBackup.findMany({
+    where: { shop, variantId: { in: variantIds } },
+  });
+  if (backups.length === 0) return products;
+
+  const backupsByVariant = new Map(
+    backups.map((backup) => [backup.variantId, backup]),
+  );
+  return products.map((product) => ({
+    ...product,
+    variants: (product.variants || []).map((variant) => {
+      const backup = backupsByVariant.get(variant.id);
+      return backup
+        ? {
+            ...variant,
+            price: backup.originalPrice,
+            compareAtPrice: backup.originalCompareAtPrice,
+          }
+        : variant;
+    }),
+  }));
+}
+
+// Rules that are enabled and inside their schedule right now
+export async function getActivePricingRules(shop: string) {
+  const now = new Date();
+  return prisma.pricingRule.findMany({
+    where: {
+      shop,
+      status: "active",
+      deletedAt: null,
+      AND: [
+        { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+        { OR: [{ endsAt: null }, { endsAt: { gt: now } }] },
+      ],
+    },
+    orderBy: [{ priority: "asc" }, { createdAt: "desc" }],
+  });
+}
+
+// Fetch the products a rule's applyTo targeting points at
+export async function getProductsForRule(
+  shop: string,
+  accessToken: string,
+  rule: Pick<
+    PricingRuleInput,
+    "applyTo" | "productIds" | "variantIds" | "collectionIds" | "tagIds"
+  >,
+  options: CatalogPageOptions = {},
+): Promise<CatalogProduct[]> {
+  switch (rule.applyTo) {
+    case "all-products":
+    // Conditions can match anything, so the whole catalog is evaluated
+    case "conditions":
+      return getAllProductsWithPricing(shop, accessToken, 100, options);
+
+    case "specific-products": {
+      const variantIds = parseIdList(rule.variantIds);
+      const productIds = [
+        ...new Set([
+          ...parseIdList(rule.productIds),
+          ...(variantIds.length > 0
+            ? await getProductIdsByVariantIds(shop, accessToken, variantIds)
+            : []),
+        ]),
+      ];
+      return productIds.length > 0
+        ? getProductsByIdsWithPricing(shop, accessToken, productIds)
+        : [];
+    }
+
+    case "product-collections": {
+      const collectionIds = parseIdList(rule.collectionIds);
+      return collectionIds.length > 0
+        ? getProductsByCollectionIdsWithPricing(shop, accessToken, collectionIds, options)
+        : [];
+    }
+
+    case "product-tags": {
+      const tags = parseIdList(rule.tagIds);
+      return tags.length > 0
+        ? getProductsByTagsWithPricing(shop, accessToken, tags, options)
+        : [];
+    }
+
+    default:
+      return [];
+  }
+}
+
+export const DRAFT_RULE_ID = "draft";
+
+// Unsaved editor values previewed as if the rule were enabled
+export function buildDraftRule(values: {
+  id?: string;
+  applyTo: string;
+  productIds?: unknown;
+  variantIds?: unknown;
+  collectionIds?: unknown;
+  tagIds?: unknown;
+  conditions?: unknown;
+  excludedProductIds?: unknown;
+  excludedCollectionIds?: unknown;
+  excludedTags?: unknown;
+  priceType?: string | null;
+  amount?: string | number | null;
+  tiers?: unknown;
+  compareAtMode?: string | null;
+  compareAtAmount?: string | number | null;
+  roundingMode?: string | null;
+  minPrice?: string | number | null;
+  maxDiscountPercent?: string | number | null;
+  marketPrices?: unknown;
+  customerEligibility?: string | null;
+  customerTags?: unknown;
+  customerIds?: unknown;
+  priority?: string | number | null;
+  name?: string | null;
+}): PricingRuleInput {
+  return {
+    id: values.id || DRAFT_RULE_ID,
+    name: values.name || "This rule",
+    priority: parseInt(String(values.priority)) || 1,
+    status: "active",
+    applyTo: values.applyTo,
+    productIds: values.productIds || [],
+    variantIds: values.variantIds || [],
+    collectionIds: values.collectionIds || [],
+    tagIds: values.tagIds || [],
+    conditions: parseConditionTree(values.conditions),
+    excludedProductIds: values.excludedProductIds || [],
+    excludedCollectionIds: values.excludedCollectionIds || [],
+    excludedTags: values.excludedTags || [],
+    priceType: values.priceType || "apply-price",
+    amount: parseFloat(String(values.amount)) || 0,
+    tiers: parseQuantityTiers(values.tiers),
+    compareAtMode: values.compareAtMode || "unchanged",
+    compareAtAmount: toPriceOrNull(values.compareAtAmount),
+    roundingMode: values.roundingMode || "none",
+    minPrice: toPriceOrNull(values.minPrice),
+    maxDiscountPercent: toPriceOrNull(values.maxDiscountPercent),
+    marketPrices: parseMarketPrices(values.marketPrices),
+    customerEligibility: values.customerEligibility || "all",
+    customerTags: values.customerTags || [],
+    customerIds: values.customerIds || [],
+    createdAt: new Date(),
+  };
+}
+
+// Whole-catalog previews run as a background job with the draft rule
+export interface PreviewJobPayload {
+  rule: PricingRuleInput;
+}
+
+// Price every variant the previewed rule targets, alone and against the
+// shop's other active rules, so the preview shows which rule would actually win.
+// Rules limited to certain customers are previewed for a customer they target.
+// The previewed rule counts as running, whether it is a draft from the editor
+// or a saved rule that is disabled or scheduled, so both preview the same.
+export async function priceProductsForPreview(
+  shop: string,
+  catalogProducts: CatalogProduct[],
+  previewedRule: PricingRuleInput,
+  currencyCode?: string,
+) {
+  const draft: PricingRuleInput = {
+    ...previewedRule,
+    status: "active",
+    startsAt: null,
+    endsAt: null,
+  };
+  const products = await withOriginalPrices(shop, catalogProducts);
+  const otherRules = (await getActivePricingRules(shop)).filter(
+    (rule) => rule.id !== draft.id,
+  );
+  const resolutions = resolveProductPrices(products, [draft, ...otherRules], {
+    currencyCode,
+    customer: getEligiblePreviewCustomer(draft),
+  });
+
+  return products
+    .map((product) => {
+      const targetedIds = new Set(
+        toPricingVariants(product)
+          .filter((variant) => getRuleMatchReason(draft, variant) !== null)
+          .map((variant) => variant.id),
+      );
+
+      return {
+        ...product,
+        variants: product.variants
+          .filter((variant) => targetedIds.has(variant.id))
+          .map((variant) => {
+            const resolution = resolutions.get(variant.id);
+            return {
+              ...variant,
+              pricing: {
+                rulePrice: applyRulePrice(variant.price, draft, currencyCode),
+                tierPrices: getTierPrices(variant.price, draft, currencyCode),
+                finalPrice: resolution?.finalPrice ?? parseFloat(variant.price),
+                finalCompareAtPrice:
+                  resolution?.finalCompareAtPrice ??
+                  toPriceOrNull(variant.compareAtPrice),
+                marketPrices: resolution?.marketPrices ?? [],
+                winningRule: resolution?.rule ?? null,
+                isPreviewedRuleWinner: resolution?.rule?.id === draft.id,
+                reason: resolution?.reason ?? "",
+              },
+            };
+          }),
+      };
+    })
+    .filter((product) => product.variants.length > 0);
+}
+
+// The previewed rule's price at each of its quantity tiers
+function getTierPrices(
+  originalPrice: string | number,
+  rule: PricingRuleInput,
+  currencyCode?: string,
+): (QuantityTier & { price: number })[] {
+  if (rule.priceType !== "quantity-tiers") return [];
+  return parseQuantityTiers(rule.tiers).map((tier) => ({
+    ...tier,
+    price: applyRulePrice(originalPrice, rule, currencyCode, tier.minQuantity),
+  }));
+}
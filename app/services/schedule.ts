@@ -0,0 +1,11 @@
+// Start and end dates of rules and campaigns as the editors show them. Must
+// stay free of server-only imports.
+
+// Format a stored date for a datetime-local input in the browser's timezone
+export function toDateTimeLocalValue(value?: string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+  const pad = (part: number) => part.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
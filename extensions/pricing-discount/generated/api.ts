@@ -0,0 +1,300 @@
+export type Maybe<T> = T | null;
+export type InputMaybe<T> = Maybe<T>;
+export type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+export type MakeOptional<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]?: Maybe<T[SubKey]> };
+export type MakeMaybe<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]: Maybe<T[SubKey]> };
+export type MakeEmpty<T extends { [key: string]: unknown }, K extends keyof T> = { [_ in K]?: never };
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+/** All built-in and custom scalars, mapped to their actual values */
+export type Scalars = {
+  ID: { input: string; output: string; }
+  String: { input: string; output: string; }
+  Boolean: { input: boolean; output: boolean; }
+  Int: { input: number; output: number; }
+  Float: { input: number; output: number; }
+  /** A signed decimal number, serialized as a string, e.g. "29.99". */
+  Decimal: { input: any; output: any; }
+  /** A JSON value. */
+  JSON: { input: any; output: any; }
+  /** A void type that can be used to return a null value from a mutation. */
+  Void: { input: any; output: any; }
+};
+
+/** Represents information about the buyer that is interacting with the cart. */
+export type BuyerIdentity = {
+  __typename?: 'BuyerIdentity';
+  /** The customer associated with the cart. */
+  customer?: Maybe<Customer>;
+  /** The email address of the buyer that's interacting with the cart. */
+  email?: Maybe<Scalars['String']['output']>;
+  /** Whether the buyer authenticated with a customer account. */
+  isAuthenticated: Scalars['Boolean']['output'];
+};
+
+/** A cart represents the merchandise that a buyer intends to purchase. */
+export type Cart = {
+  __typename?: 'Cart';
+  /** Information about the buyer that is interacting with the cart. */
+  buyerIdentity?: Maybe<BuyerIdentity>;
+  /** A list of lines containing information about the items the customer intends to purchase. */
+  lines: Array<CartLine>;
+};
+
+/** Represents information about the merchandise in the cart. */
+export type CartLine = {
+  __typename?: 'CartLine';
+  /** The cost of the merchandise line that the buyer will pay at checkout. */
+  cost: CartLineCost;
+  /** The ID of the cart line. */
+  id: Scalars['ID']['output'];
+  /** The merchandise that the buyer intends to purchase. */
+  merchandise: Merchandise;
+  /** The quantity of the merchandise that the customer intends to purchase. */
+  quantity: Scalars['Int']['output'];
+};
+
+/** The cost of the merchandise line that the buyer will pay at checkout. */
+export type CartLineCost = {
+  __typename?: 'CartLineCost';
+  /** The amount of the merchandise line. */
+  amountPerQuantity: MoneyV2;
+  /** The compare at amount of the merchandise line. */
+  compareAtAmountPerQuantity?: Maybe<MoneyV2>;
+  /** The cost of the merchandise line before line-level discounts. */
+  subtotalAmount: MoneyV2;
+  /** The total cost of the merchandise line. */
+  totalAmount: MoneyV2;
+};
+
+/** A method for applying a discount to a specific cart line. */
+export type CartLineTarget = {
+  /** The ID of the targeted cart line. */
+  id: Scalars['ID']['input'];
+  /** The number of line items that are being discounted. */
+  quantity?: InputMaybe<Scalars['Int']['input']>;
+};
+
+/** Represents whether the product is a member of the given collection. */
+export type CollectionMembership = {
+  __typename?: 'CollectionMembership';
+  /** The ID of the collection. */
+  collectionId: Scalars['ID']['output'];
+  /** Whether the product is a member of the collection. */
+  isMember: Scalars['Boolean']['output'];
+};
+
+/** A custom product represents a product that doesn't map to Shopify's product model. */
+export type CustomProduct = {
+  __typename?: 'CustomProduct';
+  /** Whether the merchandise is a gift card. */
+  isGiftCard: Scalars['Boolean']['output'];
+  /** The localized title of the product. */
+  title: Scalars['String']['output'];
+};
+
+/** Represents a customer with the shop. */
+export type Customer = {
+  __typename?: 'Customer';
+  /** Whether the customer has any of the given tags. */
+  hasTags: Array<HasTagResponse>;
+  /** A unique identifier for the customer. */
+  id: Scalars['ID']['output'];
+};
+
+
+/** Represents a customer with the shop. */
+export type CustomerHasTagsArgs = {
+  tags?: Array<Scalars['String']['input']>;
+};
+
+/** The discount to be applied. */
+export type Discount = {
+  /** The discount message. */
+  message?: InputMaybe<Scalars['String']['input']>;
+  /** Product variant targets that contain the discount. */
+  targets: Array<Target>;
+  /** The value of the discount. */
+  value: Value;
+};
+
+/** The strategy that applies the list of discounts. */
+export enum DiscountApplicationStrategy {
+  /** Apply all discounts with conditions that are satisfied. */
+  All = 'ALL',
+  /** Only apply the first discount with conditions that are satisfied. */
+  First = 'FIRST',
+  /** Only apply the discount that offers the maximum reduction. */
+  Maximum = 'MAXIMUM'
+}
+
+/** A fixed amount value. */
+export type FixedAmount = {
+  /** The fixed amount value of the discount, in the currency of the cart. */
+  amount: Scalars['Decimal']['input'];
+  /** Whether to apply the value to each entitled item. */
+  appliesToEachItem?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+/** The result of a product discount function. */
+export type FunctionRunResult = {
+  /** The strategy that applies the list of discounts. */
+  discountApplicationStrategy: DiscountApplicationStrategy;
+  /** The list of discounts to be applied. */
+  discounts: Array<Discount>;
+};
+
+/** Represents whether the current object has the given tag. */
+export type HasTagResponse = {
+  __typename?: 'HasTagResponse';
+  /** Whether the current object has the tag. */
+  hasTag: Scalars['Boolean']['output'];
+  /** The tag. */
+  tag: Scalars['String']['output'];
+};
+
+/** The input object for the function. */
+export type Input = {
+  __typename?: 'Input';
+  /** The cart. */
+  cart: Cart;
+  /** The conversion rate between the shop's currency and the currency of the cart. */
+  presentmentCurrencyRate: Scalars['Decimal']['output'];
+  /** Information about the shop. */
+  shop: Shop;
+};
+
+/** The merchandise to be purchased at checkout. */
+export type Merchandise = CustomProduct | ProductVariant;
+
+/** Custom data attached to a resource. */
+export type Metafield = {
+  __typename?: 'Metafield';
+  /** The data stored in the metafield in JSON format. */
+  jsonValue: Scalars['JSON']['output'];
+  /** The type of data that the metafield stores. */
+  type: Scalars['String']['output'];
+  /** The data stored in the metafield. */
+  value: Scalars['String']['output'];
+};
+
+/** A monetary value with currency. */
+export type MoneyV2 = {
+  __typename?: 'MoneyV2';
+  /** Decimal money amount. */
+  amount: Scalars['Decimal']['output'];
+};
+
+/** The root mutation for the API. */
+export type MutationRoot = {
+  __typename?: 'MutationRoot';
+  /** Handles the function result. */
+  run: Scalars['Void']['output'];
+};
+
+
+/** The root mutation for the API. */
+export type MutationRootRunArgs = {
+  result: FunctionRunResult;
+};
+
+/** A percentage value. */
+export type Percentage = {
+  /** The percentage value. */
+  value: Scalars['Decimal']['input'];
+};
+
+/** Represents a product. */
+export type Product = {
+  __typename?: 'Product';
+  /** Whether the product has any of the given tags. */
+  hasTags: Array<HasTagResponse>;
+  /** A globally-unique identifier. */
+  id: Scalars['ID']['output'];
+  /** Whether the product is in any of the given collections. */
+  inCollections: Array<CollectionMembership>;
+  /** A custom product type specified by the merchant. */
+  productType?: Maybe<Scalars['String']['output']>;
+  /** The localized title of the product. */
+  title: Scalars['String']['output'];
+  /** The name of the product's vendor. */
+  vendor?: Maybe<Scalars['String']['output']>;
+};
+
+
+/** Represents a product. */
+export type ProductHasTagsArgs = {
+  tags?: Array<Scalars['String']['input']>;
+};
+
+
+/** Represents a product. */
+export type ProductInCollectionsArgs = {
+  ids?: Array<Scalars['ID']['input']>;
+};
+
+/** A product variant represents a different version of a product. */
+export type ProductVariant = {
+  __typename?: 'ProductVariant';
+  /** A globally-unique identifier. */
+  id: Scalars['ID']['output'];
+  /** A metafield of the variant, if it exists. */
+  metafield?: Maybe<Metafield>;
+  /** The product that this variant belongs to. */
+  product: Product;
+  /** The SKU of the variant. */
+  sku?: Maybe<Scalars['String']['output']>;
+  /** The localized title of the variant. */
+  title?: Maybe<Scalars['String']['output']>;
+};
+
+
+/** A product variant represents a different version of a product. */
+export type ProductVariantMetafieldArgs = {
+  key: Scalars['String']['input'];
+  namespace?: InputMaybe<Scalars['String']['input']>;
+};
+
+/** A method for applying a discount to a product variant. */
+export type ProductVariantTarget = {
+  /** The ID of the targeted product variant. */
+  id: Scalars['ID']['input'];
+  /** The number of line items that are being discounted. */
+  quantity?: InputMaybe<Scalars['Int']['input']>;
+};
+
+/** Information about the shop. */
+export type Shop = {
+  __typename?: 'Shop';
+  /** A metafield of the shop, if it exists. */
+  metafield?: Maybe<Metafield>;
+};
+
+
+/** Information about the shop. */
+export type ShopMetafieldArgs = {
+  key: Scalars['String']['input'];
+  namespace?: InputMaybe<Scalars['String']['input']>;
+};
+
+/** A method for applying a discount to a product or a cart line. */
+export type Target =
+  /** The target cart line. */
+  { cartLine: CartLineTarget; productVariant?: never; }
+  |  /** The target product variant. */
+  { cartLine?: never; productVariant: ProductVariantTarget; };
+
+/** The value of the discount. */
+export type Value =
+  /** A fixed amount value. */
+  { fixedAmount: FixedAmount; percentage?: never; }
+  |  /** A percentage value. */
+  { fixedAmount?: never; percentage: Percentage; };
+
+export type RunInputVariables = Exact<{
+  collectionIds?: InputMaybe<Array<Scalars['ID']['input']> | Scalars['ID']['input']>;
+  productTags?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+  customerTags?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+}>;
+
+
+export type RunInput = { __typename?: 'Input', presentmentCurrencyRate: any, shop: { __typename?: 'Shop', metafield?: { __typename?: 'Metafield', jsonValue: any } | null }, cart: { __typename?: 'Cart', buyerIdentity?: { __typename?: 'BuyerIdentity', customer?: { __typename?: 'Customer', id: string, hasTags: Array<{ __typename?: 'HasTagResponse', tag: string, hasTag: boolean }> } | null } | null, lines: Array<{ __typename?: 'CartLine', id: string, quantity: number, cost: { __typename?: 'CartLineCost', amountPerQuantity: { __typename?: 'MoneyV2', amount: any } }, merchandise: { __typename: 'CustomProduct' } | { __typename: 'ProductVariant', id: string, originalPrice?: { __typename?: 'Metafield', value: string } | null, product: { __typename?: 'Product', id: string, vendor?: string | null, productType?: string | null, inCollections: Array<{ __typename?: 'CollectionMembership', collectionId: string, isMember: boolean }>, hasTags: Array<{ __typename?: 'HasTagResponse', tag: string, hasTag: boolean }> } } }> } };
@@ -0,0 +1,281 @@
+// Pricing rules as the app syncs them into the shop's "$app:pricing.rules"
+// metafield, and the checkout side of the pricing engine. This mirrors
+// app/services/pricing.server.ts, but a Function cannot import app code, so
+// it stays self-contained and free of anything Javy cannot run (no Intl).
+
+export const FUNCTION_CONFIG_VERSION = 1;
+
+export interface QuantityTier {
+  minQuantity: number;
+  maxQuantity: number | null;
+  discountPercent: number;
+}
+
+export interface PricingCondition {
+  type: "condition";
+  field: "collection" | "tag" | "vendor" | "productType" | "price";
+  operator: string;
+  values: string[];
+}
+
+export interface ConditionGroup {
+  type: "group";
+  operator: "and" | "or";
+  children: (PricingCondition | ConditionGroup)[];
+}
+
+export interface FunctionRule {
+  id: string;
+  name: string;
+  // Published rules already changed the catalog price; they only keep
+  // lower-precedence rules off the variants they win, see isPricedAtCheckout
+  published: boolean;
+  applyTo: string;
+  productIds: string[];
+  variantIds: string[];
+  collectionIds: string[];
+  tags: string[];
+  conditions: ConditionGroup | null;
+  excludedProductIds: string[];
+  excludedCollectionIds: string[];
+  excludedTags: string[];
+  customerEligibility: string;
+  customerTags: string[];
+  customerIds: string[];
+  priceType: string;
+  amount: number;
+  tiers: QuantityTier[];
+  roundingMode: string;
+  minPrice: number | null;
+  maxDiscountPercent: number | null;
+}
+
+// Rules are sorted by precedence and only hold the ones running when the
+// app last synced; it re-syncs at every schedule boundary
+export interface FunctionConfig {
+  version: number;
+  currencyCode: string;
+  currencyDecimals: number;
+  rules: FunctionRule[];
+}
+
+// One cart line's variant, with the memberships the input query asked for
+export interface LineSubject {
+  variantId: string;
+  productId: string;
+  // Unit price in the shop's currency before any published rule, which
+  // rules and price conditions work from, as in the app
+  price: number;
+  quantity: number;
+  collectionIds: string[];
+  tags: string[];
+  vendor: string;
+  productType: string;
+}
+
+// null is a shopper who is not logged in
+export interface CustomerSubject {
+  id: string;
+  tags: string[];
+}
+
+export function parseFunctionConfig(value: unknown): FunctionConfig | null {
+  if (!value || typeof value !== "object") return null;
+  const config = value as Partial<FunctionConfig>;
+  if (config.version !== FUNCTION_CONFIG_VERSION || !Array.isArray(config.rules)) {
+    return null;
+  }
+  return config as FunctionConfig;
+}
+
+const lower = (values: string[]) => values.map((value) => value.toLowerCase());
+
+const sharesAny = (a: string[], b: string[]) => a.some((value) => b.includes(value));
+
+function isCustomerEligible(rule: FunctionRule, customer: CustomerSubject | null) {
+  switch (rule.customerEligibility) {
+    case "all":
+      return true;
+    case "logged-in":
+      return customer !== null;
+    case "customer-tags":
+      return customer !== null && sharesAny(lower(customer.tags), lower(rule.customerTags));
+    case "specific-customers":
+      return customer !== null && rule.customerIds.includes(customer.id);
+    default:
+      return false;
+  }
+}
+
+function evaluateCondition(condition: PricingCondition, line: LineSubject): boolean {
+  const values = lower(condition.values.map((value) => String(value).trim())).filter(Boolean);
+
+  switch (condition.field) {
+    case "collection": {
+      const inAny = sharesAny(line.collectionIds, condition.values);
+      return condition.operator === "none" ? !inAny : inAny;
+    }
+    case "tag": {
+      const hasAny = sharesAny(lower(line.tags), values);
+      return condition.operator === "none" ? !hasAny : hasAny;
+    }
+    case "vendor":
+    case "productType": {
+      const actual = (condition.field === "vendor" ? line.vendor : line.productType).toLowerCase();
+      switch (condition.operator) {
+        case "is":
+          return values.includes(actual);
+        case "is_not":
+          return !values.includes(actual);
+        case "contains":
+          return values.some((value) => actual.includes(value));
+        default:
+          return false;
+      }
+    }
+    case "price": {
+      const [first, second] = condition.values.map((value) => parseFloat(value));
+      switch (condition.operator) {
+        case "greater_than":
+          return line.price > first;
+        case "less_than":
+          return line.price < first;
+        case "between":
+          return line.price >= first && line.price <= second;
+        default:
+          return false;
+      }
+    }
+    default:
+      return false;
+  }
+}
+
+function evaluateGroup(group: ConditionGroup, line: LineSubject): boolean {
+  const matches = (child: PricingCondition | ConditionGroup) =>
+    child.type === "group" ? evaluateGroup(child, line) : evaluateCondition(child, line);
+  return group.operator === "and"
+    ? group.children.every(matches)
+    : group.children.some(matches);
+}
+
+export function ruleMatchesLine(rule: FunctionRule, line: LineSubject): boolean {
+  if (rule.excludedProductIds.includes(line.productId)) return false;
+  if (sharesAny(line.collectionIds, rule.excludedCollectionIds)) return false;
+  if (sharesAny(lower(line.tags), lower(rule.excludedTags))) return false;
+
+  switch (rule.applyTo) {
+    case "all-products":
+      return true;
+    case "specific-products":
+      return rule.variantIds.includes(line.variantId) || rule.productIds.includes(line.productId);
+    case "product-collections":
+      return sharesAny(line.collectionIds, rule.collectionIds);
+    case "product-tags":
+      return sharesAny(lower(line.tags), lower(rule.tags));
+    case "conditions":
+      return rule.conditions !== null && evaluateGroup(rule.conditions, line);
+    default:
+      return false;
+  }
+}
+
+// The first eligible rule targeting the line wins, since rules arrive sorted
+export function findWinningRule(
+  rules: FunctionRule[],
+  line: LineSubject,
+  customer: CustomerSubject | null,
+): FunctionRule | null {
+  return (
+    rules.find((rule) => isCustomerEligible(rule, customer) && ruleMatchesLine(rule, line)) ||
+    null
+  );
+}
+
+// Quantity breaks depend on the cart, so the app never publishes them to the
+// catalog and they are always priced here, even if marked published
+export function isPricedAtCheckout(rule: FunctionRule): boolean {
+  return !rule.published || rule.priceType === "quantity-tiers";
+}
+
+const ROUNDING_STEPS: Record<string, { step: number; direction: "nearest" | "down" }> = {
+  "nearest-0.05": { step: 5, direction: "nearest" },
+  "nearest-0.10": { step: 10, direction: "nearest" },
+  "nearest-1.00": { step: 100, direction: "nearest" },
+  "down-1.00": { step: 100, direction: "down" },
+};
+
+const CHARM_ENDINGS: Record<string, number> = {
+  "charm-0.99": 99,
+  "charm-0.95": 95,
+  "charm-0.00": 0,
+};
+
+function roundPrice(price: number, roundingMode: string, direction?: "up"): number {
+  const cents = Math.round(price * 100);
+  const round = (value: number, fallback: "nearest" | "down") => {
+    if (direction === "up") return Math.ceil(value);
+    return fallback === "down" ? Math.floor(value) : Math.round(value);
+  };
+
+  const stepConfig = ROUNDING_STEPS[roundingMode];
+  if (stepConfig) {
+    return (round(cents / stepConfig.step, stepConfig.direction) * stepConfig.step) / 100;
+  }
+
+  const ending = CHARM_ENDINGS[roundingMode];
+  if (ending !== undefined) {
+    const units = Math.max(0, round((cents - ending) / 100, "nearest"));
+    return (units * 100 + ending) / 100;
+  }
+
+  return cents / 100;
+}
+
+function getAdjustedPrice(rule: FunctionRule, original: number, quantity: number): number {
+  switch (rule.priceType) {
+    case "apply-price":
+      return rule.amount;
+    case "decrease-fixed":
+      return Math.max(0, original - rule.amount);
+    case "decrease-percentage":
+      return Math.max(0, original - (original * rule.amount) / 100);
+    case "quantity-tiers": {
+      const tier = rule.tiers.find(
+        (candidate) =>
+          quantity >= candidate.minQuantity &&
+          (candidate.maxQuantity === null || quantity <= candidate.maxQuantity),
+      );
+      return tier ? Math.max(0, original - (original * tier.discountPercent) / 100) : original;
+    }
+    default:
+      return original;
+  }
+}
+
+// Unit price the rule gives the line, with the same cap, floor and rounding
+// as applyRulePrice in the app
+export function getRuleUnitPrice(
+  rule: FunctionRule,
+  line: LineSubject,
+  currencyDecimals: number,
+): number {
+  const original = line.price;
+  const price = getAdjustedPrice(rule, original, line.quantity);
+
+  let lowest = 0;
+  if (rule.maxDiscountPercent !== null) {
+    lowest = Math.max(lowest, original * (1 - rule.maxDiscountPercent / 100));
+  }
+  if (rule.minPrice !== null) {
+    lowest = Math.max(lowest, Math.min(rule.minPrice, original));
+  }
+
+  const factor = Math.pow(10, currencyDecimals);
+  const toCurrency = (value: number) => Math.round(value * factor) / factor;
+  lowest = Math.ceil(Math.round(lowest * factor * 100) / 100) / factor;
+
+  const limited = Math.max(price, lowest);
+  const rounded = toCurrency(roundPrice(limited, rule.roundingMode));
+  return rounded < lowest ? toCurrency(roundPrice(limited, rule.roundingMode, "up")) : rounded;
+}
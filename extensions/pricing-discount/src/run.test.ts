@@ -0,0 +1,248 @@
+import { describe, it, expect } from "vitest";
+import { run } from "./run";
+import type { RunInput } from "../generated/api";
+import { DiscountApplicationStrategy } from "../generated/api";
+import {
+  FUNCTION_CONFIG_VERSION,
+  findWinningRule,
+  getRuleUnitPrice,
+  type FunctionConfig,
+  type FunctionRule,
+  type LineSubject,
+} from "./rules";
+
+const createRule = (overrides: Partial<FunctionRule> = {}): FunctionRule => ({
+  id: "rule_1",
+  name: "Sale",
+  published: false,
+  applyTo: "all-products",
+  productIds: [],
+  variantIds: [],
+  collectionIds: [],
+  tags: [],
+  conditions: null,
+  excludedProductIds: [],
+  excludedCollectionIds: [],
+  excludedTags: [],
+  customerEligibility: "all",
+  customerTags: [],
+  customerIds: [],
+  priceType: "decrease-percentage",
+  amount: 10,
+  tiers: [],
+  roundingMode: "none",
+  minPrice: null,
+  maxDiscountPercent: null,
+  ...overrides,
+});
+
+const createLine = (overrides: Partial<LineSubject> = {}): LineSubject => ({
+  variantId: "gid://shopify/ProductVariant/1",
+  productId: "gid://shopify/Product/1",
+  price: 20,
+  quantity: 1,
+  collectionIds: [],
+  tags: [],
+  vendor: "Acme",
+  productType: "Shirts",
+  ...overrides,
+});
+
+const createInput = (
+  rules: FunctionRule[],
+  options: {
+    quantity?: number;
+    rate?: string;
+    customer?: { id: string; tags: string[] };
+    originalPrice?: string;
+  } = {},
+): RunInput => {
+  const config: FunctionConfig = {
+    version: FUNCTION_CONFIG_VERSION,
+    currencyCode: "USD",
+    currencyDecimals: 2,
+    rules,
+  };
+  return {
+    presentmentCurrencyRate: options.rate ?? "1.0",
+    shop: { metafield: { jsonValue: config } },
+    cart: {
+      buyerIdentity: options.customer
+        ? {
+            customer: {
+              id: options.customer.id,
+              hasTags: options.customer.tags.map((tag) => ({ tag, hasTag: true })),
+            },
+          }
+        : null,
+      lines: [
+        {
+          id: "gid://shopify/CartLine/1",
+          quantity: options.quantity ?? 1,
+          cost: { amountPerQuantity: { amount: "20.0" } },
+          merchandise: {
+            __typename: "ProductVariant",
+            id: "gid://shopify/ProductVariant/1",
+            originalPrice: options.originalPrice ? { value: options.originalPrice } : null,
+            product: {
+              id: "gid://shopify/Product/1",
+              vendor: "Acme",
+              productType: "Shirts",
+              inCollections: [],
+              hasTags: [{ tag: "sale", hasTag: true }],
+            },
+          },
+        },
+      ],
+    },
+  } as unknown as RunInput;
+};
+
+describe("pricing discount function", () => {
+  it("returns no discounts without synced rules", () => {
+    const result = run({
+      presentmentCurrencyRate: "1.0",
+      shop: { metafield: null },
+      cart: { buyerIdentity: null, lines: [] },
+    } as unknown as RunInput);
+
+    expect(result).toEqual({
+      discountApplicationStrategy: DiscountApplicationStrategy.All,
+      discounts: [],
+    });
+  });
+
+  it("discounts each item down to the rule's price", () => {
+    const result = run(createInput([createRule()]));
+
+    expect(result.discounts).toEqual([
+      {
+        message: "Sale",
+        targets: [{ cartLine: { id: "gid://shopify/CartLine/1" } }],
+        value: { fixedAmount: { amount: "2", appliesToEachItem: true } },
+      },
+    ]);
+  });
+
+  it("converts amounts into the cart's currency", () => {
+    const result = run(
+      createInput([createRule({ priceType: "decrease-fixed", amount: 5 })], { rate: "2.0" }),
+    );
+
+    expect(result.discounts[0].value).toEqual({
+      fixedAmount: { amount: "10", appliesToEachItem: true },
+    });
+  });
+
+  it("leaves lines won by a published rule alone", () => {
+    const result = run(
+      createInput([createRule({ id: "published", published: true }), createRule()]),
+    );
+
+    expect(result.discounts).toEqual([]);
+  });
+
+  it("prices a customer rule from the price a published rule replaced", () => {
+    const vip = createRule({
+      id: "vip",
+      name: "VIP",
+      amount: 30,
+      customerEligibility: "customer-tags",
+      customerTags: ["VIP"],
+    });
+    const published = createRule({ id: "published", published: true, amount: 20 });
+    const customer = { id: "gid://shopify/Customer/1", tags: ["vip"] };
+
+    // The catalog already sells the 25.00 variant at 20.00, so the VIP price
+    // of 17.50 only takes another 2.50 off
+    expect(
+      run(createInput([vip, published], { customer, originalPrice: "25.0" })).discounts[0].value,
+    ).toEqual({ fixedAmount: { amount: "2.5", appliesToEachItem: true } });
+    expect(run(createInput([vip, published], { originalPrice: "25.0" })).discounts).toEqual([]);
+  });
+
+  it("only applies customer rules to eligible customers", () => {
+    const rule = createRule({ customerEligibility: "customer-tags", customerTags: ["VIP"] });
+
+    expect(run(createInput([rule])).discounts).toEqual([]);
+    expect(
+      run(createInput([rule], { customer: { id: "gid://shopify/Customer/1", tags: ["vip"] } }))
+        .discounts,
+    ).toHaveLength(1);
+  });
+
+  it("picks the quantity tier from the line's quantity", () => {
+    const rule = createRule({
+      priceType: "quantity-tiers",
+      tiers: [
+        { minQuantity: 1, maxQuantity: 9, discountPercent: 0 },
+        { minQuantity: 10, maxQuantity: null, discountPercent: 25 },
+      ],
+    });
+
+    expect(run(createInput([rule], { quantity: 5 })).discounts).toEqual([]);
+    expect(run(createInput([rule], { quantity: 10 })).discounts[0].value).toEqual({
+      fixedAmount: { amount: "5", appliesToEachItem: true },
+    });
+  });
+
+  it("prices quantity breaks at checkout even when marked published", () => {
+    const rule = createRule({
+      published: true,
+      priceType: "quantity-tiers",
+      tiers: [
+        { minQuantity: 1, maxQuantity: 9, discountPercent: 0 },
+        { minQuantity: 10, maxQuantity: 49, discountPercent: 10 },
+        { minQuantity: 50, maxQuantity: null, discountPercent: 25 },
+      ],
+    });
+
+    expect(run(createInput([rule], { quantity: 1 })).discounts).toEqual([]);
+    expect(run(createInput([rule], { quantity: 10 })).discounts[0].value).toEqual({
+      fixedAmount: { amount: "2", appliesToEachItem: true },
+    });
+    expect(run(createInput([rule], { quantity: 50 })).discounts[0].value).toEqual({
+      fixedAmount: { amount: "5", appliesToEachItem: true },
+    });
+  });
+});
+
+describe("rule matching", () => {
+  it("lets exclusions win over targeting", () => {
+    const rule = createRule({ excludedTags: ["Clearance"] });
+
+    expect(findWinningRule([rule], createLine({ tags: ["clearance"] }), null)).toBeNull();
+    expect(findWinningRule([rule], createLine(), null)).toBe(rule);
+  });
+
+  it("evaluates condition trees", () => {
+    const rule = createRule({
+      applyTo: "conditions",
+      conditions: {
+        type: "group",
+        operator: "and",
+        children: [
+          { type: "condition", field: "vendor", operator: "is", values: ["acme"] },
+          { type: "condition", field: "price", operator: "greater_than", values: ["50"] },
+        ],
+      },
+    });
+
+    expect(findWinningRule([rule], createLine({ price: 60 }), null)).toBe(rule);
+    expect(findWinningRule([rule], createLine({ price: 40 }), null)).toBeNull();
+  });
+});
+
+describe("rule prices", () => {
+  it("applies the discount cap, price floor and rounding", () => {
+    const line = createLine({ price: 20 });
+
+    expect(
+      getRuleUnitPrice(createRule({ amount: 50, maxDiscountPercent: 20 }), line, 2),
+    ).toBe(16);
+    expect(getRuleUnitPrice(createRule({ amount: 50, minPrice: 12 }), line, 2)).toBe(12);
+    expect(
+      getRuleUnitPrice(createRule({ amount: 12, roundingMode: "charm-0.99" }), line, 2),
+    ).toBe(17.99);
+  });
+});
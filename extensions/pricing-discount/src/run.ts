@@ -0,0 +1,82 @@
+import type {
+  RunInput,
+  FunctionRunResult,
+  Discount,
+} from "../generated/api";
+import { DiscountApplicationStrategy } from "../generated/api";
+import {
+  findWinningRule,
+  getRuleUnitPrice,
+  isPricedAtCheckout,
+  parseFunctionConfig,
+  type LineSubject,
+} from "./rules";
+
+const EMPTY_DISCOUNT: FunctionRunResult = {
+  discountApplicationStrategy: DiscountApplicationStrategy.All,
+  discounts: [],
+};
+
+const taggedWith = (results: { tag: string; hasTag: boolean }[]) =>
+  results.filter((result) => result.hasTag).map((result) => result.tag);
+
+const memberOf = (results: { collectionId: string; isMember: boolean }[]) =>
+  results.filter((result) => result.isMember).map((result) => result.collectionId);
+
+// Every cart line gets at most one discount: the winning rule's price
+// against the line's current price. Rules compute in the shop's currency;
+// the cart may be in another, so amounts go through the presentment rate.
+// A variant a published rule changed carries its original price in a
+// metafield, so another rule winning it at checkout prices from the original
+// and only takes off what the catalog price does not already.
+export function run(input: RunInput): FunctionRunResult {
+  const config = parseFunctionConfig(input.shop.metafield?.jsonValue);
+  if (!config || config.rules.length === 0) {
+    return EMPTY_DISCOUNT;
+  }
+
+  const rate = parseFloat(String(input.presentmentCurrencyRate)) || 1;
+  const buyer = input.cart.buyerIdentity?.customer;
+  const customer = buyer
+    ? { id: buyer.id, tags: taggedWith(buyer.hasTags) }
+    : null;
+
+  const discounts: Discount[] = [];
+  for (const line of input.cart.lines) {
+    if (line.merchandise.__typename !== "ProductVariant") continue;
+
+    const { product, originalPrice } = line.merchandise;
+    const currentPrice = parseFloat(String(line.cost.amountPerQuantity.amount)) / rate;
+    const subject: LineSubject = {
+      variantId: line.merchandise.id,
+      productId: product.id,
+      price: parseFloat(originalPrice?.value ?? "") || currentPrice,
+      quantity: line.quantity,
+      collectionIds: memberOf(product.inCollections),
+      tags: taggedWith(product.hasTags),
+      vendor: product.vendor || "",
+      productType: product.productType || "",
+    };
+
+    const rule = findWinningRule(config.rules, subject, customer);
+    if (!rule || !isPricedAtCheckout(rule)) continue;
+
+    const discount = currentPrice - getRuleUnitPrice(rule, subject, config.currencyDecimals);
+    if (discount <= 0) continue;
+
+    discounts.push({
+      message: rule.name,
+      targets: [{ cartLine: { id: line.id } }],
+      value: {
+        fixedAmount: {
+          amount: (Math.round(discount * rate * 100) / 100).toString(),
+          appliesToEachItem: true,
+        },
+      },
+    });
+  }
+
+  return discounts.length > 0
+    ? { ...EMPTY_DISCOUNT, discounts }
+    : EMPTY_DISCOUNT;
+}
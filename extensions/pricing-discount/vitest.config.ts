@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// Without its own config vitest would load the Remix app's vite.config.ts
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});
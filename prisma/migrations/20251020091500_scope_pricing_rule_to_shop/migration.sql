@@ -0,0 +1,50 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_PricingRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "applyTo" TEXT NOT NULL,
+    "productIds" JSONB,
+    "variantIds" JSONB,
+    "collectionIds" JSONB,
+    "tagIds" JSONB,
+    "priceType" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PricingRule_shop_fkey" FOREIGN KEY ("shop") REFERENCES "Shop" ("shop") ON DELETE CASCADE ON UPDATE CASCADE
+);
+-- Rules created before shop scoping belong to the installed shop when there
+-- is exactly one. Otherwise there is no telling which shop made them, so they
+-- are never copied into a shop; they wait in UnclaimedPricingRule for an
+-- operator to assign them, see the model in prisma/schema.prisma.
+INSERT INTO "new_PricingRule" ("id", "shop", "name", "priority", "status", "applyTo", "productIds", "variantIds", "collectionIds", "tagIds", "priceType", "amount", "createdAt")
+SELECT "id", (SELECT "shop" FROM "Shop"), "name", "priority", "status", "applyTo", "productIds", "variantIds", "collectionIds", "tagIds", "priceType", "amount", "createdAt"
+FROM "PricingRule"
+WHERE (SELECT COUNT(*) FROM "Shop") = 1;
+CREATE TABLE "UnclaimedPricingRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "applyTo" TEXT NOT NULL,
+    "productIds" JSONB,
+    "variantIds" JSONB,
+    "collectionIds" JSONB,
+    "tagIds" JSONB,
+    "priceType" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "UnclaimedPricingRule" ("id", "name", "priority", "status", "applyTo", "productIds", "variantIds", "collectionIds", "tagIds", "priceType", "amount", "createdAt")
+SELECT "id", "name", "priority", "status", "applyTo", "productIds", "variantIds", "collectionIds", "tagIds", "priceType", "amount", "createdAt"
+FROM "PricingRule"
+WHERE (SELECT COUNT(*) FROM "Shop") <> 1;
+DROP TABLE "PricingRule";
+ALTER TABLE "new_PricingRule" RENAME TO "PricingRule";
+CREATE INDEX "PricingRule_shop_idx" ON "PricingRule"("shop");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN "publishedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "VariantPriceBackup" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "shop" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "originalPrice" TEXT NOT NULL,
+    "originalCompareAtPrice" TEXT,
+    "publishedPrice" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "VariantPriceBackup_shop_ruleId_idx" ON "VariantPriceBackup"("shop", "ruleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VariantPriceBackup_shop_variantId_key" ON "VariantPriceBackup"("shop", "variantId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN "endsAt" DATETIME;
+ALTER TABLE "PricingRule" ADD COLUMN "startsAt" DATETIME;
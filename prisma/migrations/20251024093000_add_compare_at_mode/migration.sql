@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN "compareAtMode" TEXT NOT NULL DEFAULT 'unchanged';
+ALTER TABLE "PricingRule" ADD COLUMN "compareAtAmount" REAL;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN "excludedCollectionIds" JSONB;
+ALTER TABLE "PricingRule" ADD COLUMN "excludedProductIds" JSONB;
+ALTER TABLE "PricingRule" ADD COLUMN "excludedTags" JSONB;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN "maxDiscountPercent" REAL;
+ALTER TABLE "PricingRule" ADD COLUMN "minPrice" REAL;
+ALTER TABLE "PricingRule" ADD COLUMN "roundingMode" TEXT NOT NULL DEFAULT 'none';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN "marketPrices" JSONB;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN "customerEligibility" TEXT NOT NULL DEFAULT 'all';
+ALTER TABLE "PricingRule" ADD COLUMN "customerIds" JSONB;
+ALTER TABLE "PricingRule" ADD COLUMN "customerTags" JSONB;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "PricingRuleEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "ruleName" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "staffName" TEXT,
+    "staffEmail" TEXT,
+    "changes" JSONB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "PricingRuleEvent_shop_ruleId_createdAt_idx" ON "PricingRuleEvent"("shop", "ruleId", "createdAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "PricingRuleVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "staffName" TEXT,
+    "staffEmail" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PricingRuleVersion_ruleId_version_key" ON "PricingRuleVersion"("ruleId", "version");
+
+-- CreateIndex
+CREATE INDEX "PricingRuleVersion_shop_ruleId_idx" ON "PricingRuleVersion"("shop", "ruleId");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN "deletedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN "trashRetentionDays" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateIndex
+CREATE INDEX "PricingRule_shop_deletedAt_idx" ON "PricingRule"("shop", "deletedAt");
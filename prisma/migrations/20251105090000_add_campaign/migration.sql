@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "Campaign" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'paused',
+    "startsAt" DATETIME,
+    "endsAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Campaign_shop_fkey" FOREIGN KEY ("shop") REFERENCES "Shop" ("shop") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_PricingRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "applyTo" TEXT NOT NULL,
+    "productIds" JSONB,
+    "variantIds" JSONB,
+    "collectionIds" JSONB,
+    "tagIds" JSONB,
+    "priceType" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "publishedAt" DATETIME,
+    "endsAt" DATETIME,
+    "startsAt" DATETIME,
+    "compareAtMode" TEXT NOT NULL DEFAULT 'unchanged',
+    "compareAtAmount" REAL,
+    "excludedCollectionIds" JSONB,
+    "excludedProductIds" JSONB,
+    "excludedTags" JSONB,
+    "conditions" JSONB,
+    "maxDiscountPercent" REAL,
+    "minPrice" REAL,
+    "roundingMode" TEXT NOT NULL DEFAULT 'none',
+    "marketPrices" JSONB,
+    "customerEligibility" TEXT NOT NULL DEFAULT 'all',
+    "customerIds" JSONB,
+    "customerTags" JSONB,
+    "tiers" JSONB,
+    "deletedAt" DATETIME,
+    "campaignId" TEXT,
+    CONSTRAINT "PricingRule_shop_fkey" FOREIGN KEY ("shop") REFERENCES "Shop" ("shop") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PricingRule_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_PricingRule" ("id", "shop", "name", "priority", "status", "applyTo", "productIds", "variantIds", "collectionIds", "tagIds", "priceType", "amount", "createdAt", "publishedAt", "endsAt", "startsAt", "compareAtMode", "compareAtAmount", "excludedCollectionIds", "excludedProductIds", "excludedTags", "conditions", "maxDiscountPercent", "minPrice", "roundingMode", "marketPrices", "customerEligibility", "customerIds", "customerTags", "tiers", "deletedAt") SELECT "id", "shop", "name", "priority", "status", "applyTo", "productIds", "variantIds", "collectionIds", "tagIds", "priceType", "amount", "createdAt", "publishedAt", "endsAt", "startsAt", "compareAtMode", "compareAtAmount", "excludedCollectionIds", "excludedProductIds", "excludedTags", "conditions", "maxDiscountPercent", "minPrice", "roundingMode", "marketPrices", "customerEligibility", "customerIds", "customerTags", "tiers", "deletedAt" FROM "PricingRule";
+DROP TABLE "PricingRule";
+ALTER TABLE "new_PricingRule" RENAME TO "PricingRule";
+CREATE INDEX "PricingRule_shop_idx" ON "PricingRule"("shop");
+CREATE INDEX "PricingRule_shop_deletedAt_idx" ON "PricingRule"("shop", "deletedAt");
+CREATE INDEX "PricingRule_campaignId_idx" ON "PricingRule"("campaignId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "Campaign_shop_idx" ON "Campaign"("shop");
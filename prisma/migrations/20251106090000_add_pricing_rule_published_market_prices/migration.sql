@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN "publishedMarketPrices" JSONB;
+
+-- Rules already published last wrote their current market prices
+UPDATE "PricingRule" SET "publishedMarketPrices" = "marketPrices" WHERE "publishedAt" IS NOT NULL;